@@ -12,6 +12,7 @@ import ProfilePage from "@/pages/profile-page";
 import AdminPage from "@/pages/admin-page";
 import AdminCafeEditPage from "@/pages/admin-cafe-edit-page";
 import AdminCafeNewPage from "@/pages/admin-cafe-new-page";
+import OwnerCafeEditPage from "@/pages/owner-cafe-edit-page";
 import NotFound from "@/pages/not-found";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { AdminProtectedRoute } from "@/lib/admin-protected-route";
@@ -31,6 +32,7 @@ function Router() {
           <Route path="/cafe/:id" component={CafeDetailPage} />
           <Route path="/about" component={AboutPage} />
           <ProtectedRoute path="/profile" component={ProfilePage} />
+          <ProtectedRoute path="/owner/cafes/:id" component={OwnerCafeEditPage} />
           <AdminProtectedRoute path="/admin" component={AdminPage} />
           <AdminProtectedRoute path="/admin/cafes/new" component={AdminCafeNewPage} />
           <AdminProtectedRoute path="/admin/cafes/:id" component={AdminCafeEditPage} />
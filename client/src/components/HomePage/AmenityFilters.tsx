@@ -1,4 +1,7 @@
-import { CafeFilter } from "@shared/schema";
+import { CafeFilter, cafeAmenityKeys } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatAmenity } from "@/lib/utils";
+import { amenityIcons } from "@/components/amenity-badges";
 
 interface AmenityFiltersProps {
   filters: CafeFilter;
@@ -10,53 +13,35 @@ export default function AmenityFilters({
   onFilterChange
 }: AmenityFiltersProps) {
   return (
-    <div className="space-y-2">
-      <h3 className="font-medium text-sm text-gray-700">Sells Coffee Beans</h3>
-      <div className="flex items-center gap-4">
-        <label className="flex items-center space-x-2 cursor-pointer">
-          <input
-            type="radio"
-            name="sellsCoffeeBeans"
-            checked={filters.sellsCoffeeBeans === true}
-            onChange={() =>
-              onFilterChange({
-                ...filters,
-                sellsCoffeeBeans: true,
-              })
-            }
-            className="form-radio h-4 w-4 text-[#A0522D] rounded"
-          />
-          <span className="text-sm text-gray-700">Yes</span>
-        </label>
-        <label className="flex items-center space-x-2 cursor-pointer">
-          <input
-            type="radio"
-            name="sellsCoffeeBeans"
-            checked={filters.sellsCoffeeBeans === false}
-            onChange={() =>
-              onFilterChange({
-                ...filters,
-                sellsCoffeeBeans: false,
-              })
-            }
-            className="form-radio h-4 w-4 text-[#A0522D] rounded"
-          />
-          <span className="text-sm text-gray-700">No</span>
-        </label>
-        {filters.sellsCoffeeBeans !== undefined && (
-          <button
-            onClick={() =>
-              onFilterChange({
-                ...filters,
-                sellsCoffeeBeans: undefined,
-              })
-            }
-            className="text-xs text-gray-500 hover:text-[#A0522D]"
-          >
-            Clear
-          </button>
-        )}
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm text-gray-900">Amenities</h3>
+      <div className="space-y-2">
+        {cafeAmenityKeys.map((amenity) => {
+          const Icon = amenityIcons[amenity];
+          return (
+            <div key={amenity} className="flex items-center space-x-2">
+              <Checkbox
+                id={`amenity-${amenity}`}
+                checked={filters[amenity] === true}
+                onCheckedChange={(checked) =>
+                  onFilterChange({
+                    ...filters,
+                    // Unchecking clears the filter rather than requiring the amenity to be absent
+                    [amenity]: checked === true ? true : undefined,
+                  })
+                }
+              />
+              <label
+                htmlFor={`amenity-${amenity}`}
+                className="text-sm font-normal cursor-pointer flex items-center"
+              >
+                <Icon className="h-3.5 w-3.5 mr-1.5 text-gray-500" />
+                {formatAmenity(amenity)}
+              </label>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -3,12 +3,14 @@ import { CafeFilter } from "@shared/schema";
 interface AreaFilterProps {
   filters: CafeFilter;
   areas: string[];
+  counts?: Record<string, number>;
   onFilterChange: (filters: CafeFilter) => void;
 }
 
 export default function AreaFilter({ 
   filters, 
   areas, 
+  counts,
   onFilterChange 
 }: AreaFilterProps) {
   return (
@@ -26,8 +28,12 @@ export default function AreaFilter({
       >
         <option value="">All Locations</option>
         {areas.map((area) => (
-          <option key={area} value={area}>
-            {area}
+          <option
+            key={area}
+            value={area}
+            disabled={counts?.[area] === 0 && filters.area !== area}
+          >
+            {counts ? `${area} (${counts[area] ?? 0})` : area}
           </option>
         ))}
       </select>
@@ -1,4 +1,6 @@
+import { FilterMatchMode } from "@shared/schema";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 
 const brewingMethods = [
   { value: "espresso_based", label: "Espresso Based" },
@@ -11,10 +13,13 @@ const brewingMethods = [
 
 interface BrewingMethodsFilterProps {
   selectedBrewingMethods: string[];
+  counts?: Record<string, number>;
+  mode: FilterMatchMode;
+  onModeChange: (mode: FilterMatchMode) => void;
   onBrewingMethodsChange: (brewingMethods: string[]) => void;
 }
 
-export function BrewingMethodsFilter({ selectedBrewingMethods, onBrewingMethodsChange }: BrewingMethodsFilterProps) {
+export function BrewingMethodsFilter({ selectedBrewingMethods, counts, mode, onModeChange, onBrewingMethodsChange }: BrewingMethodsFilterProps) {
   const handleBrewingMethodToggle = (brewingMethod: string) => {
     const newBrewingMethods = selectedBrewingMethods.includes(brewingMethod)
       ? selectedBrewingMethods.filter(b => b !== brewingMethod)
@@ -24,23 +29,43 @@ export function BrewingMethodsFilter({ selectedBrewingMethods, onBrewingMethodsC
 
   return (
     <div className="space-y-3">
-      <h3 className="font-medium text-sm text-gray-900">Brewing Methods</h3>
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm text-gray-900">Brewing Methods</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as FilterMatchMode)}
+          aria-label="Match any or all selected"
+        >
+          <ToggleGroupItem value="any" className="h-6 px-2 text-xs">Any</ToggleGroupItem>
+          <ToggleGroupItem value="all" className="h-6 px-2 text-xs">All</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
       <div className="space-y-2">
-        {brewingMethods.map((brewingMethod) => (
-          <div key={brewingMethod.value} className="flex items-center space-x-2">
-            <Checkbox
-              id={brewingMethod.value}
-              checked={selectedBrewingMethods.includes(brewingMethod.value)}
-              onCheckedChange={() => handleBrewingMethodToggle(brewingMethod.value)}
-            />
-            <label
-              htmlFor={brewingMethod.value}
-              className="text-sm font-normal cursor-pointer"
-            >
-              {brewingMethod.label}
-            </label>
-          </div>
-        ))}
+        {brewingMethods.map((brewingMethod) => {
+          const selected = selectedBrewingMethods.includes(brewingMethod.value);
+          const disabled = counts?.[brewingMethod.value] === 0 && !selected;
+          return (
+            <div key={brewingMethod.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={brewingMethod.value}
+                checked={selected}
+                disabled={disabled}
+                onCheckedChange={() => handleBrewingMethodToggle(brewingMethod.value)}
+              />
+              <label
+                htmlFor={brewingMethod.value}
+                className={`text-sm font-normal ${disabled ? "text-gray-400" : "cursor-pointer"}`}
+              >
+                {brewingMethod.label}
+              </label>
+              {counts && (
+                <span className="ml-auto text-xs text-gray-500">{counts[brewingMethod.value] ?? 0}</span>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -1,19 +1,23 @@
-import { CafeFilter } from "@shared/schema";
+import { CafeFacets, CafeFilter } from "@shared/schema";
 import AreaFilter from "./AreaFilter";
 import { RoastLevelFilter } from "./RoastLevelFilter";
 import { BrewingMethodsFilter } from "./BrewingMethodsFilter";
 import { RatingFilter } from "./RatingFilter";
+import SubScoreFilters from "./SubScoreFilters";
 import { CoffeeBeansFilter } from "./CoffeeBeansFilter";
+import AmenityFilters from "./AmenityFilters";
 
 interface FilterContainerProps {
   filters: CafeFilter;
   areas: string[];
+  facets?: CafeFacets;
   onFilterChange: (newFilters: CafeFilter) => void;
 }
 
 export default function FilterContainer({
   filters,
   areas,
+  facets,
   onFilterChange
 }: FilterContainerProps) {
   return (
@@ -27,28 +31,46 @@ export default function FilterContainer({
           <AreaFilter
             filters={filters}
             areas={areas}
+            counts={facets?.areas}
             onFilterChange={onFilterChange}
           />
 
           <RoastLevelFilter
             selectedRoastLevels={filters.roastLevels || []}
+            counts={facets?.roastLevels}
+            mode={filters.roastLevelsMode || "any"}
+            onModeChange={(roastLevelsMode) => onFilterChange({ ...filters, roastLevelsMode })}
             onRoastLevelsChange={(roastLevels: string[]) => onFilterChange({ ...filters, roastLevels: roastLevels as any })}
           />
 
           <BrewingMethodsFilter
             selectedBrewingMethods={filters.brewingMethods || []}
+            counts={facets?.brewingMethods}
+            mode={filters.brewingMethodsMode || "any"}
+            onModeChange={(brewingMethodsMode) => onFilterChange({ ...filters, brewingMethodsMode })}
             onBrewingMethodsChange={(brewingMethods: string[]) => onFilterChange({ ...filters, brewingMethods: brewingMethods as any })}
           />
 
           <RatingFilter
             minRating={filters.minRating}
+            counts={facets?.ratings}
             onMinRatingChange={(minRating: number | null) => onFilterChange({ ...filters, minRating: minRating || undefined })}
           />
 
+          <SubScoreFilters
+            filters={filters}
+            onFilterChange={onFilterChange}
+          />
+
           <CoffeeBeansFilter
             sellsCoffeeBeans={filters.sellsCoffeeBeans}
             onSellsCoffeeBeansChange={(sellsCoffeeBeans) => onFilterChange({ ...filters, sellsCoffeeBeans })}
           />
+
+          <AmenityFilters
+            filters={filters}
+            onFilterChange={onFilterChange}
+          />
         </div>
       </div>
     </aside>
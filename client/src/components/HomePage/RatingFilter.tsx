@@ -4,10 +4,11 @@ import { Star } from "lucide-react";
 
 interface RatingFilterProps {
   minRating: number | undefined;
+  counts?: Record<number, number>;
   onMinRatingChange: (rating: number | null) => void;
 }
 
-export function RatingFilter({ minRating, onMinRatingChange }: RatingFilterProps) {
+export function RatingFilter({ minRating, counts, onMinRatingChange }: RatingFilterProps) {
   const ratings = [5, 4, 3, 2, 1];
 
   return (
@@ -23,19 +24,28 @@ export function RatingFilter({ minRating, onMinRatingChange }: RatingFilterProps
             Any rating
           </Label>
         </div>
-        {ratings.map((rating) => (
-          <div key={rating} className="flex items-center space-x-2">
-            <RadioGroupItem value={rating.toString()} id={`rating-${rating}`} />
-            <Label htmlFor={`rating-${rating}`} className="text-sm font-normal cursor-pointer flex items-center space-x-1">
-              <div className="flex items-center">
-                {Array.from({ length: rating }).map((_, i) => (
-                  <Star key={i} className="h-3 w-3 fill-primary text-primary" />
-                ))}
-                <span className="ml-1">& up</span>
-              </div>
-            </Label>
-          </div>
-        ))}
+        {ratings.map((rating) => {
+          const disabled = counts?.[rating] === 0 && minRating !== rating;
+          return (
+            <div key={rating} className="flex items-center space-x-2">
+              <RadioGroupItem value={rating.toString()} id={`rating-${rating}`} disabled={disabled} />
+              <Label
+                htmlFor={`rating-${rating}`}
+                className={`text-sm font-normal flex items-center space-x-1 ${disabled ? "text-gray-400" : "cursor-pointer"}`}
+              >
+                <div className="flex items-center">
+                  {Array.from({ length: rating }).map((_, i) => (
+                    <Star key={i} className={`h-3 w-3 ${disabled ? "fill-gray-300 text-gray-300" : "fill-primary text-primary"}`} />
+                  ))}
+                  <span className="ml-1">& up</span>
+                </div>
+              </Label>
+              {counts && (
+                <span className="ml-auto text-xs text-gray-500">{counts[rating] ?? 0}</span>
+              )}
+            </div>
+          );
+        })}
       </RadioGroup>
     </div>
   );
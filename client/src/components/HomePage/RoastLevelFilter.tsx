@@ -1,4 +1,6 @@
+import { FilterMatchMode } from "@shared/schema";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 
 const roastLevels = [
   "light",
@@ -11,10 +13,13 @@ const roastLevels = [
 
 interface RoastLevelFilterProps {
   selectedRoastLevels: string[];
+  counts?: Record<string, number>;
+  mode: FilterMatchMode;
+  onModeChange: (mode: FilterMatchMode) => void;
   onRoastLevelsChange: (roastLevels: string[]) => void;
 }
 
-export function RoastLevelFilter({ selectedRoastLevels, onRoastLevelsChange }: RoastLevelFilterProps) {
+export function RoastLevelFilter({ selectedRoastLevels, counts, mode, onModeChange, onRoastLevelsChange }: RoastLevelFilterProps) {
   const handleRoastLevelToggle = (roastLevel: string) => {
     const newRoastLevels = selectedRoastLevels.includes(roastLevel)
       ? selectedRoastLevels.filter(r => r !== roastLevel)
@@ -30,23 +35,43 @@ export function RoastLevelFilter({ selectedRoastLevels, onRoastLevelsChange }: R
 
   return (
     <div className="space-y-3">
-      <h3 className="font-medium text-sm text-gray-900">Roast Level</h3>
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm text-gray-900">Roast Level</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as FilterMatchMode)}
+          aria-label="Match any or all selected"
+        >
+          <ToggleGroupItem value="any" className="h-6 px-2 text-xs">Any</ToggleGroupItem>
+          <ToggleGroupItem value="all" className="h-6 px-2 text-xs">All</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
       <div className="space-y-2">
-        {roastLevels.map((roastLevel) => (
-          <div key={roastLevel} className="flex items-center space-x-2">
-            <Checkbox
-              id={roastLevel}
-              checked={selectedRoastLevels.includes(roastLevel)}
-              onCheckedChange={() => handleRoastLevelToggle(roastLevel)}
-            />
-            <label
-              htmlFor={roastLevel}
-              className="text-sm font-normal cursor-pointer"
-            >
-              {formatRoastLevel(roastLevel)}
-            </label>
-          </div>
-        ))}
+        {roastLevels.map((roastLevel) => {
+          const selected = selectedRoastLevels.includes(roastLevel);
+          const disabled = counts?.[roastLevel] === 0 && !selected;
+          return (
+            <div key={roastLevel} className="flex items-center space-x-2">
+              <Checkbox
+                id={roastLevel}
+                checked={selected}
+                disabled={disabled}
+                onCheckedChange={() => handleRoastLevelToggle(roastLevel)}
+              />
+              <label
+                htmlFor={roastLevel}
+                className={`text-sm font-normal ${disabled ? "text-gray-400" : "cursor-pointer"}`}
+              >
+                {formatRoastLevel(roastLevel)}
+              </label>
+              {counts && (
+                <span className="ml-auto text-xs text-gray-500">{counts[roastLevel] ?? 0}</span>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import { CafeFilter, ratingSubScoreKeys, subScoreFilterKeys } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatSubScore } from "@/lib/utils";
+
+interface SubScoreFiltersProps {
+  filters: CafeFilter;
+  onFilterChange: (newFilters: CafeFilter) => void;
+}
+
+const minimumOptions = [3, 3.5, 4, 4.5];
+
+export default function SubScoreFilters({
+  filters,
+  onFilterChange
+}: SubScoreFiltersProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm text-gray-900">Scores</h3>
+      <div className="space-y-2">
+        {ratingSubScoreKeys.map((subScore) => {
+          const filterKey = subScoreFilterKeys[subScore];
+          return (
+            <div key={subScore} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{formatSubScore(subScore)}</span>
+              <Select
+                value={filters[filterKey]?.toString() || "any"}
+                onValueChange={(value) =>
+                  onFilterChange({
+                    ...filters,
+                    [filterKey]: value === "any" ? undefined : parseFloat(value),
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 w-24 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {minimumOptions.map((minimum) => (
+                    <SelectItem key={minimum} value={minimum.toString()}>
+                      {minimum}+
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import { BulkImportReport } from "@shared/schema";
+import { apiUpload, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+const exampleColumns = "externalId, name, description, address, area, latitude, longitude, priceLevel, website, roastLevels, brewingMethods";
+
+export default function BulkCafeImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [upsert, setUpsert] = useState(false);
+  const [report, setReport] = useState<BulkImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("upsert", String(upsert));
+      formData.append("file", file);
+      const response = await apiUpload("/api/admin/imports/bulk", formData);
+      return await response.json() as BulkImportReport;
+    },
+    onMutate: () => setReport(null),
+    onSuccess: (result) => {
+      setReport(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cafes"] });
+      toast({
+        title: "Bulk import finished",
+        description: `Created ${result.created} and updated ${result.updated} cafes; ${result.errors.length} rows were skipped.`,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Bulk import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    event.target.value = "";
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Bulk Import
+        </CardTitle>
+        <CardDescription>
+          Add cafés from a spreadsheet saved as CSV, or a JSON array. Every row is checked first; valid rows are saved
+          together as drafts and invalid ones are listed below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Columns: <code>{exampleColumns}</code>, plus any other café field. Separate several roast levels or brewing
+          methods with semicolons, e.g. <code>light; medium</code>.
+        </p>
+        <div className="flex items-center gap-2">
+          <Checkbox id="upsert" checked={upsert} onCheckedChange={(checked) => setUpsert(checked === true)} />
+          <Label htmlFor="upsert">Update cafés already imported with the same externalId</Label>
+        </div>
+
+        {report && (
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span>Rows in file:</span>
+              <span className="font-medium">{report.total}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Created:</span>
+              <span className="font-medium">{report.created}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Updated:</span>
+              <span className="font-medium">{report.updated}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Skipped:</span>
+              <span className="font-medium">{report.errors.length}</span>
+            </div>
+            {report.errors.length > 0 && (
+              <ul className="mt-2 max-h-60 space-y-1 overflow-y-auto rounded-md bg-muted p-2 text-sm">
+                {report.errors.map((rowError) => (
+                  <li key={rowError.row}>
+                    <span className="font-medium">Row {rowError.row}:</span> {rowError.errors.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+          {importMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : "Choose File"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,.json,application/json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CafeHours, CafeHoursException } from "@shared/schema";
+import { WEEKDAY_NAMES } from "@shared/opening-hours";
+
+// Display the week starting on Monday
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface HoursRow {
+  dayOfWeek: number;
+  opensAt: string;
+  closesAt: string;
+}
+
+interface ExceptionRow {
+  date: string;
+  isClosed: boolean;
+  opensAt: string;
+  closesAt: string;
+  note: string;
+}
+
+interface CafeHoursEditorProps {
+  cafeId: number;
+  hours: CafeHours[];
+  exceptions: CafeHoursException[];
+  // Owner edits are submitted as a change proposal instead of saved directly
+  mode?: "admin" | "owner";
+}
+
+export default function CafeHoursEditor({ cafeId, hours, exceptions, mode = "admin" }: CafeHoursEditorProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [hoursRows, setHoursRows] = useState<HoursRow[]>([]);
+  const [exceptionRows, setExceptionRows] = useState<ExceptionRow[]>([]);
+
+  // Reset the editor whenever fresh data arrives from the server
+  useEffect(() => {
+    setHoursRows(hours.map(({ dayOfWeek, opensAt, closesAt }) => ({ dayOfWeek, opensAt, closesAt })));
+    setExceptionRows(exceptions.map((exception) => ({
+      date: exception.date,
+      isClosed: exception.isClosed,
+      opensAt: exception.opensAt || "",
+      closesAt: exception.closesAt || "",
+      note: exception.note || "",
+    })));
+  }, [hours, exceptions]);
+
+  const updateHoursRow = (index: number, changes: Partial<HoursRow>) => {
+    setHoursRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateExceptionRow = (index: number, changes: Partial<ExceptionRow>) => {
+    setExceptionRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const schedule = {
+        hours: hoursRows,
+        exceptions: exceptionRows.map((row) => ({
+          date: row.date,
+          isClosed: row.isClosed,
+          opensAt: row.isClosed ? null : row.opensAt,
+          closesAt: row.isClosed ? null : row.closesAt,
+          note: row.note || null,
+        })),
+      };
+
+      if (mode === "owner") {
+        await apiRequest("POST", `/api/owner/cafes/${cafeId}/proposals`, { schedule });
+        queryClient.invalidateQueries({ queryKey: [`/api/owner/cafes/${cafeId}/proposals`] });
+
+        toast({
+          title: "Hours submitted",
+          description: "An admin will review the new hours before they appear on the listing.",
+        });
+        return;
+      }
+
+      await apiRequest("PUT", `/api/admin/cafes/${cafeId}/hours`, schedule);
+
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/cafes/${cafeId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}`] });
+
+      toast({
+        title: "Hours updated",
+        description: "The opening hours have been saved.",
+      });
+    } catch (error: any) {
+      console.error("Error updating hours:", error);
+      toast({
+        title: "Update failed",
+        description: error?.message || "There was an error saving the opening hours.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Hours</CardTitle>
+          <CardDescription>
+            Times are Boston local time. A closing time at or before the opening time runs past midnight.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {WEEKDAY_ORDER.map((dayOfWeek) => (
+            <div key={dayOfWeek} className="flex flex-col md:flex-row md:items-start gap-2 border-b pb-3">
+              <Label className="w-28 pt-2">{WEEKDAY_NAMES[dayOfWeek]}</Label>
+              <div className="flex-1 space-y-2">
+                {hoursRows.every((row) => row.dayOfWeek !== dayOfWeek) && (
+                  <p className="text-sm text-gray-500 pt-2">Closed</p>
+                )}
+                {hoursRows.map((row, index) => row.dayOfWeek === dayOfWeek && (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={row.opensAt}
+                      onChange={(e) => updateHoursRow(index, { opensAt: e.target.value })}
+                      className="w-32"
+                    />
+                    <span>to</span>
+                    <Input
+                      type="time"
+                      value={row.closesAt}
+                      onChange={(e) => updateHoursRow(index, { closesAt: e.target.value })}
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setHoursRows((rows) => rows.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setHoursRows((rows) => [...rows, { dayOfWeek, opensAt: "07:00", closesAt: "18:00" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add interval
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Special Hours</CardTitle>
+          <CardDescription>
+            Holidays and one-off closures override the weekly hours for that date
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {exceptionRows.length === 0 && (
+            <p className="text-sm text-gray-500">No special hours</p>
+          )}
+          {exceptionRows.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 border-b pb-3">
+              <Input
+                type="date"
+                value={row.date}
+                onChange={(e) => updateExceptionRow(index, { date: e.target.value })}
+                className="w-40"
+              />
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`exception-closed-${index}`}
+                  checked={row.isClosed}
+                  onCheckedChange={(checked) => updateExceptionRow(index, { isClosed: checked === true })}
+                />
+                <Label htmlFor={`exception-closed-${index}`}>Closed</Label>
+              </div>
+              {!row.isClosed && (
+                <>
+                  <Input
+                    type="time"
+                    value={row.opensAt}
+                    onChange={(e) => updateExceptionRow(index, { opensAt: e.target.value })}
+                    className="w-32"
+                  />
+                  <span>to</span>
+                  <Input
+                    type="time"
+                    value={row.closesAt}
+                    onChange={(e) => updateExceptionRow(index, { closesAt: e.target.value })}
+                    className="w-32"
+                  />
+                </>
+              )}
+              <Input
+                placeholder="Note (e.g. Thanksgiving)"
+                value={row.note}
+                onChange={(e) => updateExceptionRow(index, { note: e.target.value })}
+                className="flex-1 min-w-[160px]"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setExceptionRows((rows) => rows.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setExceptionRows((rows) => [
+              ...rows,
+              { date: "", isClosed: true, opensAt: "", closesAt: "", note: "" },
+            ])}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add special hours
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              {mode === "owner" ? "Submit Hours for Review" : "Save Hours"}
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
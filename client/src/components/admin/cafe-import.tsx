@@ -0,0 +1,525 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Database, FileUp, Loader2, MapPin, Trash2, Undo2 } from "lucide-react";
+import {
+  CafeImportReport,
+  ImportBatch,
+  ImportBatchSummary,
+  ImportBatchWithCandidates,
+  ImportDuplicate,
+  ImportRowError,
+  MAX_CAFE_PHOTOS,
+} from "@shared/schema";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import PlacesAutocomplete from "@/components/places-autocomplete";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const duplicateLabels: Record<ImportDuplicate["reason"], string> = {
+  same_place: "Same Google place",
+  same_name_nearby: "Similar name nearby",
+  same_location: "Same location",
+};
+
+// Error responses reach us as the JSON body in the error message
+function parseRowErrors(message: string): ImportRowError[] {
+  try {
+    return JSON.parse(message).rows || [];
+  } catch {
+    return [];
+  }
+}
+
+export default function CafeImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [location, setLocation] = useState("Boston, MA");
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [photosPerCafe, setPhotosPerCafe] = useState(3);
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [report, setReport] = useState<CafeImportReport | null>(null);
+
+  const { data: batches = [] } = useQuery<ImportBatchSummary[]>({
+    queryKey: ["/api/admin/imports"],
+  });
+
+  const batchUrl = `/api/admin/imports/${batchId}`;
+  const { data: batch, isLoading: isBatchLoading } = useQuery<ImportBatchWithCandidates>({
+    queryKey: [batchUrl],
+    enabled: batchId !== null,
+  });
+
+  // Start with every pending candidate ticked except likely duplicates
+  useEffect(() => {
+    if (!batch) return;
+    setSelected(new Set(
+      batch.candidates
+        .filter((candidate) => candidate.status === "pending" && !candidate.duplicate)
+        .map((candidate) => candidate.id),
+    ));
+  }, [batch]);
+
+  const refreshImports = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/imports"] });
+    queryClient.invalidateQueries({ queryKey: [batchUrl] });
+  };
+
+  const openBatch = (staged: ImportBatch) => {
+    setBatchId(staged.id);
+    setReport(null);
+    refreshImports();
+  };
+
+  const fetchPlacesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/imports/places", { location });
+      return await response.json() as ImportBatch;
+    },
+    onSuccess: openBatch,
+    onError: (error: Error) => {
+      toast({
+        title: "Fetching cafes failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadFileMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiUpload("/api/admin/imports/file", formData);
+      return await response.json() as ImportBatch;
+    },
+    onMutate: () => setRowErrors([]),
+    onSuccess: openBatch,
+    onError: (error: Error) => {
+      const errors = parseRowErrors(error.message);
+      setRowErrors(errors);
+      toast({
+        title: "Upload failed",
+        description: errors.length > 0
+          ? `${errors.length} row${errors.length === 1 ? "" : "s"} of the file could not be read.`
+          : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${batchUrl}/commit`, {
+        candidateIds: Array.from(selected),
+        photosPerCafe,
+      });
+      return await response.json() as CafeImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      refreshImports();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cafes"] });
+      toast({
+        title: "Import committed",
+        description: `Created ${result.created}, skipped ${result.skipped} and failed ${result.failed} of ${result.total} cafes`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${batchUrl}/rollback`);
+      return await response.json() as { deleted: number; kept: number };
+    },
+    onSuccess: (result) => {
+      setReport(null);
+      refreshImports();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cafes"] });
+      toast({
+        title: "Import rolled back",
+        description: result.kept > 0
+          ? `Deleted ${result.deleted} draft cafes; kept ${result.kept} that have been published or archived.`
+          : `Deleted ${result.deleted} draft cafes.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollback failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/imports/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      if (id === batchId) {
+        setBatchId(null);
+        setReport(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/imports"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Discarding import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    event.target.value = "";
+    if (file) {
+      uploadFileMutation.mutate(file);
+    }
+  };
+
+  const toggleCandidate = (id: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const pendingCandidates = batch?.candidates.filter((candidate) => candidate.status === "pending") || [];
+  const hasGooglePhotos = pendingCandidates.some((candidate) => candidate.data.googlePhotos.length > 0);
+  const hasAccepted = batch?.candidates.some((candidate) => candidate.status === "accepted") || false;
+  const isFetching = fetchPlacesMutation.isPending || uploadFileMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Import Cafes
+            </CardTitle>
+            <CardDescription>
+              Fetch specialty coffee shops from Google Places, or upload a CSV or JSON file of cafes. Nothing is
+              added until you review the candidates and commit them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <div className="flex gap-2">
+                <MapPin className="h-5 w-5 text-muted-foreground" />
+                <PlacesAutocomplete
+                  id="location"
+                  value={location}
+                  onChange={setLocation}
+                  placeholder="City, State or Zipcode"
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">Enter a location to search for specialty coffee shops.</p>
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isFetching}
+            >
+              {uploadFileMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileUp className="mr-2 h-4 w-4" />
+              )}
+              Upload File
+            </Button>
+            <Button onClick={() => fetchPlacesMutation.mutate()} disabled={isFetching || !location.trim()}>
+              {fetchPlacesMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Fetching...
+                </>
+              ) : "Fetch Candidates"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Imports</CardTitle>
+            <CardDescription>Open an import to review, commit or roll it back.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {batches.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No imports yet.</p>
+            ) : (
+              <div className="max-h-72 space-y-2 overflow-y-auto">
+                {batches.map((summary) => (
+                  <div
+                    key={summary.id}
+                    className={`flex items-center justify-between gap-2 rounded-md border p-2 ${summary.id === batchId ? "bg-muted" : ""}`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setBatchId(summary.id);
+                        setReport(null);
+                      }}
+                      className="flex-1 text-left"
+                    >
+                      <p className="font-medium">{summary.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {summary.source === "google_places" ? "Google Places" : "File"} ·{" "}
+                        {new Date(summary.createdAt).toLocaleString()} · {summary.counts.pending} pending,{" "}
+                        {summary.counts.accepted} accepted, {summary.counts.rejected} rejected
+                      </p>
+                    </button>
+                    <Badge variant={summary.committedAt ? "default" : "outline"}>
+                      {summary.committedAt ? "Committed" : "Staged"}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (window.confirm(`Discard the import "${summary.label}"? Cafes it created are kept.`)) {
+                          discardMutation.mutate(summary.id);
+                        }
+                      }}
+                      disabled={discardMutation.isPending}
+                      aria-label="Discard import"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {rowErrors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>The file was not imported</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-sm">
+              {rowErrors.map((rowError) => (
+                <li key={rowError.row}>
+                  Row {rowError.row}: {rowError.errors.join("; ")}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {batchId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{batch ? `Review: ${batch.label}` : "Review"}</CardTitle>
+            <CardDescription>
+              Tick the cafes to add. Imported cafes are drafts with no roast levels or brewing methods; fill those in
+              before publishing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isBatchLoading || !batch ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : batch.candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This import found no cafes.</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Cafe</TableHead>
+                      <TableHead>Area</TableHead>
+                      <TableHead>Possible duplicate</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batch.candidates.map((candidate) => (
+                      <TableRow key={candidate.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(candidate.id)}
+                            onCheckedChange={(checked) => toggleCandidate(candidate.id, checked === true)}
+                            disabled={candidate.status !== "pending" || !!batch.committedAt}
+                            aria-label={`Import ${candidate.data.name}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {candidate.cafeId ? (
+                            <Link href={`/admin/cafes/${candidate.cafeId}`} className="font-medium hover:underline">
+                              {candidate.data.name}
+                            </Link>
+                          ) : (
+                            <span className="font-medium">{candidate.data.name}</span>
+                          )}
+                          <p className="text-xs text-muted-foreground">{candidate.data.address}</p>
+                        </TableCell>
+                        <TableCell>{candidate.data.area}</TableCell>
+                        <TableCell>
+                          {candidate.duplicate ? (
+                            <div>
+                              <Badge variant="destructive">{duplicateLabels[candidate.duplicate.reason]}</Badge>
+                              <p className="mt-1 text-xs">
+                                <Link href={`/admin/cafes/${candidate.duplicate.cafeId}`} className="hover:underline">
+                                  {candidate.duplicate.name}
+                                </Link>
+                                {candidate.duplicate.distanceMeters !== null && ` · ${candidate.duplicate.distanceMeters} m away`}
+                              </p>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">None</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={candidate.status === "accepted" ? "default" : candidate.status === "rejected" ? "secondary" : "outline"}
+                            className="capitalize"
+                          >
+                            {candidate.status}
+                          </Badge>
+                          {candidate.error && <p className="mt-1 text-xs text-muted-foreground">{candidate.error}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+          {batch && (
+            <CardFooter className="flex flex-wrap items-end justify-between gap-4">
+              {batch.committedAt ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Committed {new Date(batch.committedAt).toLocaleString()}
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (window.confirm("Delete the cafes this import created that are still drafts?")) {
+                        rollbackMutation.mutate();
+                      }
+                    }}
+                    disabled={!hasAccepted || rollbackMutation.isPending}
+                  >
+                    {rollbackMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="mr-2 h-4 w-4" />
+                    )}
+                    Roll Back
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {hasGooglePhotos ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="photosPerCafe">Photos per cafe</Label>
+                      <Input
+                        id="photosPerCafe"
+                        type="number"
+                        min={0}
+                        max={MAX_CAFE_PHOTOS}
+                        value={photosPerCafe}
+                        onChange={(e) => setPhotosPerCafe(Number(e.target.value))}
+                        className="w-24"
+                      />
+                      <p className="text-sm text-muted-foreground">Google photos to copy into each cafe's gallery; the first becomes the cover.</p>
+                    </div>
+                  ) : <div />}
+                  <Button
+                    onClick={() => commitMutation.mutate()}
+                    disabled={commitMutation.isPending}
+                  >
+                    {commitMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Importing...
+                      </>
+                    ) : `Import ${selected.size} of ${pendingCandidates.length} Cafes`}
+                  </Button>
+                </>
+              )}
+            </CardFooter>
+          )}
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <span>Cafes selected:</span>
+                <span className="font-medium">{report.total}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Created:</span>
+                <span className="font-medium">{report.created}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Skipped (already imported):</span>
+                <span className="font-medium">{report.skipped}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Failed:</span>
+                <span className="font-medium">{report.failed}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Photos imported:</span>
+                <span className="font-medium">{report.photos}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
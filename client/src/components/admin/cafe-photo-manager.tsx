@@ -0,0 +1,269 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GripVertical, ImagePlus, Loader2, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
+import { CafePhoto, MAX_CAFE_PHOTOS } from "@shared/schema";
+
+interface CafePhotoManagerProps {
+  cafeId: number;
+}
+
+// Caption and attribution as typed, saved when the field loses focus
+type PhotoText = Pick<CafePhoto, "caption" | "attribution">;
+
+export default function CafePhotoManager({ cafeId }: CafePhotoManagerProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [order, setOrder] = useState<CafePhoto[]>([]);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [texts, setTexts] = useState<Record<number, PhotoText>>({});
+
+  const photosUrl = `/api/cafes/${cafeId}/photos`;
+  const { data: photos, isLoading } = useQuery<CafePhoto[]>({
+    queryKey: [photosUrl],
+  });
+
+  // Reset the local order and text whenever fresh data arrives
+  useEffect(() => {
+    if (!photos) return;
+    setOrder(photos);
+    setTexts(Object.fromEntries(
+      photos.map((photo) => [photo.id, { caption: photo.caption, attribution: photo.attribution }]),
+    ));
+  }, [photos]);
+
+  const refreshPhotos = () => {
+    queryClient.invalidateQueries({ queryKey: [photosUrl] });
+    // Cards and the cafe page show the cover photo
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/cafes/${cafeId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cafes", cafeId] });
+  };
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("photos", file));
+      await apiUpload(`/api/admin/cafes/${cafeId}/photos`, formData);
+    },
+    onSuccess: () => {
+      refreshPhotos();
+      toast({
+        title: "Photos uploaded",
+        description: "The photos have been added to the gallery.",
+      });
+    },
+    onError: showError("upload photos"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, text }: { id: number; text: PhotoText }) => {
+      await apiRequest("PATCH", `/api/admin/cafes/${cafeId}/photos/${id}`, text);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [photosUrl] }),
+    onError: showError("update photo"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (photoIds: number[]) => {
+      await apiRequest("PUT", `/api/admin/cafes/${cafeId}/photos/order`, { photoIds });
+    },
+    onSuccess: refreshPhotos,
+    onError: (error: Error) => {
+      // Put the server's order back
+      if (photos) setOrder(photos);
+      showError("reorder photos")(error);
+    },
+  });
+
+  const coverMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      await apiRequest("PUT", `/api/admin/cafes/${cafeId}/photos/${photoId}/cover`);
+    },
+    onSuccess: refreshPhotos,
+    onError: showError("set cover photo"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      await apiRequest("DELETE", `/api/admin/cafes/${cafeId}/photos/${photoId}`);
+    },
+    onSuccess: refreshPhotos,
+    onError: showError("delete photo"),
+  });
+
+  const remaining = MAX_CAFE_PHOTOS - order.length;
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Reset so picking the same file again still fires onChange
+    event.target.value = "";
+    if (files.length === 0) return;
+    if (files.length > remaining) {
+      toast({
+        title: "Too many photos",
+        description: `You can add ${remaining} more photo${remaining === 1 ? "" : "s"} to this cafe.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(files);
+  };
+
+  // Move the dragged photo into the slot of the one it is dragged over
+  const handleDragOver = (event: React.DragEvent, targetId: number) => {
+    event.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+
+    setOrder((current) => {
+      const from = current.findIndex((photo) => photo.id === draggedId);
+      const to = current.findIndex((photo) => photo.id === targetId);
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    const photoIds = order.map((photo) => photo.id);
+    const unchanged = photos?.every((photo, index) => photo.id === photoIds[index]);
+    if (!unchanged) {
+      reorderMutation.mutate(photoIds);
+    }
+  };
+
+  const handleTextChange = (id: number, field: keyof PhotoText, value: string) => {
+    setTexts((current) => ({ ...current, [id]: { ...current[id], [field]: value } }));
+  };
+
+  const handleTextBlur = (photo: CafePhoto) => {
+    const text = texts[photo.id];
+    if (text && (text.caption !== photo.caption || text.attribution !== photo.attribution)) {
+      updateMutation.mutate({ id: photo.id, text });
+    }
+  };
+
+  // Enter would otherwise submit the surrounding cafe form
+  const blurOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Photos</CardTitle>
+        <CardDescription>
+          Drag photos to reorder the gallery. The cover photo is shown on café cards and at the top of the café page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : order.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No photos yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {order.map((photo) => (
+              <li
+                key={photo.id}
+                draggable
+                onDragStart={() => setDraggedId(photo.id)}
+                onDragOver={(event) => handleDragOver(event, photo.id)}
+                onDragEnd={handleDragEnd}
+                className={`flex items-center gap-3 rounded-md border bg-white p-2 ${draggedId === photo.id ? "opacity-50" : ""}`}
+              >
+                <GripVertical className="h-5 w-5 shrink-0 cursor-grab text-muted-foreground" />
+                <img src={photo.thumbnailUrl} alt={photo.caption || "Cafe photo"} className="h-16 w-16 shrink-0 rounded object-cover" />
+                <div className="grid flex-1 gap-2 sm:grid-cols-2">
+                  <Input
+                    placeholder="Caption"
+                    value={texts[photo.id]?.caption ?? ""}
+                    onChange={(e) => handleTextChange(photo.id, "caption", e.target.value)}
+                    onBlur={() => handleTextBlur(photo)}
+                    onKeyDown={blurOnEnter}
+                  />
+                  <Input
+                    placeholder="Attribution, e.g. Photo: Jane Doe"
+                    value={texts[photo.id]?.attribution ?? ""}
+                    onChange={(e) => handleTextChange(photo.id, "attribution", e.target.value)}
+                    onBlur={() => handleTextBlur(photo)}
+                    onKeyDown={blurOnEnter}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant={photo.isCover ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => coverMutation.mutate(photo.id)}
+                  disabled={photo.isCover || coverMutation.isPending}
+                >
+                  <Star className={`mr-1 h-4 w-4 ${photo.isCover ? "fill-current" : ""}`} />
+                  {photo.isCover ? "Cover" : "Set cover"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (window.confirm("Delete this photo?")) {
+                      deleteMutation.mutate(photo.id);
+                    }
+                  }}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete photo"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={remaining <= 0 || uploadMutation.isPending}
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ImagePlus className="mr-2 h-4 w-4" />
+            )}
+            Upload photos
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {order.length}/{MAX_CAFE_PHOTOS} photos
+          </span>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
+      </CardContent>
+    </Card>
+  );
+}
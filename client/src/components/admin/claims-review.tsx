@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BadgeCheck,
+  Check,
+  Loader2,
+  Mail,
+  Phone,
+  RefreshCw,
+  Store,
+  X,
+} from "lucide-react";
+import { CafeClaimWithDetails, claimStatusEnum } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ClaimStatus = typeof claimStatusEnum.enumValues[number];
+
+export default function ClaimsReview() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ClaimStatus | "all">("pending");
+
+  const claimsUrl = status === "all" ? "/api/admin/claims" : `/api/admin/claims?status=${status}`;
+
+  const {
+    data: claims,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<CafeClaimWithDetails[]>({
+    queryKey: [claimsUrl],
+    refetchOnWindowFocus: false,
+  });
+
+  const reviewClaimMutation = useMutation({
+    mutationFn: async ({ claimId, action, note }: { claimId: number; action: "approve" | "deny"; note?: string }) => {
+      const response = await apiRequest("POST", `/api/admin/claims/${claimId}/${action}`, { note });
+      return await response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === "approve" ? "Claim approved" : "Claim denied",
+        description: action === "approve"
+          ? "The claimant can now manage this café."
+          : "The claimant has been turned down.",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/claims"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to review claim",
+        description: error.message || "An error occurred while reviewing the claim",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDeny = (claim: CafeClaimWithDetails) => {
+    const note = window.prompt(`Reason for denying ${claim.claimant.name}'s claim on ${claim.cafe.name} (optional):`);
+    // Cancelling the prompt aborts the denial
+    if (note === null) return;
+    reviewClaimMutation.mutate({ claimId: claim.id, action: "deny", note: note || undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Ownership Claims</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as ClaimStatus | "all")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="denied">Denied</SelectItem>
+              <SelectItem value="all">All claims</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Café Owner Claims</CardTitle>
+          <CardDescription>
+            For phone claims, call the number on the listing and read out the code; approve once the claimant has entered it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>
+                Failed to load claims: {(error as Error).message}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Café</TableHead>
+                    <TableHead>Claimant</TableHead>
+                    <TableHead>Evidence</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {claims && claims.length > 0 ? (
+                    claims.map((claim) => (
+                      <TableRow key={claim.id}>
+                        <TableCell>
+                          <div className="font-medium">{claim.cafe.name}</div>
+                          {claim.cafe.website && (
+                            <div className="text-sm text-muted-foreground">{claim.cafe.website}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{claim.claimant.name}</div>
+                          <div className="text-sm text-muted-foreground">{claim.claimant.email}</div>
+                          {claim.message && (
+                            <div className="text-sm mt-1 italic">"{claim.message}"</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {claim.verificationMethod === "business_email" ? (
+                            <div className="flex items-center gap-1 text-sm">
+                              <Mail className="h-4 w-4" />
+                              {claim.businessEmail}
+                            </div>
+                          ) : (
+                            <div className="space-y-1 text-sm">
+                              <div className="flex items-center gap-1">
+                                <Phone className="h-4 w-4" />
+                                {claim.cafe.phone}
+                              </div>
+                              <div>Code: <span className="font-mono font-semibold">{claim.verificationCode}</span></div>
+                            </div>
+                          )}
+                          {claim.verifiedAt ? (
+                            <div className="flex items-center gap-1 text-sm text-green-700 mt-1">
+                              <BadgeCheck className="h-4 w-4" />
+                              Code confirmed
+                            </div>
+                          ) : (
+                            <div className="text-sm text-muted-foreground mt-1">Awaiting code</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={claim.status === "approved" ? "default" : claim.status === "denied" ? "destructive" : "outline"}>
+                            {claim.status}
+                          </Badge>
+                          <div className="text-sm text-muted-foreground mt-1">
+                            {new Date(claim.createdAt).toLocaleDateString()}
+                          </div>
+                          {claim.reviewNote && (
+                            <div className="text-sm mt-1">{claim.reviewNote}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {claim.status === "pending" && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => reviewClaimMutation.mutate({ claimId: claim.id, action: "approve" })}
+                                disabled={!claim.verifiedAt || reviewClaimMutation.isPending}
+                                title={claim.verifiedAt ? "Approve claim" : "The claimant has not entered the code yet"}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Approve
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDeny(claim)}
+                                disabled={reviewClaimMutation.isPending}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Deny
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        No claims to show
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, EyeOff, Loader2, RefreshCw, ShieldAlert, Star, Trash2 } from "lucide-react";
+import { ModerateReview, ModerationQueueItem, ReviewReport, reportStatusEnum } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ReportStatus = typeof reportStatusEnum.enumValues[number];
+
+const reasonLabels: Record<ReviewReport["reason"], string> = {
+  spam: "Spam",
+  offensive: "Offensive",
+  off_topic: "Off-topic",
+  conflict_of_interest: "Conflict of interest",
+};
+
+const actionToasts: Record<ModerateReview["action"], { title: string; description: string }> = {
+  hide: { title: "Review hidden", description: "The review no longer counts towards the café's rating." },
+  restore: { title: "Review restored", description: "The review is public and its reports are closed." },
+  delete: { title: "Review deleted", description: "The review has been permanently removed." },
+};
+
+export default function ModerationQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ReportStatus | "all">("open");
+  // Reviews whose authors should be emailed a warning when acted on
+  const [warnAuthor, setWarnAuthor] = useState<Record<number, boolean>>({});
+
+  const reportsUrl = status === "all" ? "/api/admin/reports" : `/api/admin/reports?status=${status}`;
+
+  const {
+    data: queue,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<ModerationQueueItem[]>({
+    queryKey: [reportsUrl],
+    refetchOnWindowFocus: false,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ reviewId, ...decision }: { reviewId: number } & ModerateReview) => {
+      await apiRequest("POST", `/api/admin/reviews/${reviewId}/moderate`, decision);
+    },
+    onSuccess: (_data, { action }) => {
+      toast(actionToasts[action]);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/reports"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/cafes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to moderate review",
+        description: error.message || "An error occurred while moderating the review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAction = (item: ModerationQueueItem, action: ModerateReview["action"]) => {
+    if (action === "delete" && !window.confirm(`Permanently delete ${item.review.author.name}'s review of ${item.review.cafe.name}?`)) {
+      return;
+    }
+
+    const warn = action !== "restore" && !!warnAuthor[item.review.id];
+    let note: string | undefined;
+    if (warn) {
+      const input = window.prompt(`Note to include in the warning to ${item.review.author.name} (optional):`);
+      // Cancelling the prompt aborts the action
+      if (input === null) return;
+      note = input || undefined;
+    }
+
+    moderateMutation.mutate({ reviewId: item.review.id, action, warnAuthor: warn, note });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Review Moderation</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as ReportStatus | "all")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="all">All reports</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            Failed to load reported reviews: {(error as Error).message}
+          </AlertDescription>
+        </Alert>
+      ) : !queue || queue.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No reported reviews to show
+          </CardContent>
+        </Card>
+      ) : (
+        queue.map((item) => (
+          <Card key={item.review.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{item.review.cafe.name}</CardTitle>
+                  <CardDescription>
+                    Review by {item.review.author.name} ({item.review.author.email}) on{" "}
+                    {new Date(item.review.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </div>
+                <Badge variant={item.review.isHidden ? "destructive" : "outline"}>
+                  {item.review.isHidden ? "hidden" : "visible"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <div className="flex items-center mb-1">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <Star
+                      key={star}
+                      className={`h-4 w-4 ${star <= item.review.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+                    />
+                  ))}
+                </div>
+                <p className="whitespace-pre-line">
+                  {item.review.review || <span className="text-muted-foreground italic">No written review</span>}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  {item.reports.length} {item.reports.length === 1 ? "report" : "reports"}
+                </p>
+                {item.reports.map((report) => (
+                  <div key={report.id} className="text-sm border-l-2 pl-3">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{reasonLabels[report.reason]}</Badge>
+                      <span className="text-muted-foreground">
+                        {report.reporter.name} · {new Date(report.createdAt).toLocaleDateString()}
+                        {report.resolution && ` · ${report.resolution}`}
+                      </span>
+                    </div>
+                    {report.details && <p className="mt-1 italic">"{report.details}"</p>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`warn-${item.review.id}`}
+                    checked={!!warnAuthor[item.review.id]}
+                    onCheckedChange={(checked) =>
+                      setWarnAuthor((current) => ({ ...current, [item.review.id]: checked === true }))
+                    }
+                  />
+                  <Label htmlFor={`warn-${item.review.id}`} className="font-normal">
+                    Email the author a warning
+                  </Label>
+                </div>
+                <div className="flex gap-2">
+                  {item.review.isHidden ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAction(item, "restore")}
+                      disabled={moderateMutation.isPending}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  ) : (
+                    <>
+                      {item.reports.some((report) => report.status === "open") && (
+                        // Restoring a visible review just closes its reports
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAction(item, "restore")}
+                          disabled={moderateMutation.isPending}
+                        >
+                          Dismiss
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAction(item, "hide")}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <EyeOff className="h-4 w-4 mr-1" />
+                        Hide
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleAction(item, "delete")}
+                    disabled={moderateMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
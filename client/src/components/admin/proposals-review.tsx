@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, FileDiff, Loader2, RefreshCw, X } from "lucide-react";
+import { CafeChangeProposalWithDetails, CafeChangeSet, proposalStatusEnum } from "@shared/schema";
+import { WEEKDAY_NAMES, formatTimeOfDay } from "@shared/opening-hours";
+import { formatBrewingMethod, formatRoastLevel } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ProposalStatus = typeof proposalStatusEnum.enumValues[number];
+
+const fieldLabels: Record<keyof CafeChangeSet, string> = {
+  description: "Description",
+  website: "Website",
+  phone: "Phone",
+  instagramHandle: "Instagram",
+  imageUrl: "Image URL",
+  roastLevels: "Roast levels",
+  brewingMethods: "Brewing methods",
+  schedule: "Hours",
+};
+
+// Render one side of a diff as display lines
+function describeValue(field: keyof CafeChangeSet, changes: CafeChangeSet): string[] {
+  if (field === "roastLevels") {
+    return [changes.roastLevels?.map(formatRoastLevel).join(", ") || "None"];
+  }
+
+  if (field === "brewingMethods") {
+    return [changes.brewingMethods?.map(formatBrewingMethod).join(", ") || "None"];
+  }
+
+  if (field === "schedule") {
+    const schedule = changes.schedule;
+    if (!schedule) return ["None"];
+
+    const lines = schedule.hours.map(
+      (interval) =>
+        `${WEEKDAY_NAMES[interval.dayOfWeek]}: ${formatTimeOfDay(interval.opensAt)} - ${formatTimeOfDay(interval.closesAt)}`,
+    );
+    schedule.exceptions.forEach((exception) => {
+      const times = exception.isClosed || !exception.opensAt || !exception.closesAt
+        ? "Closed"
+        : `${formatTimeOfDay(exception.opensAt)} - ${formatTimeOfDay(exception.closesAt)}`;
+      lines.push(`${exception.date}${exception.note ? ` (${exception.note})` : ""}: ${times}`);
+    });
+    return lines.length > 0 ? lines : ["No hours"];
+  }
+
+  return [changes[field] || "(empty)"];
+}
+
+export default function ProposalsReview() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ProposalStatus | "all">("pending");
+
+  const proposalsUrl = status === "all" ? "/api/admin/proposals" : `/api/admin/proposals?status=${status}`;
+
+  const {
+    data: proposals,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<CafeChangeProposalWithDetails[]>({
+    queryKey: [proposalsUrl],
+    refetchOnWindowFocus: false,
+  });
+
+  const reviewProposalMutation = useMutation({
+    mutationFn: async ({ proposalId, action, note }: { proposalId: number; action: "approve" | "reject"; note?: string }) => {
+      const response = await apiRequest("POST", `/api/admin/proposals/${proposalId}/${action}`, { note });
+      return await response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === "approve" ? "Changes applied" : "Changes rejected",
+        description: action === "approve"
+          ? "The listing has been updated."
+          : "The owner's changes were not applied.",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/proposals"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cafes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to review changes",
+        description: error.message || "An error occurred while reviewing the changes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReject = (proposal: CafeChangeProposalWithDetails) => {
+    const note = window.prompt(`Reason for rejecting the changes to ${proposal.cafe.name} (optional):`);
+    // Cancelling the prompt aborts the rejection
+    if (note === null) return;
+    reviewProposalMutation.mutate({ proposalId: proposal.id, action: "reject", note: note || undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileDiff className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Owner Change Requests</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as ProposalStatus | "all")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All requests</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            Failed to load change requests: {(error as Error).message}
+          </AlertDescription>
+        </Alert>
+      ) : !proposals || proposals.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No change requests to show
+          </CardContent>
+        </Card>
+      ) : (
+        proposals.map((proposal) => (
+          <Card key={proposal.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{proposal.cafe.name}</CardTitle>
+                  <CardDescription>
+                    Proposed by {proposal.proposer.name} ({proposal.proposer.email}) on{" "}
+                    {new Date(proposal.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </div>
+                <Badge variant={proposal.status === "approved" ? "default" : proposal.status === "rejected" ? "destructive" : "outline"}>
+                  {proposal.status}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">Field</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>Proposed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.keys(proposal.changes) as (keyof CafeChangeSet)[]).map((field) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium align-top">{fieldLabels[field]}</TableCell>
+                        <TableCell className="align-top text-muted-foreground line-through whitespace-pre-line">
+                          {describeValue(field, proposal.current).join("\n")}
+                        </TableCell>
+                        <TableCell className="align-top text-green-800 whitespace-pre-line">
+                          {describeValue(field, proposal.changes).join("\n")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {proposal.reviewNote && (
+                <p className="text-sm text-muted-foreground">Review note: {proposal.reviewNote}</p>
+              )}
+
+              {proposal.status === "pending" && (
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReject(proposal)}
+                    disabled={reviewProposalMutation.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => reviewProposalMutation.mutate({ proposalId: proposal.id, action: "approve" })}
+                    disabled={reviewProposalMutation.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve & Apply
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
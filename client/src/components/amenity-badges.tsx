@@ -0,0 +1,43 @@
+import { Accessibility, Bath, PawPrint, Power, Trees, Utensils, Wifi, type LucideIcon } from "lucide-react";
+import { CafeAmenity, CafeWithDetails, cafeAmenityKeys } from "@shared/schema";
+import { formatAmenity } from "@/lib/utils";
+
+export const amenityIcons: Record<CafeAmenity, LucideIcon> = {
+  hasWifi: Wifi,
+  hasPower: Power,
+  hasFood: Utensils,
+  hasOutdoorSeating: Trees,
+  hasRestroom: Bath,
+  isWheelchairAccessible: Accessibility,
+  isPetFriendly: PawPrint,
+};
+
+interface AmenityBadgesProps {
+  cafe: Pick<CafeWithDetails, CafeAmenity>;
+  className?: string;
+}
+
+export default function AmenityBadges({ cafe, className = "" }: AmenityBadgesProps) {
+  const amenities = cafeAmenityKeys.filter((amenity) => cafe[amenity] === true);
+
+  if (amenities.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {amenities.map((amenity) => {
+        const Icon = amenityIcons[amenity];
+        return (
+          <span
+            key={amenity}
+            className="flex items-center bg-[#FAEBD7] text-[#8B4513] text-xs px-2 py-1 rounded-full"
+          >
+            <Icon className="h-3 w-3 mr-1" />
+            {formatAmenity(amenity)}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
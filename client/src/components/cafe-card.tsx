@@ -7,10 +7,12 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Heart, MapPin, Star } from "lucide-react";
 import { formatBrewingMethod, formatDistance, formatRoastLevel } from "@/lib/utils";
+import OpenStatusLabel from "./open-status-label";
+import AmenityBadges from "./amenity-badges";
 
 interface CafeCardProps {
   cafe: CafeWithDetails;
-  distance?: number;  // Distance in kilometers
+  distance?: number;  // Distance in kilometers, defaults to the distance returned by the API
   distanceUnit?: 'mi' | 'km';  // Unit to display distance in
 }
 
@@ -64,7 +66,7 @@ export default function CafeCard({ cafe, distance, distanceUnit = 'mi' }: CafeCa
       <Link href={`/cafe/${cafe.id}`}>
         <div className="relative h-48">
           <img 
-            src={cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=500&q=80"} 
+            src={cafe.coverPhoto?.imageUrl || cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=500&q=80"} 
             alt={cafe.name} 
             className="w-full h-full object-cover"
           />
@@ -104,11 +106,13 @@ export default function CafeCard({ cafe, distance, distanceUnit = 'mi' }: CafeCa
               </span>
             )}
           </div>
-          <div className="text-sm text-gray-500">
+          <AmenityBadges cafe={cafe} className="mb-3" />
+          <div className="text-sm text-gray-500 flex items-center justify-between">
             <span className="flex items-center">
               <MapPin className="h-3.5 w-3.5 mr-1" /> 
-              {formatDistance(distance, distanceUnit)}
+              {formatDistance(distance ?? cafe.distance, distanceUnit)}
             </span>
+            <OpenStatusLabel cafe={cafe} />
           </div>
         </div>
       </Link>
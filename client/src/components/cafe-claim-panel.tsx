@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BadgeCheck, Loader2, Store } from "lucide-react";
+import { CafeWithDetails, PublicCafeClaim } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+
+type VerificationMethod = PublicCafeClaim["verificationMethod"];
+
+interface CafeClaimPanelProps {
+  cafe: Pick<CafeWithDetails, "id" | "name" | "website" | "phone">;
+}
+
+export default function CafeClaimPanel({ cafe }: CafeClaimPanelProps) {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [method, setMethod] = useState<VerificationMethod>(cafe.website ? "business_email" : "phone_callback");
+  const [businessEmail, setBusinessEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [code, setCode] = useState("");
+
+  const claimsUrl = `/api/user/claims?cafeId=${cafe.id}`;
+  const { data: claims, isLoading } = useQuery<PublicCafeClaim[]>({
+    queryKey: [claimsUrl],
+  });
+
+  // Claims come back newest first
+  const latestClaim = claims?.[0];
+
+  const submitClaimMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/cafes/${cafe.id}/claims`, {
+        verificationMethod: method,
+        businessEmail: method === "business_email" ? businessEmail : undefined,
+        message: message || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [claimsUrl] });
+      setIsFormOpen(false);
+      toast({
+        title: "Claim submitted",
+        description: method === "business_email"
+          ? `We've emailed a verification code to ${businessEmail}.`
+          : "We'll call the café's listed phone number with your verification code.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to submit claim: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyClaimMutation = useMutation({
+    mutationFn: async (claimId: number) => {
+      await apiRequest("POST", `/api/claims/${claimId}/verify`, { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [claimsUrl] });
+      setCode("");
+      toast({
+        title: "Code confirmed",
+        description: "An admin will review your claim shortly.",
+      });
+    },
+    onError: (error) => {
+      // Too many wrong codes closes the claim
+      queryClient.invalidateQueries({ queryKey: [claimsUrl] });
+      toast({
+        title: "Error",
+        description: `Failed to verify claim: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return null;
+  }
+
+  const renderStatus = () => {
+    if (latestClaim?.status === "approved") {
+      return (
+        <div className="space-y-3">
+          <p className="flex items-center text-green-700">
+            <BadgeCheck className="h-4 w-4 mr-2" />
+            You manage this café.
+          </p>
+          <Button variant="outline" className="w-full" asChild>
+            <Link href={`/owner/cafes/${cafe.id}`}>Edit listing</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (latestClaim?.status === "pending" && latestClaim.verifiedAt) {
+      return <p className="text-gray-600">Your claim is verified and waiting for an admin to review it.</p>;
+    }
+
+    if (latestClaim?.status === "pending") {
+      return (
+        <div className="space-y-2">
+          <p className="text-gray-600 text-sm">
+            {latestClaim.verificationMethod === "business_email"
+              ? `Enter the code we emailed to ${latestClaim.businessEmail}.`
+              : "Enter the code we read out when we called the café."}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="6-digit code"
+              inputMode="numeric"
+              maxLength={6}
+            />
+            <Button
+              onClick={() => verifyClaimMutation.mutate(latestClaim.id)}
+              disabled={!code.trim() || verifyClaimMutation.isPending}
+              className="bg-[#A0522D] hover:bg-[#8B4513]"
+            >
+              {verifyClaimMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Verify"}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!isFormOpen) {
+      return (
+        <div className="space-y-2">
+          {latestClaim?.status === "denied" && (
+            <p className="text-sm text-gray-600">
+              Your previous claim was not approved{latestClaim.reviewNote ? `: ${latestClaim.reviewNote}` : "."}
+            </p>
+          )}
+          <p className="text-gray-600 text-sm">Own or manage {cafe.name}? Claim the listing to keep it up to date.</p>
+          <Button variant="outline" className="w-full" onClick={() => setIsFormOpen(true)}>
+            Claim this café
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <RadioGroup value={method} onValueChange={(value) => setMethod(value as VerificationMethod)}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="business_email" id="claim-email" disabled={!cafe.website} />
+            <Label htmlFor="claim-email">Business email on the café's website domain</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="phone_callback" id="claim-phone" disabled={!cafe.phone} />
+            <Label htmlFor="claim-phone">Callback to the café's listed phone number</Label>
+          </div>
+        </RadioGroup>
+
+        {method === "business_email" && (
+          <Input
+            type="email"
+            value={businessEmail}
+            onChange={(e) => setBusinessEmail(e.target.value)}
+            placeholder="you@yourcafe.com"
+          />
+        )}
+
+        <Textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Anything our team should know (optional)"
+          rows={3}
+        />
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => submitClaimMutation.mutate()}
+            disabled={(method === "business_email" && !businessEmail.trim()) || submitClaimMutation.isPending}
+            className="bg-[#A0522D] hover:bg-[#8B4513]"
+          >
+            {submitClaimMutation.isPending ? "Submitting..." : "Submit claim"}
+          </Button>
+          <Button variant="ghost" onClick={() => setIsFormOpen(false)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  // Listings without a website or phone give claimants nothing to verify against
+  if (!latestClaim && !cafe.website && !cafe.phone) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-serif font-bold text-[#8B4513] mb-3 flex items-center">
+          <Store className="h-5 w-5 mr-2" />
+          Café Owners
+        </h2>
+        {renderStatus()}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,42 +1,29 @@
 import { CafeWithDetails } from "@shared/schema";
 import CafeCard from "./cafe-card";
-import { ChevronLeft, ChevronRight, Loader2, MapPin } from "lucide-react";
-import { useState, useEffect } from "react";
+import { Loader2, MapPin } from "lucide-react";
 import { Button } from "./ui/button";
 import { formatDistance } from "@/lib/utils";
+import OpenStatusLabel from "./open-status-label";
 
 interface CafeListProps {
   cafes: CafeWithDetails[];
   isLoading: boolean;
-  cafeDistances?: Map<number, number>; // Map of cafe IDs to distances in km
   distanceUnit?: 'mi' | 'km'; // Unit to display distance in
+  total?: number; // Total matching cafés across all pages
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-export default function CafeList({ cafes, isLoading, cafeDistances, distanceUnit = 'mi' }: CafeListProps) {
-  const [currentPage, setCurrentPage] = useState(1);
-  const [cafesPerPage] = useState(10); // Display 10 cafés per page (vertical list)
-  
-  // Reset pagination when cafes array changes
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [cafes.length]);
-  
-  // Calculate indexes for pagination
-  const indexOfLastCafe = currentPage * cafesPerPage;
-  const indexOfFirstCafe = indexOfLastCafe - cafesPerPage;
-  const currentCafes = cafes.slice(indexOfFirstCafe, indexOfLastCafe);
-  const totalPages = Math.ceil(cafes.length / cafesPerPage);
-  
-  // Change page
-  const goToPage = (pageNumber: number) => {
-    setCurrentPage(pageNumber);
-    // Scroll to top of list with smooth animation
-    window.scrollTo({
-      top: document.querySelector('.cafe-list-container')?.getBoundingClientRect().top! + window.scrollY - 100,
-      behavior: 'smooth'
-    });
-  };
-  
+export default function CafeList({
+  cafes,
+  isLoading,
+  distanceUnit = 'mi',
+  total = cafes.length,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: CafeListProps) {
   if (isLoading) {
     return (
       <div className="min-h-[300px] flex items-center justify-center">
@@ -63,14 +50,14 @@ export default function CafeList({ cafes, isLoading, cafeDistances, distanceUnit
     <div className="cafe-list-container space-y-4">
       {/* Stacked café cards with numbers */}
       <div className="space-y-4">
-        {currentCafes.map((cafe, index) => {
-          const actualIndex = indexOfFirstCafe + index + 1;
+        {cafes.map((cafe, index) => {
+          const actualIndex = index + 1;
           return (
             <div key={cafe.id} className="flex bg-white rounded-lg shadow-md overflow-hidden transition-shadow hover:shadow-lg">
               {/* Numbered marker */}
               <div className="relative shrink-0">
                 <img 
-                  src={cafe.imageUrl || "https://images.unsplash.com/photo-1509042239860-f550ce710b93?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=200&h=200&q=80"} 
+                  src={cafe.coverPhoto?.thumbnailUrl || cafe.imageUrl || "https://images.unsplash.com/photo-1509042239860-f550ce710b93?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=200&h=200&q=80"} 
                   alt={cafe.name} 
                   className="h-24 w-24 object-cover m-3"
                 />
@@ -86,8 +73,9 @@ export default function CafeList({ cafes, isLoading, cafeDistances, distanceUnit
                     <h3 className="font-serif text-lg font-semibold text-[#8B4513] mb-1">
                       <a href={`/cafe/${cafe.id}`} className="hover:underline">{cafe.name}</a>
                     </h3>
-                    <div className="text-sm text-gray-600 mb-2">
+                    <div className="text-sm text-gray-600 mb-2 flex items-center gap-3">
                       {cafe.area && <span>{cafe.area}</span>}
+                      <OpenStatusLabel cafe={cafe} className="text-xs" />
                     </div>
                   </div>
                   
@@ -121,10 +109,10 @@ export default function CafeList({ cafes, isLoading, cafeDistances, distanceUnit
                     )}
                   </div>
                   
-                  {cafeDistances && cafeDistances.has(cafe.id) && (
+                  {cafe.distance !== undefined && (
                     <div className="text-xs text-gray-500 flex items-center">
                       <MapPin className="h-3 w-3 mr-1" />
-                      {formatDistance(cafeDistances.get(cafe.id), distanceUnit)}
+                      {formatDistance(cafe.distance, distanceUnit)}
                     </div>
                   )}
                 </div>
@@ -134,71 +122,29 @@ export default function CafeList({ cafes, isLoading, cafeDistances, distanceUnit
         })}
       </div>
       
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex justify-center items-center pt-4">
-          <div className="flex items-center space-x-2 bg-white px-4 py-2 rounded-lg shadow">
-            <Button 
-              variant="outline" 
-              size="icon" 
-              onClick={() => goToPage(currentPage - 1)}
-              disabled={currentPage === 1}
-              className="h-8 w-8"
-              aria-label="Previous page"
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
-            
-            <div className="flex items-center space-x-1">
-              {/* Generate page buttons */}
-              {Array.from({ length: totalPages }, (_, i) => i + 1)
-                .filter(page => 
-                  // Show first 2 pages, last 2 pages, and pages around current page
-                  page <= 2 || 
-                  page > totalPages - 2 || 
-                  (page >= currentPage - 1 && page <= currentPage + 1)
-                )
-                .map((page, idx, arr) => {
-                  // If there's a gap, show ellipsis
-                  const showEllipsis = idx > 0 && page - arr[idx - 1] > 1;
-                  
-                  return (
-                    <div key={page} className="flex items-center">
-                      {showEllipsis && (
-                        <span className="mx-1 text-gray-500">...</span>
-                      )}
-                      <Button 
-                        variant={currentPage === page ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => goToPage(page)}
-                        className={`h-8 w-8 p-0 ${currentPage === page ? 'bg-[#A0522D] hover:bg-[#8B4513]' : ''}`}
-                        aria-label={`Page ${page}`}
-                        aria-current={currentPage === page ? "page" : undefined}
-                      >
-                        {page}
-                      </Button>
-                    </div>
-                  );
-                })
-              }
-            </div>
-            
-            <Button 
-              variant="outline" 
-              size="icon" 
-              onClick={() => goToPage(currentPage + 1)}
-              disabled={currentPage === totalPages}
-              className="h-8 w-8"
-              aria-label="Next page"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-          </div>
+      {/* Load more */}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pt-4">
+          <Button
+            variant="outline"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="border-[#A0522D] text-[#A0522D] hover:bg-[#FAEBD7]"
+          >
+            {isLoadingMore ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              "Load more cafés"
+            )}
+          </Button>
         </div>
       )}
       
       <div className="flex justify-center text-sm text-gray-500">
-        Showing {indexOfFirstCafe + 1}-{Math.min(indexOfLastCafe, cafes.length)} of {cafes.length} cafés
+        Showing {cafes.length} of {total} cafés
       </div>
     </div>
   );
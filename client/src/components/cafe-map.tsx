@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef } from "react";
-import { CafeWithDetails } from "@shared/schema";
+import { CafeMapPin } from "@shared/schema";
 import { Loader2, Navigation, Star, Phone, Clock, MapPin } from "lucide-react";
 import { GOOGLE_MAPS_API_KEY } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -7,7 +7,7 @@ import MapMarker from "./map-marker";
 import { MarkerClusterer } from "@googlemaps/markerclusterer";
 
 interface CafeMapProps {
-  cafes: CafeWithDetails[];
+  cafes: CafeMapPin[];
   isLoading: boolean;
   singleLocation?: boolean;
 }
@@ -0,0 +1,128 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { CafePhoto, ReviewGalleryPhoto } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+
+interface CafePhotoGalleryProps {
+  cafeId: number;
+}
+
+// One carousel slide; review photos carry the id admins remove them by
+interface GallerySlide {
+  key: string;
+  imageUrl: string;
+  alt: string;
+  credit: string | null;
+  reviewPhotoId?: number;
+}
+
+export default function CafePhotoGallery({ cafeId }: CafePhotoGalleryProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+
+  const { data: cafePhotos = [] } = useQuery<CafePhoto[]>({
+    queryKey: [`/api/cafes/${cafeId}/photos`],
+  });
+
+  const reviewPhotosUrl = `/api/cafes/${cafeId}/review-photos`;
+  const { data: reviewPhotos = [] } = useQuery<ReviewGalleryPhoto[]>({
+    queryKey: [reviewPhotosUrl],
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      await apiRequest("DELETE", `/api/admin/review-photos/${photoId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [reviewPhotosUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
+      toast({
+        title: "Photo removed",
+        description: "The photo has been deleted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove photo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The cafe's own photos lead, in their curated order
+  const slides: GallerySlide[] = [
+    ...cafePhotos.map((photo) => ({
+      key: `cafe-${photo.id}`,
+      imageUrl: photo.imageUrl,
+      alt: photo.caption || "Café photo",
+      credit: [photo.caption, photo.attribution].filter(Boolean).join(" · ") || null,
+    })),
+    ...reviewPhotos.map((photo) => ({
+      key: `review-${photo.id}`,
+      imageUrl: photo.imageUrl,
+      alt: `Photo by ${photo.author.name}`,
+      credit: `${photo.author.name} · ${new Date(photo.createdAt).toLocaleDateString()}`,
+      reviewPhotoId: photo.id,
+    })),
+  ];
+
+  if (slides.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <Carousel opts={{ align: "start" }} className="mx-12">
+        <CarouselContent>
+          {slides.map((slide) => (
+            <CarouselItem key={slide.key} className="basis-full sm:basis-1/2 lg:basis-1/3">
+              <figure className="relative">
+                <a href={slide.imageUrl} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={slide.imageUrl}
+                    alt={slide.alt}
+                    loading="lazy"
+                    className="aspect-[4/3] w-full rounded-lg object-cover"
+                  />
+                </a>
+                {slide.credit && (
+                  <figcaption className="mt-1 text-xs text-gray-500">{slide.credit}</figcaption>
+                )}
+                {isAdmin && slide.reviewPhotoId !== undefined && (
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => {
+                      if (window.confirm("Remove this photo?")) {
+                        removeMutation.mutate(slide.reviewPhotoId!);
+                      }
+                    }}
+                    disabled={removeMutation.isPending}
+                    className="absolute top-2 right-2 h-8 w-8"
+                    aria-label="Remove photo"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </figure>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+    </div>
+  );
+}
@@ -5,24 +5,10 @@ import { Star } from "lucide-react";
 import { Link } from "wouter";
 
 export default function FeaturedCafes() {
-  // Fetch cafes for featured section (filtered to the top 3 highest rated)
+  // The top 3 cafes by ranking score, which weighs the number of ratings
+  // as well as the average
   const { data: cafes = [] } = useQuery<CafeWithDetails[]>({
-    queryKey: ["/api/cafes", { featured: true }],
-    queryFn: async () => {
-      const res = await fetch("/api/cafes");
-      if (!res.ok) {
-        throw new Error("Failed to fetch cafes");
-      }
-      
-      // Get all cafes and sort by rating
-      const allCafes = await res.json();
-      return allCafes
-        .filter((cafe: CafeWithDetails) => cafe.averageRating && cafe.averageRating > 0)
-        .sort((a: CafeWithDetails, b: CafeWithDetails) => 
-          (b.averageRating || 0) - (a.averageRating || 0)
-        )
-        .slice(0, 3);
-    }
+    queryKey: ["/api/cafes/featured?limit=3"],
   });
 
   if (cafes.length === 0) {
@@ -39,7 +25,7 @@ export default function FeaturedCafes() {
             <Link href={`/cafe/${cafe.id}`}>
               <div className="relative h-40">
                 <img 
-                  src={cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085"} 
+                  src={cafe.coverPhoto?.imageUrl || cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085"} 
                   alt={cafe.name} 
                   className="w-full h-full object-cover"
                 />
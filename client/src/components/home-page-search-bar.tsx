@@ -1,32 +1,130 @@
-import { MapPin } from "lucide-react";
-import { CafeFilter } from "@shared/schema";
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Coffee, Flame, MapPin, Store, X } from "lucide-react";
+import { CafeFilter, SearchInterpretation, SearchQueryTerm, SearchSuggestion, SearchSuggestions } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
 
 interface HomePageSearchBarProps {
   searchQuery: string;
   filters: CafeFilter;
   defaultLocation: string;
+  interpretation?: SearchInterpretation;
   onSearch: (query: string) => void;
+  onFilterChange: (filters: CafeFilter) => void;
 }
 
+type RoastLevel = NonNullable<CafeFilter["roastLevels"]>[number];
+type BrewingMethod = NonNullable<CafeFilter["brewingMethods"]>[number];
+
+const suggestionGroups: { key: keyof SearchSuggestions; heading: string; icon: typeof Store }[] = [
+  { key: "cafes", heading: "Cafés", icon: Store },
+  { key: "areas", heading: "Neighborhoods", icon: MapPin },
+  { key: "brewingMethods", heading: "Brewing Methods", icon: Coffee },
+  { key: "roastLevels", heading: "Roast Levels", icon: Flame },
+];
+
 export default function HomePageSearchBar({
   searchQuery,
   filters,
   defaultLocation,
-  onSearch
+  interpretation,
+  onSearch,
+  onFilterChange
 }: HomePageSearchBarProps) {
+  const [open, setOpen] = useState(false);
+  const trimmedQuery = searchQuery.trim();
+
+  const { data: suggestions } = useQuery<SearchSuggestions>({
+    queryKey: [`/api/search/suggest?q=${encodeURIComponent(trimmedQuery)}`],
+    enabled: trimmedQuery.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+  });
+
+  const hasSuggestions = !!suggestions && suggestionGroups.some(({ key }) => suggestions[key].length > 0);
+
+  // Cafe names become the search; areas, roasts and brewing methods become
+  // filters and clear the search text
+  const handleSelect = (group: keyof SearchSuggestions, suggestion: SearchSuggestion) => {
+    setOpen(false);
+
+    if (group === "cafes") {
+      onSearch(suggestion.value);
+      return;
+    }
+
+    onSearch("");
+    if (group === "areas") {
+      onFilterChange({ ...filters, area: suggestion.value });
+    } else if (group === "roastLevels") {
+      const roastLevels = filters.roastLevels || [];
+      const value = suggestion.value as RoastLevel;
+      onFilterChange({ ...filters, roastLevels: roastLevels.includes(value) ? roastLevels : [...roastLevels, value] });
+    } else {
+      const brewingMethods = filters.brewingMethods || [];
+      const value = suggestion.value as BrewingMethod;
+      onFilterChange({ ...filters, brewingMethods: brewingMethods.includes(value) ? brewingMethods : [...brewingMethods, value] });
+    }
+  };
+
+  // Removing a chip takes the words it was read from out of the search
+  const handleRemoveTerm = (term: SearchQueryTerm) => {
+    onSearch(searchQuery.replace(term.text, " ").replace(/\s+/g, " ").trim());
+  };
+
   return (
     <div className="w-full bg-white px-4 py-3">
       <div className="mx-auto flex max-w-4xl">
-        <div className="flex w-full rounded-md overflow-hidden border border-gray-300">
-          <div className="relative flex-1 flex bg-white">
-            <input 
-              type="text" 
-              placeholder="Search cafés, roasts, or brewing methods..." 
+        <div className="flex w-full rounded-md border border-gray-300">
+          <Command
+            shouldFilter={false}
+            className="relative flex-1 overflow-visible rounded-none rounded-l-md bg-white"
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setOpen(false);
+            }}
+          >
+            <input
+              type="text"
+              placeholder="Search cafés, roasts, or brewing methods..."
               className="w-full pl-4 py-2.5 border-none focus:outline-none focus:ring-0 text-gray-700"
               value={searchQuery}
-              onChange={(e) => onSearch(e.target.value)}
+              onChange={(e) => {
+                onSearch(e.target.value);
+                setOpen(true);
+              }}
+              onFocus={() => setOpen(true)}
+              onBlur={() => setOpen(false)}
+              role="combobox"
+              aria-expanded={open && hasSuggestions}
+              aria-autocomplete="list"
             />
-          </div>
+            {open && trimmedQuery && hasSuggestions && (
+              <CommandList
+                className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-white shadow-lg"
+                // Keep focus in the input so clicking a suggestion selects it
+                onMouseDown={(e) => e.preventDefault()}
+              >
+                {suggestionGroups.map(({ key, heading, icon: Icon }) =>
+                  suggestions[key].length > 0 && (
+                    <CommandGroup key={key} heading={heading}>
+                      {suggestions[key].map((suggestion) => (
+                        <CommandItem
+                          key={suggestion.value}
+                          value={`${key}:${suggestion.value}`}
+                          onSelect={() => handleSelect(key, suggestion)}
+                        >
+                          <Icon className="mr-2 h-4 w-4 text-[#A0522D]" />
+                          <span className="flex-1 truncate">{suggestion.label}</span>
+                          <span className="ml-2 text-xs text-muted-foreground">{suggestion.count}</span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )
+                )}
+              </CommandList>
+            )}
+          </Command>
           
           <div className="relative bg-white border-l border-gray-300">
             <div className="flex items-center px-4 w-48">
@@ -42,12 +140,32 @@ export default function HomePageSearchBar({
           </div>
           
           <button 
-            className="px-5 py-2.5 bg-[#A0522D] text-white hover:bg-[#8B4513] transition flex items-center justify-center"
+            className="px-5 py-2.5 bg-[#A0522D] text-white hover:bg-[#8B4513] transition flex items-center justify-center rounded-r-md"
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"/><path d="m21 21-4.3-4.3"/></svg>
           </button>
         </div>
       </div>
+      {interpretation && interpretation.terms.length > 0 && (
+        <div className="mx-auto mt-2 flex max-w-4xl flex-wrap items-center gap-2">
+          {interpretation.terms.map((term) => (
+            <Badge key={`${term.field}:${term.value}`} variant="secondary" className="gap-1 pr-1">
+              {term.label}
+              <button
+                type="button"
+                className="rounded-full p-0.5 hover:bg-gray-300"
+                onClick={() => handleRemoveTerm(term)}
+                aria-label={`Remove ${term.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {interpretation.query && (
+            <span className="text-sm text-gray-500">and matching “{interpretation.query}”</span>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -55,6 +55,11 @@ export default function Footer() {
                   Coffee Events
                 </Link>
               </li>
+              <li>
+                <a href="/api/cafes/export/geojson" download className="text-gray-300 hover:text-white transition">
+                  Café Map Data (GeoJSON)
+                </a>
+              </li>
             </ul>
           </div>
           
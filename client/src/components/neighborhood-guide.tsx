@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { CafeWithDetails } from "@shared/schema";
+import { CafePage, CafeWithDetails } from "@shared/schema";
 import { Map } from "lucide-react";
 
 interface NeighborhoodCount {
@@ -26,11 +26,12 @@ export default function NeighborhoodGuide() {
   const { data: cafes = [] } = useQuery<CafeWithDetails[]>({
     queryKey: ["/api/cafes"],
     queryFn: async () => {
-      const res = await fetch("/api/cafes");
+      const res = await fetch("/api/cafes?limit=50");
       if (!res.ok) {
         throw new Error("Failed to fetch cafes");
       }
-      return res.json();
+      const page: CafePage = await res.json();
+      return page.cafes;
     }
   });
 
@@ -0,0 +1,26 @@
+import { Clock } from "lucide-react";
+import { CafeWithDetails } from "@shared/schema";
+import { describeOpenStatus, getOpenStatus } from "@shared/opening-hours";
+
+interface OpenStatusLabelProps {
+  cafe: Pick<CafeWithDetails, "hours" | "hoursExceptions">;
+  className?: string;
+}
+
+export default function OpenStatusLabel({ cafe, className = "" }: OpenStatusLabelProps) {
+  // Cafes without any hours on file show nothing rather than "Closed"
+  if (!cafe.hours || cafe.hours.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const status = getOpenStatus(cafe.hours, cafe.hoursExceptions || [], now);
+  const label = describeOpenStatus(status, now) || "Closed";
+
+  return (
+    <span className={`flex items-center ${status.isOpen ? "text-green-700" : "text-gray-500"} ${className}`}>
+      <Clock className="h-3.5 w-3.5 mr-1" />
+      {label}
+    </span>
+  );
+}
@@ -1,29 +1,37 @@
 import { useState } from "react";
+import { RatingSubScore, RatingSubScores, ratingSubScoreKeys } from "@shared/schema";
+import { formatSubScore } from "@/lib/utils";
 
 interface RatingInputProps {
   rating: number;
   onChange: (rating: number) => void;
   size?: "sm" | "md" | "lg";
+  // When given, a compact row of stars is shown for each sub-score
+  subScores?: RatingSubScores;
+  onSubScoresChange?: (subScores: RatingSubScores) => void;
 }
 
-export default function RatingInput({ 
-  rating, 
-  onChange,
-  size = "md" 
-}: RatingInputProps) {
-  const [hoverRating, setHoverRating] = useState<number | null>(null);
+interface StarRowProps {
+  rating: number;
+  onChange: (rating: number) => void;
+  size: "sm" | "md" | "lg";
+  label?: string;
+}
 
-  const starSizes = {
-    sm: "w-4 h-4",
-    md: "w-6 h-6",
-    lg: "w-8 h-8"
-  };
+const starSizes = {
+  sm: "w-4 h-4",
+  md: "w-6 h-6",
+  lg: "w-8 h-8"
+};
 
-  const containerClasses = {
-    sm: "space-x-1",
-    md: "space-x-2",
-    lg: "space-x-3"
-  };
+const containerClasses = {
+  sm: "space-x-1",
+  md: "space-x-2",
+  lg: "space-x-3"
+};
+
+function StarRow({ rating, onChange, size, label }: StarRowProps) {
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
 
   // Handle mouse enter on a star
   const handleMouseEnter = (starRating: number) => {
@@ -60,7 +68,7 @@ export default function RatingInput({
             className="focus:outline-none transition-transform hover:scale-110"
             onMouseEnter={() => handleMouseEnter(starRating)}
             onClick={() => handleClick(starRating)}
-            aria-label={`Rate ${starRating} stars`}
+            aria-label={label ? `Rate ${label} ${starRating} stars` : `Rate ${starRating} stars`}
           >
             <svg 
               xmlns="http://www.w3.org/2000/svg" 
@@ -78,3 +86,40 @@ export default function RatingInput({
     </div>
   );
 }
+
+export default function RatingInput({ 
+  rating, 
+  onChange,
+  size = "md",
+  subScores,
+  onSubScoresChange,
+}: RatingInputProps) {
+  // Clearing a sub-score's stars leaves that dimension unscored
+  const handleSubScoreChange = (key: RatingSubScore, score: number) => {
+    if (subScores && onSubScoresChange) {
+      onSubScoresChange({ ...subScores, [key]: score || null });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <StarRow rating={rating} onChange={onChange} size={size} />
+
+      {subScores && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-1">
+          {ratingSubScoreKeys.map((key) => (
+            <div key={key} className="contents">
+              <span className="text-sm text-gray-600">{formatSubScore(key)}</span>
+              <StarRow
+                rating={subScores[key] || 0}
+                onChange={(score) => handleSubScoreChange(key, score)}
+                size="sm"
+                label={formatSubScore(key)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
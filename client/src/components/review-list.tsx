@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Flag, Loader2, MessageSquareReply, Star } from "lucide-react";
+import { CafeReview, CafeReviewPage, reportReasonEnum, reviewSortOptionsEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ReviewSort = typeof reviewSortOptionsEnum[number];
+
+const sortLabels: Record<ReviewSort, string> = {
+  newest: "Newest",
+  highest: "Highest rated",
+  lowest: "Lowest rated",
+};
+
+type ReportReason = typeof reportReasonEnum.enumValues[number];
+
+const reportReasonLabels: Record<ReportReason, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  off_topic: "Not about this café",
+  conflict_of_interest: "Written by someone connected to the café or a competitor",
+};
+
+const PAGE_SIZE = 10;
+
+interface ReviewListProps {
+  cafeId: number;
+  canReply?: boolean; // True for the cafe's verified owners
+}
+
+export default function ReviewList({ cafeId, canReply = false }: ReviewListProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [reportingOn, setReportingOn] = useState<number | null>(null);
+  const [reportReason, setReportReason] = useState<ReportReason>("spam");
+  const [reportDetails, setReportDetails] = useState("");
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/cafes/${cafeId}/reviews`, sort],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest(
+        "GET",
+        `/api/cafes/${cafeId}/reviews?sort=${sort}&page=${pageParam}&limit=${PAGE_SIZE}`,
+      );
+      return (await res.json()) as CafeReviewPage;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+  });
+
+  const replyUrl = (reviewId: number) => `/api/cafes/${cafeId}/reviews/${reviewId}/reply`;
+
+  const saveReplyMutation = useMutation({
+    mutationFn: async (review: CafeReview) => {
+      await apiRequest(review.ownerReply ? "PATCH" : "POST", replyUrl(review.id), { reply: replyText });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
+      setReplyingTo(null);
+      setReplyText("");
+      toast({
+        title: "Reply posted",
+        description: "Your response is now visible under the review.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to post reply: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteReplyMutation = useMutation({
+    mutationFn: async (reviewId: number) => {
+      await apiRequest("DELETE", replyUrl(reviewId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
+      toast({
+        title: "Reply deleted",
+        description: "Your response has been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete reply: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reportReviewMutation = useMutation({
+    mutationFn: async (reviewId: number) => {
+      await apiRequest("POST", `/api/cafes/${cafeId}/reviews/${reviewId}/report`, {
+        reason: reportReason,
+        details: reportDetails.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setReportingOn(null);
+      setReportDetails("");
+      toast({
+        title: "Review reported",
+        description: "Thanks for letting us know. Our moderators will take a look.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to report review: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startReport = (reviewId: number) => {
+    setReportingOn(reviewId);
+    setReportReason("spam");
+    setReportDetails("");
+  };
+
+  const startReply = (review: CafeReview) => {
+    setReplyingTo(review.id);
+    setReplyText(review.ownerReply?.reply || "");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-[#A0522D]" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-gray-500 text-center py-4">Reviews could not be loaded.</p>;
+  }
+
+  const { histogram, total } = data.pages[0];
+  const reviews = data.pages.flatMap((page) => page.reviews);
+
+  if (total === 0) {
+    return <p className="text-gray-500 text-center py-4">No reviews yet. Be the first to rate this café!</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Star histogram */}
+      <div className="space-y-1">
+        {[5, 4, 3, 2, 1].map((stars) => {
+          const count = histogram[stars] || 0;
+          return (
+            <div key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-4 text-right">{stars}</span>
+              <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-yellow-400"
+                  style={{ width: `${(count / total) * 100}%` }}
+                />
+              </div>
+              <span className="w-8 text-gray-500">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">{total} {total === 1 ? "review" : "reviews"}</h3>
+        <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {reviewSortOptionsEnum.map((option) => (
+              <SelectItem key={option} value={option}>
+                {sortLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="divide-y">
+        {reviews.map((review) => (
+          <div key={review.id} className="py-4 flex gap-3">
+            <Avatar className="h-10 w-10">
+              {review.author.photoUrl && (
+                <AvatarImage src={review.author.photoUrl} alt={review.author.name} />
+              )}
+              <AvatarFallback>{review.author.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{review.author.name}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                  {review.editedAt && " (edited)"}
+                </span>
+              </div>
+              <div className="flex items-center my-1">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <Star
+                    key={star}
+                    className={`h-4 w-4 ${star <= review.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+                  />
+                ))}
+              </div>
+              {review.review && <p className="text-gray-700 whitespace-pre-line">{review.review}</p>}
+
+              {review.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {review.photos.map((photo) => (
+                    <a key={photo.id} href={photo.imageUrl} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={photo.thumbnailUrl}
+                        alt={`Photo by ${review.author.name}`}
+                        loading="lazy"
+                        className="h-20 w-20 rounded-md object-cover"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {review.ownerReply && replyingTo !== review.id && (
+                <div className="mt-3 ml-2 pl-3 border-l-4 border-[#A0522D] bg-[#FAF3EB] rounded-r-md py-2 pr-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-semibold text-[#8B4513]">Owner response</span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(review.ownerReply.createdAt).toLocaleDateString()}
+                      {review.ownerReply.editedAt && " (edited)"}
+                    </span>
+                  </div>
+                  <p className="text-gray-700 text-sm whitespace-pre-line mt-1">{review.ownerReply.reply}</p>
+                  {canReply && (
+                    <div className="flex gap-2 mt-2">
+                      <Button variant="ghost" size="sm" onClick={() => startReply(review)}>
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deleteReplyMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm("Are you sure you want to delete your reply?")) {
+                            deleteReplyMutation.mutate(review.id);
+                          }
+                        }}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {canReply && replyingTo === review.id && (
+                <div className="mt-3 space-y-2">
+                  <Textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="Write a public response to this review"
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => saveReplyMutation.mutate(review)}
+                      disabled={!replyText.trim() || saveReplyMutation.isPending}
+                      className="bg-[#A0522D] hover:bg-[#8B4513]"
+                    >
+                      {saveReplyMutation.isPending ? "Posting..." : "Post reply"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {reportingOn === review.id && (
+                <div className="mt-3 space-y-3 rounded-md border p-3">
+                  <p className="text-sm font-medium">Why are you reporting this review?</p>
+                  <RadioGroup value={reportReason} onValueChange={(value) => setReportReason(value as ReportReason)}>
+                    {reportReasonEnum.enumValues.map((reason) => (
+                      <div key={reason} className="flex items-center space-x-2">
+                        <RadioGroupItem value={reason} id={`report-${review.id}-${reason}`} />
+                        <Label htmlFor={`report-${review.id}-${reason}`} className="font-normal">
+                          {reportReasonLabels[reason]}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <Textarea
+                    value={reportDetails}
+                    onChange={(e) => setReportDetails(e.target.value)}
+                    placeholder="Anything else our moderators should know (optional)"
+                    rows={2}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => reportReviewMutation.mutate(review.id)}
+                      disabled={reportReviewMutation.isPending}
+                    >
+                      {reportReviewMutation.isPending ? "Reporting..." : "Report review"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setReportingOn(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-1 mt-2">
+                {canReply && !review.ownerReply && replyingTo !== review.id && (
+                  <Button variant="ghost" size="sm" className="px-2" onClick={() => startReply(review)}>
+                    <MessageSquareReply className="h-4 w-4 mr-1" />
+                    Reply
+                  </Button>
+                )}
+                {user && user.id !== review.author.id && reportingOn !== review.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="px-2 text-gray-500"
+                    onClick={() => startReport(review.id)}
+                  >
+                    <Flag className="h-4 w-4 mr-1" />
+                    Report
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              "Show more reviews"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import { MAX_REVIEW_PHOTOS, ReviewPhoto } from "@shared/schema";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+
+interface ReviewPhotoUploaderProps {
+  cafeId: number;
+}
+
+export default function ReviewPhotoUploader({ cafeId }: ReviewPhotoUploaderProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const photosUrl = `/api/cafes/${cafeId}/ratings/photos`;
+  const { data: photos = [], isLoading } = useQuery<ReviewPhoto[]>({
+    queryKey: [photosUrl],
+  });
+
+  const refreshPhotos = () => {
+    queryClient.invalidateQueries({ queryKey: [photosUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/review-photos`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("photos", file));
+      await apiUpload(photosUrl, formData);
+    },
+    onSuccess: () => {
+      refreshPhotos();
+      toast({
+        title: "Photos added",
+        description: "Your photos are now part of your review.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to upload photos: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      await apiRequest("DELETE", `${photosUrl}/${photoId}`);
+    },
+    onSuccess: refreshPhotos,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove photo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remaining = MAX_REVIEW_PHOTOS - photos.length;
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Reset so picking the same file again still fires onChange
+    event.target.value = "";
+    if (files.length === 0) {
+      return;
+    }
+    if (files.length > remaining) {
+      toast({
+        title: "Too many photos",
+        description: `You can add ${remaining} more photo${remaining === 1 ? "" : "s"} to this review.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(files);
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4">
+      <p className="text-sm font-medium mb-2">
+        Photos <span className="text-gray-500 font-normal">({photos.length}/{MAX_REVIEW_PHOTOS})</span>
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {photos.map((photo) => (
+          <div key={photo.id} className="relative">
+            <img src={photo.thumbnailUrl} alt="Your review photo" className="h-20 w-20 rounded-md object-cover" />
+            <button
+              type="button"
+              onClick={() => removeMutation.mutate(photo.id)}
+              disabled={removeMutation.isPending}
+              className="absolute -top-2 -right-2 rounded-full bg-white border shadow p-0.5 text-gray-600 hover:text-red-600"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        {remaining > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="h-20 w-20 flex-col gap-1 text-xs"
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <>
+                <ImagePlus className="h-5 w-5" />
+                Add
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        onChange={handleFilesSelected}
+        className="hidden"
+      />
+    </div>
+  );
+}
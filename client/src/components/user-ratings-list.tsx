@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Coffee, Loader2, MapPin, Star } from "lucide-react";
+import { UserRatingPage, userRatingSortOptionsEnum } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type UserRatingSort = typeof userRatingSortOptionsEnum[number];
+
+const sortLabels: Record<UserRatingSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  highest: "Highest rated",
+  lowest: "Lowest rated",
+};
+
+const PAGE_SIZE = 10;
+
+export default function UserRatingsList() {
+  const [sort, setSort] = useState<UserRatingSort>("newest");
+  const [starFilter, setStarFilter] = useState<string>("all");
+  const [withReviewOnly, setWithReviewOnly] = useState(false);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/user/ratings", { sort, starFilter, withReviewOnly }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        sort,
+        page: pageParam.toString(),
+        limit: PAGE_SIZE.toString(),
+      });
+      if (starFilter !== "all") {
+        params.append("rating", starFilter);
+      }
+      if (withReviewOnly) {
+        params.append("withReview", "true");
+      }
+
+      const res = await apiRequest("GET", `/api/user/ratings?${params.toString()}`);
+      return (await res.json()) as UserRatingPage;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+  });
+
+  const ratings = data?.pages.flatMap((page) => page.ratings) || [];
+  const total = data?.pages[0]?.total || 0;
+  const isFiltered = starFilter !== "all" || withReviewOnly;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={sort} onValueChange={(value) => setSort(value as UserRatingSort)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {userRatingSortOptionsEnum.map((option) => (
+              <SelectItem key={option} value={option}>
+                {sortLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={starFilter} onValueChange={setStarFilter}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All ratings</SelectItem>
+            {[5, 4, 3, 2, 1].map((stars) => (
+              <SelectItem key={stars} value={stars.toString()}>
+                {stars} {stars === 1 ? "star" : "stars"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="with-review-only"
+            checked={withReviewOnly}
+            onCheckedChange={(checked) => setWithReviewOnly(checked === true)}
+          />
+          <Label htmlFor="with-review-only">With written review</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-border" />
+        </div>
+      ) : error ? (
+        <p className="text-gray-500 text-center py-12">Your ratings could not be loaded.</p>
+      ) : ratings.length === 0 ? (
+        <div className="py-12 text-center">
+          {isFiltered ? (
+            <p className="text-gray-500">No ratings match these filters.</p>
+          ) : (
+            <>
+              <p className="text-gray-500 mb-4">You haven't rated any cafés yet.</p>
+              <Button className="bg-[#A0522D] hover:bg-[#8B4513]" asChild>
+                <a href="/">Discover Cafés</a>
+              </Button>
+            </>
+          )}
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500">
+            {total} {total === 1 ? "rating" : "ratings"}
+          </p>
+
+          <div className="divide-y">
+            {ratings.map((entry) => (
+              <Link key={entry.id} href={`/cafe/${entry.cafe.id}`}>
+                <div className="py-4 flex gap-4 cursor-pointer hover:bg-gray-50 rounded-md">
+                  <div className="h-16 w-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-100 flex items-center justify-center">
+                    {entry.cafe.imageUrl ? (
+                      <img src={entry.cafe.imageUrl} alt={entry.cafe.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <Coffee className="h-6 w-6 text-gray-400" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{entry.cafe.name}</span>
+                      <span className="text-xs text-gray-500">
+                        {new Date(entry.createdAt).toLocaleDateString()}
+                        {entry.editedAt && " (edited)"}
+                      </span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-500">
+                      <MapPin className="h-3.5 w-3.5 mr-1" />
+                      {entry.cafe.area}
+                    </div>
+                    <div className="flex items-center my-1">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <Star
+                          key={star}
+                          className={`h-4 w-4 ${star <= entry.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+                        />
+                      ))}
+                    </div>
+                    {entry.review && (
+                      <p className="text-gray-700 whitespace-pre-line line-clamp-3">{entry.review}</p>
+                    )}
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Show more ratings"
+                )}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,20 @@
 // this hook will call the cafes API and return the data
 
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 
 import {
-  CafeWithDetails as BaseCafeWithDetails,
   CafeFilter,
+  CafeMapPin,
+  CafePage,
+  cafeAmenityKeys,
+  subScoreFilterKeys,
 } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 
-// Extended type for CafeWithDetails to include rating info
-interface CafeWithDetails extends BaseCafeWithDetails {
-  avgRating?: number;
-  ratingCount?: number;
-}
+const PAGE_SIZE = 20;
 
-// Build query string with filters
-const buildCafesQueryString = (filters: CafeFilter, searchQuery: string) => {
+// Build query string with filters for a cafe listing endpoint
+const buildCafesQueryString = (path: string, filters: CafeFilter, searchQuery: string, includeFacets = false) => {
   const params = new URLSearchParams();
 
   // Add area filter
@@ -22,14 +22,20 @@ const buildCafesQueryString = (filters: CafeFilter, searchQuery: string) => {
     params.append("area", filters.area);
   }
 
-  // Add roast levels filter
+  // Add roast levels filter and whether cafes need any or all of them
   if (filters.roastLevels && filters.roastLevels.length > 0) {
     params.append("roastLevels", filters.roastLevels.join(","));
+    if (filters.roastLevelsMode) {
+      params.append("roastLevelsMode", filters.roastLevelsMode);
+    }
   }
 
-  // Add brewing methods filter
+  // Add brewing methods filter and whether cafes need any or all of them
   if (filters.brewingMethods && filters.brewingMethods.length > 0) {
     params.append("brewingMethods", filters.brewingMethods.join(","));
+    if (filters.brewingMethodsMode) {
+      params.append("brewingMethodsMode", filters.brewingMethodsMode);
+    }
   }
 
   // Add minimum rating filter
@@ -37,43 +43,110 @@ const buildCafesQueryString = (filters: CafeFilter, searchQuery: string) => {
     params.append("minRating", filters.minRating.toString());
   }
 
-  // Add other amenity filters
-  if (filters.hasWifi !== undefined) {
-    params.append("hasWifi", filters.hasWifi.toString());
-  }
+  // Add minimum sub-score filters
+  Object.values(subScoreFilterKeys).forEach((filterKey) => {
+    const minScore = filters[filterKey];
+    if (minScore) {
+      params.append(filterKey, minScore.toString());
+    }
+  });
+
+  // Add amenity filters (only selected amenities narrow the results)
+  cafeAmenityKeys.forEach((amenity) => {
+    if (filters[amenity] === true) {
+      params.append(amenity, "true");
+    }
+  });
 
   if (filters.sellsCoffeeBeans !== undefined) {
     params.append("sellsCoffeeBeans", filters.sellsCoffeeBeans.toString());
   }
 
+  // Add sort option and the reference point used for distances
+  if (filters.sortBy) {
+    params.append("sortBy", filters.sortBy);
+  }
+
+  if (filters.lat !== undefined && filters.lng !== undefined) {
+    params.append("lat", filters.lat.toString());
+    params.append("lng", filters.lng.toString());
+  }
+
   // Add search query if present
   if (searchQuery) {
     params.append("q", searchQuery);
   }
 
+  // Ask for facet counts; the server only adds them to the first page
+  if (includeFacets) {
+    params.append("facets", "true");
+  }
+
   const queryString = params.toString();
-  return queryString ? `/api/cafes?${queryString}` : "/api/cafes";
+  return queryString ? `${path}?${queryString}` : path;
 };
 
 export default function useCafesQuery(
   filters: CafeFilter,
   searchQuery: string,
+  includeFacets = false,
 ) {
-  const queryUrl = buildCafesQueryString(filters, searchQuery);
+  const queryUrl = buildCafesQueryString("/api/cafes", filters, searchQuery, includeFacets);
 
   const {
-    data: cafes = [],
+    data,
     isLoading,
     error,
     refetch,
-  } = useQuery<CafeWithDetails[]>({
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: [queryUrl],
+    queryFn: async ({ pageParam }) => {
+      const separator = queryUrl.includes("?") ? "&" : "?";
+      let pageUrl = `${queryUrl}${separator}limit=${PAGE_SIZE}`;
+      if (pageParam) {
+        pageUrl += `&cursor=${encodeURIComponent(pageParam)}`;
+      }
+      const res = await apiRequest("GET", pageUrl);
+      return (await res.json()) as CafePage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  // Flatten the loaded pages into a single list
+  const cafes = data?.pages.flatMap((page) => page.cafes) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  // How the server read the search text, for showing its filters as chips
+  const interpretation = data?.pages[0]?.interpretation;
+  const facets = data?.pages[0]?.facets;
+
   return {
     cafes,
+    total,
+    interpretation,
+    facets,
     isLoading,
     error,
     refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
   };
 }
+
+// Pins for every cafe matching the filters, not just the loaded pages. The
+// sort order and reference point don't change which cafes match, so they
+// are left out of the query to avoid refetching the pins.
+export function useCafeMapPins(filters: CafeFilter, searchQuery: string) {
+  const { sortBy, lat, lng, ...matching } = filters;
+  const queryUrl = buildCafesQueryString("/api/cafes/map", matching, searchQuery);
+
+  const { data: pins = [], isLoading } = useQuery<CafeMapPin[]>({
+    queryKey: [queryUrl],
+  });
+
+  return { pins, isLoading };
+}
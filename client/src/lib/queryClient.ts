@@ -64,6 +64,18 @@ export async function apiRequest(
   }
 }
 
+// Multipart uploads; the browser sets the Content-Type boundary itself
+export async function apiUpload(url: string, formData: FormData): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
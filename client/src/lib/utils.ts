@@ -55,6 +55,42 @@ export function formatRoastLevel(level: string): string {
   return levelMap[level] || level;
 }
 
+/**
+ * Format an amenity from its cafe field name to a display name
+ * @param amenity Amenity field name, e.g. "hasWifi"
+ * @returns Formatted amenity string
+ */
+export function formatAmenity(amenity: string): string {
+  const amenityMap: Record<string, string> = {
+    'hasWifi': 'Wi-Fi',
+    'hasPower': 'Power Outlets',
+    'hasFood': 'Food',
+    'hasOutdoorSeating': 'Outdoor Seating',
+    'hasRestroom': 'Restroom',
+    'isWheelchairAccessible': 'Wheelchair Accessible',
+    'isPetFriendly': 'Pet Friendly',
+  };
+  
+  return amenityMap[amenity] || amenity;
+}
+
+/**
+ * Format a rating sub-score from its rating field name to a display name
+ * @param subScore Sub-score field name, e.g. "coffeeScore"
+ * @returns Formatted sub-score string
+ */
+export function formatSubScore(subScore: string): string {
+  const subScoreMap: Record<string, string> = {
+    'coffeeScore': 'Coffee',
+    'atmosphereScore': 'Atmosphere',
+    'workScore': 'Work-friendly',
+    'serviceScore': 'Service',
+    'valueScore': 'Value',
+  };
+  
+  return subScoreMap[subScore] || subScore;
+}
+
 /**
  * Convert kilometers to miles
  * @param km Distance in kilometers
@@ -17,16 +17,24 @@ import {
   Wifi, 
   Power, 
   Utensils, 
-  Flame
+  Trees, 
+  Bath, 
+  Accessibility, 
+  PawPrint, 
+  Flame,
+  Clock
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Link, useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { CafeWithDetails, roastLevelEnum, brewingMethodEnum, cafeStatusEnum } from "@shared/schema";
+import { CafeWithDetails, CafeChangeProposal, roastLevelEnum, brewingMethodEnum, cafeStatusEnum } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import CafeHoursEditor from "@/components/admin/cafe-hours-editor";
+import CafePhotoManager from "@/components/admin/cafe-photo-manager";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Select,
   SelectContent,
@@ -59,6 +67,10 @@ const cafeFormSchema = z.object({
   hasWifi: z.boolean().default(false),
   hasPower: z.boolean().default(false),
   hasFood: z.boolean().default(false),
+  hasOutdoorSeating: z.boolean().default(false),
+  hasRestroom: z.boolean().default(false),
+  isWheelchairAccessible: z.boolean().default(false),
+  isPetFriendly: z.boolean().default(false),
   sellsCoffeeBeans: z.boolean().default(false),
   imageUrl: z.string().optional(),
   website: z.string().optional(),
@@ -72,18 +84,32 @@ const cafeFormSchema = z.object({
 
 type CafeFormValues = z.infer<typeof cafeFormSchema>;
 
-export default function AdminCafeEditPage() {
+interface CafeEditPageProps {
+  // Owners edit a subset of fields and their saves become change proposals
+  mode?: "admin" | "owner";
+}
+
+export default function AdminCafeEditPage({ mode = "admin" }: CafeEditPageProps = {}) {
   const params = useParams();
   const cafeId = params?.id ? parseInt(params.id) : 0;
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const isOwnerMode = mode === "owner";
+  const backHref = isOwnerMode ? "/profile" : "/admin";
 
   // Fetch cafe details
   const { data: cafe, isLoading } = useQuery<CafeWithDetails>({
-    queryKey: [`/api/admin/cafes/${cafeId}`],
+    queryKey: [isOwnerMode ? `/api/owner/cafes/${cafeId}` : `/api/admin/cafes/${cafeId}`],
     enabled: !isNaN(cafeId) && cafeId > 0,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
+
+  // Owners see the state of the changes they have proposed
+  const { data: proposals } = useQuery<CafeChangeProposal[]>({
+    queryKey: [`/api/owner/cafes/${cafeId}/proposals`],
+    enabled: isOwnerMode && !isNaN(cafeId) && cafeId > 0,
+  });
+  const pendingProposals = proposals?.filter((proposal) => proposal.status === "pending") || [];
   
   // Form setup with debug mode and better error handling
   const form = useForm<CafeFormValues>({
@@ -100,6 +126,10 @@ export default function AdminCafeEditPage() {
       hasWifi: false,
       hasPower: false,
       hasFood: false,
+      hasOutdoorSeating: false,
+      hasRestroom: false,
+      isWheelchairAccessible: false,
+      isPetFriendly: false,
       sellsCoffeeBeans: false,
       imageUrl: "",
       website: "",
@@ -130,6 +160,10 @@ export default function AdminCafeEditPage() {
         hasWifi: false,
         hasPower: false,
         hasFood: false,
+        hasOutdoorSeating: false,
+        hasRestroom: false,
+        isWheelchairAccessible: false,
+        isPetFriendly: false,
         sellsCoffeeBeans: false,
         imageUrl: "",
         website: "",
@@ -154,6 +188,10 @@ export default function AdminCafeEditPage() {
         hasWifi: cafe.hasWifi === true,
         hasPower: cafe.hasPower === true,
         hasFood: cafe.hasFood === true,
+        hasOutdoorSeating: cafe.hasOutdoorSeating === true,
+        hasRestroom: cafe.hasRestroom === true,
+        isWheelchairAccessible: cafe.isWheelchairAccessible === true,
+        isPetFriendly: cafe.isPetFriendly === true,
         sellsCoffeeBeans: cafe.sellsCoffeeBeans === true,
         imageUrl: cafe.imageUrl || "",
         website: cafe.website || "",
@@ -204,6 +242,27 @@ export default function AdminCafeEditPage() {
     setTimeout(preventUndefinedText, 50);
     
     try {
+      if (isOwnerMode) {
+        // Only owner-editable fields are sent; the server keeps just the ones that changed
+        await apiRequest("POST", `/api/owner/cafes/${cafeId}/proposals`, {
+          description: data.description || '',
+          website: data.website || '',
+          phone: data.phone || '',
+          instagramHandle: data.instagramHandle || '',
+          imageUrl: data.imageUrl || '',
+          roastLevels: data.roastLevels,
+          brewingMethods: data.brewingMethods,
+        });
+
+        queryClient.invalidateQueries({ queryKey: [`/api/owner/cafes/${cafeId}/proposals`] });
+
+        toast({
+          title: "Changes submitted",
+          description: "An admin will review your changes before they appear on the listing.",
+        });
+        return;
+      }
+
       // Extract just what we need for main update with explicit type handling
       const cafeUpdate = {
         name: data.name || '',
@@ -216,6 +275,10 @@ export default function AdminCafeEditPage() {
         hasWifi: data.hasWifi === true,
         hasPower: data.hasPower === true,
         hasFood: data.hasFood === true,
+        hasOutdoorSeating: data.hasOutdoorSeating === true,
+        hasRestroom: data.hasRestroom === true,
+        isWheelchairAccessible: data.isWheelchairAccessible === true,
+        isPetFriendly: data.isPetFriendly === true,
         sellsCoffeeBeans: data.sellsCoffeeBeans === true, 
         imageUrl: data.imageUrl || '',
         website: data.website || '',
@@ -321,10 +384,10 @@ export default function AdminCafeEditPage() {
             <CardDescription>The cafe you are looking for does not exist.</CardDescription>
           </CardHeader>
           <CardFooter>
-            <Link href="/admin">
+            <Link href={backHref}>
               <Button variant="outline">
                 <ArrowLeft className="mr-2 h-4 w-4" />
-                Back to Admin
+                {isOwnerMode ? "Back to Profile" : "Back to Admin"}
               </Button>
             </Link>
           </CardFooter>
@@ -339,25 +402,42 @@ export default function AdminCafeEditPage() {
         <div>
           <h1 className="text-3xl font-bold flex items-center gap-2">
             <Coffee className="h-7 w-7" />
-            Edit Cafe
+            {isOwnerMode ? `Edit ${cafe.name}` : "Edit Cafe"}
           </h1>
-          <p className="text-muted-foreground">Update details and manage cafe information</p>
+          <p className="text-muted-foreground">
+            {isOwnerMode
+              ? "Suggest updates to your listing. Changes go live once an admin approves them."
+              : "Update details and manage cafe information"}
+          </p>
         </div>
-        <Link href="/admin">
+        <Link href={backHref}>
           <Button variant="outline">
             <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Admin
+            {isOwnerMode ? "Back to Profile" : "Back to Admin"}
           </Button>
         </Link>
       </div>
       
+      {isOwnerMode && pendingProposals.length > 0 && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertTitle>Changes awaiting review</AlertTitle>
+          <AlertDescription>
+            You have {pendingProposals.length} pending {pendingProposals.length === 1 ? "proposal" : "proposals"}.
+            The form below shows the live listing until an admin approves them.
+          </AlertDescription>
+        </Alert>
+      )}
+      
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)}>
           <Tabs defaultValue="basic">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className={`grid w-full ${isOwnerMode ? "grid-cols-3" : "grid-cols-5"}`}>
               <TabsTrigger value="basic">Basic Info</TabsTrigger>
               <TabsTrigger value="specialty">Coffee Specialties</TabsTrigger>
-              <TabsTrigger value="features">Features & Amenities</TabsTrigger>
+              {!isOwnerMode && <TabsTrigger value="features">Features & Amenities</TabsTrigger>}
+              <TabsTrigger value="hours">Hours</TabsTrigger>
+              {!isOwnerMode && <TabsTrigger value="photos">Photos</TabsTrigger>}
             </TabsList>
             
             <TabsContent value="basic" className="space-y-4 mt-6">
@@ -376,7 +456,7 @@ export default function AdminCafeEditPage() {
                       <FormItem>
                         <FormLabel>Cafe Name</FormLabel>
                         <FormControl>
-                          <Input {...field} />
+                          <Input {...field} disabled={isOwnerMode} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -411,7 +491,7 @@ export default function AdminCafeEditPage() {
                           <FormControl>
                             <div className="flex items-center gap-2">
                               <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                              <Input {...field} />
+                              <Input {...field} disabled={isOwnerMode} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -428,7 +508,7 @@ export default function AdminCafeEditPage() {
                           <FormControl>
                             <div className="flex items-center gap-2">
                               <Building className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                              <Input {...field} />
+                              <Input {...field} disabled={isOwnerMode} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -437,91 +517,96 @@ export default function AdminCafeEditPage() {
                     />
                   </div>
                   
-                  <div className="grid gap-4 md:grid-cols-2">
+                  {/* Coordinates, price level and status are admin-only */}
+                  {!isOwnerMode && (
+                    <>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="latitude"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Latitude</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <FormField
+                        control={form.control}
+                        name="longitude"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Longitude</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  
                     <FormField
                       control={form.control}
-                      name="latitude"
+                      name="priceLevel"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Latitude</FormLabel>
+                          <FormLabel>Price Level</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Select
+                              onValueChange={(value) => field.onChange(parseInt(value))}
+                              value={field.value.toString()}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select price level" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="1">$ - Inexpensive</SelectItem>
+                                <SelectItem value="2">$$ - Moderate</SelectItem>
+                                <SelectItem value="3">$$$ - Expensive</SelectItem>
+                                <SelectItem value="4">$$$$ - Very Expensive</SelectItem>
+                              </SelectContent>
+                            </Select>
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    
+                  
                     <FormField
                       control={form.control}
-                      name="longitude"
+                      name="status"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Longitude</FormLabel>
+                          <FormLabel>Status</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select status" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="draft">Draft</SelectItem>
+                                <SelectItem value="published">Published</SelectItem>
+                                <SelectItem value="archived">Archived</SelectItem>
+                              </SelectContent>
+                            </Select>
                           </FormControl>
+                          <FormDescription>
+                            Only published cafes will be visible to users
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-                  
-                  <FormField
-                    control={form.control}
-                    name="priceLevel"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Price Level</FormLabel>
-                        <FormControl>
-                          <Select
-                            onValueChange={(value) => field.onChange(parseInt(value))}
-                            value={field.value.toString()}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select price level" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="1">$ - Inexpensive</SelectItem>
-                              <SelectItem value="2">$$ - Moderate</SelectItem>
-                              <SelectItem value="3">$$$ - Expensive</SelectItem>
-                              <SelectItem value="4">$$$$ - Very Expensive</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="status"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Status</FormLabel>
-                        <FormControl>
-                          <Select
-                            onValueChange={field.onChange}
-                            value={field.value}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select status" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="draft">Draft</SelectItem>
-                              <SelectItem value="published">Published</SelectItem>
-                              <SelectItem value="archived">Archived</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </FormControl>
-                        <FormDescription>
-                          Only published cafes will be visible to users
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                    </>
+                  )}
                 </CardContent>
               </Card>
               
@@ -596,7 +681,7 @@ export default function AdminCafeEditPage() {
                           <FormControl>
                             <div className="flex items-center gap-2">
                               <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                              <Input {...field} placeholder="https://maps.google.com/..." />
+                              <Input {...field} placeholder="https://maps.google.com/..." disabled={isOwnerMode} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -610,12 +695,12 @@ export default function AdminCafeEditPage() {
                     name="imageUrl"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Image URL</FormLabel>
+                        <FormLabel>Fallback Image URL</FormLabel>
                         <FormControl>
                           <Input {...field} placeholder="https://..." />
                         </FormControl>
                         <FormDescription>
-                          Provide a URL to a high-quality image of the cafe
+                          Shown only while the cafe has no photos in its gallery
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -734,6 +819,7 @@ export default function AdminCafeEditPage() {
                           <FormControl>
                             <Checkbox
                               checked={field.value === true}
+                              disabled={isOwnerMode}
                               onCheckedChange={(checked) => {
                                 // Explicitly convert to boolean to avoid "undefined" text
                                 field.onChange(checked === true);
@@ -907,10 +993,121 @@ export default function AdminCafeEditPage() {
                         </FormItem>
                       )}
                     />
+                    
+                    <FormField
+                      control={form.control}
+                      name="hasOutdoorSeating"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel className="flex items-center">
+                              <Trees className="mr-2 h-4 w-4" />
+                              Outdoor Seating
+                            </FormLabel>
+                            <FormDescription>
+                              Patio or sidewalk seating
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="hasRestroom"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel className="flex items-center">
+                              <Bath className="mr-2 h-4 w-4" />
+                              Restroom
+                            </FormLabel>
+                            <FormDescription>
+                              Customer restroom available
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="isWheelchairAccessible"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel className="flex items-center">
+                              <Accessibility className="mr-2 h-4 w-4" />
+                              Wheelchair Accessible
+                            </FormLabel>
+                            <FormDescription>
+                              Step-free entrance and seating
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="isPetFriendly"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel className="flex items-center">
+                              <PawPrint className="mr-2 h-4 w-4" />
+                              Pet Friendly
+                            </FormLabel>
+                            <FormDescription>
+                              Dogs welcome inside or on the patio
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="hours" className="space-y-4 mt-6">
+              <CafeHoursEditor
+                cafeId={cafeId}
+                hours={cafe.hours}
+                exceptions={cafe.hoursExceptions}
+                mode={mode}
+              />
+            </TabsContent>
+
+            {!isOwnerMode && (
+              <TabsContent value="photos" className="space-y-4 mt-6">
+                <CafePhotoManager cafeId={cafeId} />
+              </TabsContent>
+            )}
           </Tabs>
           
           <div className="mt-6 flex justify-end">
@@ -939,7 +1136,7 @@ export default function AdminCafeEditPage() {
               ) : (
                 <>
                   <Save className="mr-2 h-4 w-4" />
-                  Save Changes
+                  {isOwnerMode ? "Submit for Review" : "Save Changes"}
                 </>
               )}
             </Button>
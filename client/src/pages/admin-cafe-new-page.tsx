@@ -9,7 +9,8 @@ import { useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { CafeWithDetails, insertCafeSchema } from "@shared/schema";
+import { CafeWithDetails, insertCafeSchema, cafeAmenityKeys } from "@shared/schema";
+import { formatAmenity } from "@/lib/utils";
 import { Link, useLocation } from "wouter";
 import { ArrowLeft, CheckCircle, Coffee, Loader2 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -51,6 +52,13 @@ export default function AdminCafeNewPage() {
       googleMapsUrl: "",
       imageUrl: "",
       status: "draft" as const,
+      hasWifi: false,
+      hasPower: false,
+      hasFood: false,
+      hasOutdoorSeating: false,
+      hasRestroom: false,
+      isWheelchairAccessible: false,
+      isPetFriendly: false,
     },
   });
 
@@ -142,7 +150,8 @@ export default function AdminCafeNewPage() {
             Cafe Information
           </CardTitle>
           <CardDescription>
-            Enter the details for a new cafe. Fields marked with * are required.
+            Enter the details for a new cafe. Fields marked with * are required. Adding many cafes? Use the{" "}
+            <Link href="/admin?tab=import" className="underline">bulk import</Link> instead.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -364,23 +373,26 @@ export default function AdminCafeNewPage() {
                     <h3 className="text-lg font-medium">Amenities</h3>
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="hasWifi"
-                        render={({ field }) => (
-                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                            <div className="space-y-0.5">
-                              <FormLabel>WiFi</FormLabel>
-                            </div>
-                            <FormControl>
-                              <Switch
-                                checked={field.value === true}
-                                onCheckedChange={(checked) => field.onChange(checked ? true : null)}
-                              />
-                            </FormControl>
-                          </FormItem>
-                        )}
-                      />
+                      {cafeAmenityKeys.map((amenity) => (
+                        <FormField
+                          key={amenity}
+                          control={form.control}
+                          name={amenity}
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                              <div className="space-y-0.5">
+                                <FormLabel>{formatAmenity(amenity)}</FormLabel>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value === true}
+                                  onCheckedChange={(checked) => field.onChange(checked)}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -1,16 +1,17 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import PlacesAutocomplete from "@/components/places-autocomplete";
 import UserManagement from "@/components/admin/user-management";
+import ClaimsReview from "@/components/admin/claims-review";
+import ProposalsReview from "@/components/admin/proposals-review";
+import ModerationQueue from "@/components/admin/moderation-queue";
+import CafeImport from "@/components/admin/cafe-import";
+import BulkCafeImport from "@/components/admin/bulk-cafe-import";
 import { 
   Loader2, 
-  Database, 
-  MapPin, 
   Coffee, 
   Edit, 
   Trash2, 
@@ -21,7 +22,8 @@ import {
   Wifi,
   Power,
   Utensils,
-  Plus
+  Plus,
+  Download
 } from "lucide-react";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
@@ -36,12 +38,17 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 export default function AdminPage() {
   const { toast } = useToast();
-  const [isImporting, setIsImporting] = useState(false);
-  const [importResults, setImportResults] = useState<any>(null);
-  const [location, setLocation] = useState("Boston, MA");
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<"all" | "draft" | "published" | "archived">("all");
 
@@ -63,36 +70,13 @@ export default function AdminPage() {
     return matchesSearch && matchesStatus;
   });
 
-  const importCafes = async () => {
-    setIsImporting(true);
-    setImportResults(null);
-    
-    try {
-      const response = await apiRequest("POST", "/api/admin/import-cafes", { 
-        location 
-      });
-      
-      const results = await response.json();
-      setImportResults(results);
-      
-      // Invalidate the cafe list cache to reload with new data
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/cafes'] });
-      
-      toast({
-        title: "Import completed",
-        description: `Successfully imported ${results.imported} cafes out of ${results.total}`,
-        variant: "default",
-      });
-    } catch (error) {
-      console.error("Error importing cafes:", error);
-      toast({
-        title: "Import failed",
-        description: "There was an error importing cafes. Please check the console for details.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsImporting(false);
-    }
+  // Exports cover the cafes matching the current status filter and search
+  const exportUrl = (format: "csv" | "geojson" | "kml") => {
+    const params = new URLSearchParams();
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (searchTerm.trim()) params.set("q", searchTerm.trim());
+    const query = params.toString();
+    return `/api/admin/cafes/export/${format}${query ? `?${query}` : ""}`;
   };
 
   const createTestUser = async () => {
@@ -169,98 +153,31 @@ export default function AdminPage() {
       <h1 className="text-3xl font-bold">Admin Dashboard</h1>
       <p className="text-muted-foreground">Import cafe data from Google Places API and manage your application's content.</p>
       
-      <Tabs defaultValue="cafes">
-        <TabsList className="grid w-full grid-cols-3">
+      <Tabs defaultValue={new URLSearchParams(window.location.search).get("tab") || "cafes"}>
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="import">Import & Settings</TabsTrigger>
           <TabsTrigger value="cafes">Manage Cafes</TabsTrigger>
           <TabsTrigger value="users">Manage Users</TabsTrigger>
+          <TabsTrigger value="claims">Owner Claims</TabsTrigger>
+          <TabsTrigger value="proposals">Change Requests</TabsTrigger>
+          <TabsTrigger value="moderation">Moderation</TabsTrigger>
         </TabsList>
         
-        <TabsContent value="import" className="mt-6">
-          <div className="grid gap-6 md:grid-cols-2">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Database className="h-5 w-5" />
-                  Import Cafes
-                </CardTitle>
-                <CardDescription>
-                  Import specialty coffee shop data from Google Places API to populate your application.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="location">Location</Label>
-                    <div className="flex gap-2">
-                      <MapPin className="h-5 w-5 text-muted-foreground" />
-                      <PlacesAutocomplete 
-                        id="location" 
-                        value={location} 
-                        onChange={setLocation} 
-                        placeholder="City, State or Zipcode"
-                      />
-                    </div>
-                    <p className="text-sm text-muted-foreground">Enter a location to search for specialty coffee shops.</p>
-                  </div>
-                </div>
-              </CardContent>
-              <CardFooter className="flex justify-between">
-                <Button variant="outline" onClick={createTestUser}>
-                  Create Test User
-                </Button>
-                <Button 
-                  onClick={importCafes} 
-                  disabled={isImporting}
-                >
-                  {isImporting ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Importing...
-                    </>
-                  ) : "Import Cafes"}
-                </Button>
-              </CardFooter>
-            </Card>
+        <TabsContent value="import" className="mt-6 space-y-6">
+          <CafeImport />
+          <BulkCafeImport />
 
-            {importResults && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Import Results</CardTitle>
-                  <CardDescription>
-                    Successfully imported {importResults.imported} of {importResults.total} cafes.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span>Total cafes found:</span>
-                      <span className="font-medium">{importResults.total}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Successfully imported:</span>
-                      <span className="font-medium">{importResults.imported}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Failed to import:</span>
-                      <span className="font-medium">{importResults.errors?.length || 0}</span>
-                    </div>
-                  </div>
-                  
-                  {importResults.errors?.length > 0 && (
-                    <div className="mt-4">
-                      <h4 className="font-medium mb-2">Errors:</h4>
-                      <div className="bg-muted p-2 rounded-md max-h-40 overflow-y-auto text-sm">
-                        {importResults.errors.map((error: string, idx: number) => (
-                          <p key={idx} className="mb-1">{error}</p>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
-          </div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Settings</CardTitle>
+              <CardDescription>Development helpers.</CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button variant="outline" onClick={createTestUser}>
+                Create Test User
+              </Button>
+            </CardFooter>
+          </Card>
         </TabsContent>
         
         <TabsContent value="cafes" className="mt-6">
@@ -277,11 +194,35 @@ export default function AdminPage() {
                   </CardDescription>
                 </div>
                 
-                <Link href="/admin/cafes/new">
-                  <Button className="flex items-center gap-2">
-                    <Plus className="h-4 w-4" /> Add New Cafe
-                  </Button>
-                </Link>
+                <div className="flex gap-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="flex items-center gap-2">
+                        <Download className="h-4 w-4" /> Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>
+                        {statusFilter === "all" && !searchTerm.trim() ? "All cafes" : "Cafes matching the filters"}
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl("csv")} download>CSV</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl("geojson")} download>GeoJSON</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl("kml")} download>KML</a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Link href="/admin/cafes/new">
+                    <Button className="flex items-center gap-2">
+                      <Plus className="h-4 w-4" /> Add New Cafe
+                    </Button>
+                  </Link>
+                </div>
               </div>
               
               <div className="flex flex-col sm:flex-row gap-4 mt-2">
@@ -467,6 +408,18 @@ export default function AdminPage() {
         <TabsContent value="users" className="mt-6">
           <UserManagement />
         </TabsContent>
+        
+        <TabsContent value="claims" className="mt-6">
+          <ClaimsReview />
+        </TabsContent>
+        
+        <TabsContent value="proposals" className="mt-6">
+          <ProposalsReview />
+        </TabsContent>
+        
+        <TabsContent value="moderation" className="mt-6">
+          <ModerationQueue />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { CafeWithDetails, insertRatingSchema } from "@shared/schema";
+import { CafeWithDetails, Rating, RatingSubScores, insertRatingSchema, cafeAmenityKeys, ratingSubScoreKeys } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
@@ -9,9 +9,26 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, MapPin, Star, Heart } from "lucide-react";
-import { formatBrewingMethod, formatRoastLevel } from "@/lib/utils";
+import { formatAmenity, formatBrewingMethod, formatRoastLevel, formatSubScore } from "@/lib/utils";
+import { WEEKDAY_NAMES, formatTimeOfDay, toZonedTime } from "@shared/opening-hours";
 import RatingInput from "@/components/rating-input";
 import CafeMap from "@/components/cafe-map";
+import OpenStatusLabel from "@/components/open-status-label";
+import ReviewList from "@/components/review-list";
+import CafeClaimPanel from "@/components/cafe-claim-panel";
+import CafePhotoGallery from "@/components/cafe-photo-gallery";
+import ReviewPhotoUploader from "@/components/review-photo-uploader";
+
+// Display the week starting on Monday
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_SUB_SCORES: RatingSubScores = {
+  coffeeScore: null,
+  atmosphereScore: null,
+  workScore: null,
+  serviceScore: null,
+  valueScore: null,
+};
 
 export default function CafeDetailPage() {
   const [, params] = useRoute("/cafe/:id");
@@ -22,6 +39,7 @@ export default function CafeDetailPage() {
   const [activeTab, setActiveTab] = useState("details");
   const [userRating, setUserRating] = useState<number | null>(null);
   const [reviewText, setReviewText] = useState("");
+  const [subScores, setSubScores] = useState<RatingSubScores>(EMPTY_SUB_SCORES);
 
   // Fetch cafe details
   const { data: cafe, isLoading: isLoadingCafe } = useQuery<CafeWithDetails>({
@@ -37,7 +55,7 @@ export default function CafeDetailPage() {
   });
 
   // Fetch user's existing rating for this cafe if logged in
-  const { data: existingRating } = useQuery({
+  const { data: existingRating } = useQuery<Rating | null>({
     queryKey: ["/api/user/ratings", cafeId],
     queryFn: async () => {
       const res = await fetch(`/api/user/ratings?cafeId=${cafeId}`);
@@ -47,14 +65,30 @@ export default function CafeDetailPage() {
       return res.json();
     },
     enabled: !!user && !!cafeId,
-    onSuccess: (data) => {
-      if (data) {
-        setUserRating(data.rating);
-        setReviewText(data.review || "");
-      }
-    },
   });
 
+  // Verified owners of this cafe can reply to its reviews
+  const { data: ownedCafes = [] } = useQuery<CafeWithDetails[]>({
+    queryKey: ["/api/owner/cafes"],
+    enabled: user?.role === "cafe_owner" || user?.role === "admin",
+  });
+  const isCafeOwner = ownedCafes.some((ownedCafe) => ownedCafe.id === cafeId);
+
+  // Prefill the form with the user's existing rating
+  useEffect(() => {
+    if (existingRating) {
+      setUserRating(existingRating.rating);
+      setReviewText(existingRating.review || "");
+      setSubScores({
+        coffeeScore: existingRating.coffeeScore,
+        atmosphereScore: existingRating.atmosphereScore,
+        workScore: existingRating.workScore,
+        serviceScore: existingRating.serviceScore,
+        valueScore: existingRating.valueScore,
+      });
+    }
+  }, [existingRating]);
+
   // Toggle favorite mutation
   const toggleFavoriteMutation = useMutation({
     mutationFn: async () => {
@@ -103,6 +137,7 @@ export default function CafeDetailPage() {
 
       const ratingData = {
         rating: userRating,
+        ...subScores,
         review: reviewText,
       };
 
@@ -114,15 +149,18 @@ export default function CafeDetailPage() {
         throw new Error("Invalid rating data");
       }
 
-      await apiRequest("POST", `/api/cafes/${cafeId}/ratings`, ratingData);
+      // Edit the existing rating rather than creating a new one
+      await apiRequest(existingRating ? "PATCH" : "POST", `/api/cafes/${cafeId}/ratings`, ratingData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cafes", cafeId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user/ratings", cafeId] });
+      // Also refreshes the profile page's ratings list
+      queryClient.invalidateQueries({ queryKey: ["/api/user/ratings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
       
       toast({
-        title: "Rating submitted",
-        description: "Thank you for rating this café!",
+        title: existingRating ? "Review updated" : "Rating submitted",
+        description: existingRating ? "Your review has been updated." : "Thank you for rating this café!",
       });
     },
     onError: (error) => {
@@ -134,6 +172,35 @@ export default function CafeDetailPage() {
     },
   });
 
+  // Delete rating mutation
+  const deleteRatingMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/cafes/${cafeId}/ratings`);
+    },
+    onSuccess: () => {
+      setUserRating(null);
+      setReviewText("");
+      setSubScores(EMPTY_SUB_SCORES);
+      queryClient.setQueryData(["/api/user/ratings", cafeId], null);
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/review-photos`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/ratings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cafes", cafeId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cafes/${cafeId}/reviews`] });
+
+      toast({
+        title: "Review deleted",
+        description: "Your review has been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete review: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoadingCafe) {
     return (
       <div className="h-[calc(100vh-200px)] flex items-center justify-center">
@@ -156,13 +223,17 @@ export default function CafeDetailPage() {
     );
   }
 
+  // Only show exceptions for today or later
+  const today = toZonedTime(new Date()).date;
+  const upcomingExceptions = cafe.hoursExceptions.filter((exception) => exception.date >= today);
+
   return (
     <div className="container mx-auto px-4 py-6">
       {/* Hero section with cafe image */}
       <div className="relative h-80 rounded-xl overflow-hidden mb-6">
         <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent z-10" />
         <img
-          src={cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085"}
+          src={cafe.coverPhoto?.imageUrl || cafe.imageUrl || "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085"}
           alt={cafe.name}
           className="w-full h-full object-cover"
         />
@@ -192,6 +263,8 @@ export default function CafeDetailPage() {
         </div>
       </div>
 
+      <CafePhotoGallery cafeId={cafeId} />
+
       {/* Cafe details */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
         <div className="lg:col-span-2">
@@ -242,18 +315,12 @@ export default function CafeDetailPage() {
                   
                   <h3 className="text-lg font-semibold mb-3">Amenities</h3>
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                    <div className="flex items-center">
-                      <div className={`w-4 h-4 rounded-full mr-2 ${cafe.hasWifi ? 'bg-green-500' : 'bg-gray-300'}`}></div>
-                      <span className="text-gray-700">WiFi</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className={`w-4 h-4 rounded-full mr-2 ${cafe.hasPower ? 'bg-green-500' : 'bg-gray-300'}`}></div>
-                      <span className="text-gray-700">Power Outlets</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className={`w-4 h-4 rounded-full mr-2 ${cafe.hasFood ? 'bg-green-500' : 'bg-gray-300'}`}></div>
-                      <span className="text-gray-700">Food Options</span>
-                    </div>
+                    {cafeAmenityKeys.map((amenity) => (
+                      <div key={amenity} className="flex items-center">
+                        <div className={`w-4 h-4 rounded-full mr-2 ${cafe[amenity] ? 'bg-green-500' : 'bg-gray-300'}`}></div>
+                        <span className="text-gray-700">{formatAmenity(amenity)}</span>
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -280,6 +347,19 @@ export default function CafeDetailPage() {
                     <span className="text-2xl font-bold">{cafe.averageRating?.toFixed(1) || "0.0"}</span>
                     <span className="text-gray-500">({cafe.totalRatings || 0} ratings)</span>
                   </div>
+
+                  {cafe.subScores && ratingSubScoreKeys.some((key) => cafe.subScores![key] !== null) && (
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-6">
+                      {ratingSubScoreKeys.map((key) => (
+                        <div key={key} className="text-center bg-gray-50 rounded-md py-2">
+                          <div className="text-lg font-semibold">
+                            {cafe.subScores![key]?.toFixed(1) ?? "–"}
+                          </div>
+                          <div className="text-xs text-gray-500">{formatSubScore(key)}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   
                   {/* Add your review section */}
                   <div className="bg-gray-50 p-4 rounded-lg mb-6">
@@ -292,6 +372,8 @@ export default function CafeDetailPage() {
                           <RatingInput 
                             rating={userRating || 0}
                             onChange={setUserRating}
+                            subScores={subScores}
+                            onSubScoresChange={setSubScores}
                           />
                         </div>
                         <div className="mb-4">
@@ -302,13 +384,32 @@ export default function CafeDetailPage() {
                             className="w-full px-3 py-2 border rounded-md resize-none h-24 focus:outline-none focus:ring-2 focus:ring-[#A0522D]"
                           />
                         </div>
-                        <Button 
-                          onClick={() => submitRatingMutation.mutate()}
-                          disabled={!userRating || submitRatingMutation.isPending}
-                          className="bg-[#A0522D] hover:bg-[#8B4513]"
-                        >
-                          {submitRatingMutation.isPending ? "Submitting..." : "Submit Rating"}
-                        </Button>
+                        {existingRating && <ReviewPhotoUploader cafeId={cafeId} />}
+                        <div className="flex gap-2">
+                          <Button 
+                            onClick={() => submitRatingMutation.mutate()}
+                            disabled={!userRating || submitRatingMutation.isPending}
+                            className="bg-[#A0522D] hover:bg-[#8B4513]"
+                          >
+                            {submitRatingMutation.isPending
+                              ? "Submitting..."
+                              : existingRating ? "Update review" : "Submit Rating"}
+                          </Button>
+                          {existingRating && (
+                            <Button
+                              variant="outline"
+                              onClick={() => {
+                                if (window.confirm("Are you sure you want to delete your review?")) {
+                                  deleteRatingMutation.mutate();
+                                }
+                              }}
+                              disabled={deleteRatingMutation.isPending}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              {deleteRatingMutation.isPending ? "Deleting..." : "Delete review"}
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ) : (
                       <div>
@@ -320,10 +421,7 @@ export default function CafeDetailPage() {
                     )}
                   </div>
                   
-                  {/* TODO: Add reviews list here when implemented */}
-                  <p className="text-gray-500 text-center py-4">
-                    Rating data is being collected. Reviews will be displayed here soon.
-                  </p>
+                  <ReviewList cafeId={cafeId} canReply={isCafeOwner} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -339,21 +437,48 @@ export default function CafeDetailPage() {
                 {cafe.address}
               </p>
               
-              {/* Placeholder for hours */}
               <div className="space-y-2">
-                <h3 className="font-semibold">Hours</h3>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Monday - Friday</span>
-                  <span>7:00 AM - 7:00 PM</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Saturday</span>
-                  <span>8:00 AM - 8:00 PM</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Sunday</span>
-                  <span>8:00 AM - 6:00 PM</span>
+                <div className="flex justify-between items-center">
+                  <h3 className="font-semibold">Hours</h3>
+                  <OpenStatusLabel cafe={cafe} className="text-sm" />
                 </div>
+                {cafe.hours.length === 0 ? (
+                  <p className="text-gray-500 text-sm">Hours not available</p>
+                ) : (
+                  WEEKDAY_ORDER.map((dayOfWeek) => {
+                    const intervals = cafe.hours.filter((interval) => interval.dayOfWeek === dayOfWeek);
+                    const isToday = toZonedTime(new Date()).dayOfWeek === dayOfWeek;
+                    return (
+                      <div key={dayOfWeek} className={`flex justify-between ${isToday ? "font-semibold" : ""}`}>
+                        <span className="text-gray-600">{WEEKDAY_NAMES[dayOfWeek]}</span>
+                        <span className="text-right">
+                          {intervals.length === 0
+                            ? "Closed"
+                            : intervals
+                                .map((interval) => `${formatTimeOfDay(interval.opensAt)} - ${formatTimeOfDay(interval.closesAt)}`)
+                                .join(", ")}
+                        </span>
+                      </div>
+                    );
+                  })
+                )}
+                {upcomingExceptions.length > 0 && (
+                  <div className="pt-2 border-t mt-2">
+                    <h4 className="text-sm font-semibold mb-1">Special hours</h4>
+                    {upcomingExceptions.map((exception) => (
+                      <div key={exception.id} className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {exception.date}{exception.note ? ` (${exception.note})` : ""}
+                        </span>
+                        <span>
+                          {exception.isClosed || !exception.opensAt || !exception.closesAt
+                            ? "Closed"
+                            : `${formatTimeOfDay(exception.opensAt)} - ${formatTimeOfDay(exception.closesAt)}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
               
               <div className="mt-6">
@@ -367,6 +492,8 @@ export default function CafeDetailPage() {
             </CardContent>
           </Card>
           
+          {user && <CafeClaimPanel cafe={cafe} />}
+          
           <Card className="mt-6">
             <CardContent className="pt-6">
               <h2 className="text-xl font-serif font-bold text-[#8B4513] mb-3">Similar Cafés</h2>
@@ -1,9 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import {
-  CafeWithDetails as BaseCafeWithDetails,
-  CafeFilter,
-} from "@shared/schema";
+import { CafeFilter } from "@shared/schema";
 import SearchFilters from "@/components/search-filters";
 import CafeList from "@/components/cafe-list";
 import CafeMap from "@/components/cafe-map";
@@ -12,16 +9,16 @@ import HomePageSearchBar from "@/components/home-page-search-bar";
 import FilterContainer from "@/components/HomePage/FilterContainer";
 import { User, Search, MapPin, Filter, Loader2, Star, ChevronDown } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
-import useCafesQuery from "@/hooks/use-cafes-query";
+import useCafesQuery, { useCafeMapPins } from "@/hooks/use-cafes-query";
 
-// Extended type for CafeWithDetails to include rating info
-interface CafeWithDetails extends BaseCafeWithDetails {
-  avgRating?: number;
-  ratingCount?: number;
-}
+type SortOption = NonNullable<CafeFilter["sortBy"]>;
 
-// Simple string enum for sort options to match the UI
-type SortOption = "relevance" | "distance" | "rating" | "reviews";
+const sortOptions: { value: SortOption; label: string }[] = [
+  { value: "default", label: "Recommended" },
+  { value: "rating_high", label: "Highest Rated" },
+  { value: "reviews_count", label: "Most Reviewed" },
+  { value: "distance", label: "Distance" },
+];
 
 export default function HomePage() {
   const { user, logoutMutation } = useAuth();
@@ -35,15 +32,11 @@ export default function HomePage() {
   const [filters, setFilters] = useState<CafeFilter>({});
   const [defaultLocation, setDefaultLocation] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortOption, setSortOption] = useState<string>("relevance");
-  const [sortedCafes, setSortedCafes] = useState<CafeWithDetails[]>([]);
+  const [sortOption, setSortOption] = useState<SortOption>("default");
   const [userLocation, setUserLocation] = useState<{
     lat: number;
     lng: number;
   } | null>(null);
-  const [cafeDistances, setCafeDistances] = useState<Map<number, number>>(
-    new Map(),
-  );
   const [distanceUnit, setDistanceUnit] = useState<"mi" | "km">("mi");
   const [sortDropdownOpen, setSortDropdownOpen] = useState(false);
   const [distanceDropdownOpen, setDistanceDropdownOpen] = useState(false);
@@ -69,12 +62,32 @@ export default function HomePage() {
   ];
   type BrewingMethod = (typeof brewingMethods)[number]["value"];
 
-  // Fetch cafes from API with filters
-  const { cafes, isLoading, error, refetch } = useCafesQuery(
-    filters,
+  // Fetch cafes from API with filters; sorting and distances are computed server-side
+  const {
+    cafes,
+    total,
+    interpretation,
+    facets,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useCafesQuery(
+    {
+      ...filters,
+      sortBy: sortOption,
+      lat: userLocation?.lat,
+      lng: userLocation?.lng,
+    },
     searchQuery,
+    true,
   );
 
+  // The map shows every matching cafe, not only the pages loaded in the list
+  const { pins, isLoading: pinsLoading } = useCafeMapPins(filters, searchQuery);
+
   // Refetch cafes when filters change
   useEffect(() => {
     refetch();
@@ -116,48 +129,6 @@ export default function HomePage() {
     }
   }, []);
 
-  // Calculate distances when cafes and user location are available
-  useEffect(() => {
-    if (cafes.length && userLocation) {
-      const distances = new Map<number, number>();
-
-      cafes.forEach((cafe) => {
-        if (cafe.latitude && cafe.longitude) {
-          const distance = calculateDistance(
-            userLocation.lat,
-            userLocation.lng,
-            parseFloat(cafe.latitude),
-            parseFloat(cafe.longitude),
-          );
-          distances.set(cafe.id, distance);
-        }
-      });
-
-      setCafeDistances(distances);
-    }
-  }, [cafes, userLocation]);
-
-  // Helper function to calculate distance between two points using Haversine formula
-  const calculateDistance = (
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number => {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c; // Distance in km
-    return distance;
-  };
-
   // Handler for search input
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -169,58 +140,6 @@ export default function HomePage() {
     setFilters(newFilters);
   };
 
-  // Handle sort selection
-  const handleSort = (option: string) => {
-    // Update sort option state
-    setSortOption(option);
-
-    if (!cafes.length) {
-      setSortedCafes([]);
-      return;
-    }
-
-    let sorted = [...cafes];
-
-    switch (option) {
-      case "distance":
-        sorted.sort((a, b) => {
-          const distA = cafeDistances.get(a.id) || 9999;
-          const distB = cafeDistances.get(b.id) || 9999;
-          return distA - distB;
-        });
-        break;
-      case "rating":
-        sorted.sort((a, b) => {
-          const ratingA = a.avgRating || 0;
-          const ratingB = b.avgRating || 0;
-          return ratingB - ratingA;
-        });
-        break;
-      case "reviews":
-        sorted.sort((a, b) => {
-          const countA = a.ratingCount || 0;
-          const countB = b.ratingCount || 0;
-          return countB - countA;
-        });
-        break;
-      default: // relevance or any other case
-        // Default sorting is handled by the API
-        sorted = [...cafes];
-    }
-
-    setSortedCafes(sorted);
-  };
-
-  // Apply sorting whenever cafes data changes
-  useEffect(() => {
-    if (cafes.length > 0) {
-      handleSort(sortOption);
-    } else {
-      // Clear sorted cafes when filter results are empty
-      setSortedCafes([]);
-    }
-  }, [cafes, cafeDistances]);
-
   const toggleViewMode = () => {
     setViewMode(viewMode === "list" ? "map" : "list");
   };
@@ -232,7 +151,9 @@ export default function HomePage() {
         searchQuery={searchQuery}
         filters={filters}
         defaultLocation={defaultLocation}
+        interpretation={interpretation}
         onSearch={handleSearch}
+        onFilterChange={handleFilterChange}
       />
 
       {/* Main Content */}
@@ -242,6 +163,7 @@ export default function HomePage() {
           <FilterContainer
             filters={filters}
             areas={areas}
+            facets={facets}
             onFilterChange={handleFilterChange}
           />
 
@@ -256,11 +178,8 @@ export default function HomePage() {
                   className="flex items-center gap-2 text-sm text-gray-700 hover:text-[#8B4513] transition-colors"
                 >
                   <span className="font-medium">Sort:</span>
-                  <span className="capitalize">
-                    {sortOption === "relevance" ? "Recommended" : 
-                     sortOption === "rating" ? "Highest Rated" :
-                     sortOption === "reviews" ? "Most Reviewed" :
-                     sortOption}
+                  <span>
+                    {sortOptions.find((option) => option.value === sortOption)?.label}
                   </span>
                   <ChevronDown className={`h-4 w-4 transition-transform ${sortDropdownOpen ? 'rotate-180' : ''}`} />
                 </button>
@@ -268,16 +187,11 @@ export default function HomePage() {
                 {sortDropdownOpen && (
                   <div className="absolute top-full left-0 mt-1 w-40 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
                     <div className="py-1">
-                      {[
-                        { value: "relevance", label: "Recommended" },
-                        { value: "rating", label: "Highest Rated" },
-                        { value: "reviews", label: "Most Reviewed" },
-                        { value: "distance", label: "Distance" }
-                      ].map((option) => (
+                      {sortOptions.map((option) => (
                         <button
                           key={option.value}
                           onClick={() => {
-                            handleSort(option.value);
+                            setSortOption(option.value);
                             setSortDropdownOpen(false);
                           }}
                           className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${
@@ -405,10 +319,13 @@ export default function HomePage() {
               {/* CafeList component */}
               <CafeList
                 key="cafe-list"
-                cafes={sortedCafes.length > 0 ? sortedCafes : cafes}
+                cafes={cafes}
                 isLoading={isLoading}
-                cafeDistances={cafeDistances}
                 distanceUnit={distanceUnit}
+                total={total}
+                hasMore={hasNextPage}
+                isLoadingMore={isFetchingNextPage}
+                onLoadMore={() => fetchNextPage()}
               />
             </div>
 
@@ -416,9 +333,9 @@ export default function HomePage() {
             {viewMode === "map" && (
               <div className="lg:hidden h-[calc(100vh-250px)] bg-white rounded-lg shadow-md overflow-hidden">
                 <CafeMap
-                  key={`cafe-map-mobile-${cafes.length}`}
-                  cafes={sortedCafes.length > 0 ? sortedCafes : cafes}
-                  isLoading={isLoading}
+                  key={`cafe-map-mobile-${pins.length}`}
+                  cafes={pins}
+                  isLoading={pinsLoading}
                   singleLocation={false}
                 />
               </div>
@@ -429,9 +346,9 @@ export default function HomePage() {
           <aside className="w-1/2 shrink-0 hidden lg:block">
             <div className="sticky top-[130px] h-[calc(100vh-150px)] bg-white rounded-lg shadow-md overflow-hidden">
               <CafeMap
-                key={`cafe-map-${cafes.length}`}
-                cafes={sortedCafes.length > 0 ? sortedCafes : cafes}
-                isLoading={isLoading}
+                key={`cafe-map-${pins.length}`}
+                cafes={pins}
+                isLoading={pinsLoading}
                 singleLocation={false}
               />
             </div>
@@ -0,0 +1,6 @@
+import AdminCafeEditPage from "@/pages/admin-cafe-edit-page";
+
+// Owners reuse the admin edit form; their saves become change proposals
+export default function OwnerCafeEditPage() {
+  return <AdminCafeEditPage mode="owner" />;
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
@@ -17,6 +17,7 @@ import {
   Info
 } from "lucide-react";
 import CafeCard from "@/components/cafe-card";
+import UserRatingsList from "@/components/user-ratings-list";
 import { apiRequest } from "@/lib/queryClient";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -160,6 +161,14 @@ export default function ProfilePage() {
     },
   });
 
+  // Cafés the user manages as an owner
+  const canOwnCafes = user?.role === "cafe_owner" || user?.role === "admin";
+  const { data: ownedCafes = [], isLoading: isLoadingOwnedCafes } = useQuery<CafeWithDetails[]>({
+    queryKey: ["/api/owner/cafes"],
+    enabled: canOwnCafes,
+  });
+  const showOwnedCafes = user?.role === "cafe_owner" || ownedCafes.length > 0;
+
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -225,9 +234,10 @@ export default function ProfilePage() {
           {/* Main content */}
           <div className="lg:col-span-3">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-3 mb-6">
+              <TabsList className={`grid w-full ${showOwnedCafes ? "grid-cols-4" : "grid-cols-3"} mb-6`}>
                 <TabsTrigger value="favorites">Favorites</TabsTrigger>
                 <TabsTrigger value="ratings">My Ratings</TabsTrigger>
+                {showOwnedCafes && <TabsTrigger value="owned">My Cafés</TabsTrigger>}
                 <TabsTrigger value="settings">Settings</TabsTrigger>
               </TabsList>
 
@@ -271,13 +281,51 @@ export default function ProfilePage() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="py-12 text-center">
-                      <p className="text-gray-500">Your ratings will appear here once you start rating cafés.</p>
-                    </div>
+                    <UserRatingsList />
                   </CardContent>
                 </Card>
               </TabsContent>
 
+              {showOwnedCafes && (
+                <TabsContent value="owned">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Cafés You Manage</CardTitle>
+                      <CardDescription>
+                        Suggest updates to your listings. Changes go live once an admin approves them.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {isLoadingOwnedCafes ? (
+                        <div className="py-12 flex justify-center">
+                          <Loader2 className="h-8 w-8 animate-spin text-border" />
+                        </div>
+                      ) : ownedCafes.length === 0 ? (
+                        <div className="py-12 text-center">
+                          <p className="text-gray-500">You don't manage any cafés yet. Claim a café from its page to get started.</p>
+                        </div>
+                      ) : (
+                        <div className="divide-y">
+                          {ownedCafes.map((cafe) => (
+                            <div key={cafe.id} className="py-4 flex items-center justify-between gap-4">
+                              <div>
+                                <Link href={`/cafe/${cafe.id}`} className="font-medium hover:underline">
+                                  {cafe.name}
+                                </Link>
+                                <p className="text-sm text-gray-500">{cafe.area}</p>
+                              </div>
+                              <Button variant="outline" asChild>
+                                <Link href={`/owner/cafes/${cafe.id}`}>Edit listing</Link>
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
+
               <TabsContent value="settings">
                 <Card>
                   <CardHeader>
@@ -0,0 +1,54 @@
+import { randomInt, timingSafeEqual } from "crypto";
+import type { CafeClaim, PublicCafeClaim } from "@shared/schema";
+
+// Helpers for the cafe ownership claim workflow. Claimants prove they
+// control the business by entering a one-time code that is either emailed
+// to an address on the cafe's website domain or read out by an admin on a
+// callback to the cafe's listed phone number.
+
+// Wrong codes a claimant may enter before the claim is closed and they
+// have to submit a new one
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
+// Six-digit one-time code
+export function generateClaimCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Compare an entered code with the claim's in constant time, so response
+// times don't give away how many leading digits are right
+export function isClaimCodeMatch(entered: string, expected: string): boolean {
+  const enteredBuffer = Buffer.from(entered.trim());
+  const expectedBuffer = Buffer.from(expected);
+  return enteredBuffer.length === expectedBuffer.length && timingSafeEqual(enteredBuffer, expectedBuffer);
+}
+
+// Hostname of a cafe website without a leading "www.", or null when the
+// website is missing or unparseable
+export function getWebsiteDomain(website: string | null | undefined): string | null {
+  if (!website || website.trim() === "") {
+    return null;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+    return url.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// True when the email is on the website's domain or one of its subdomains
+export function isEmailOnDomain(email: string, domain: string): boolean {
+  const emailDomain = email.split("@").pop()?.toLowerCase().trim();
+  if (!emailDomain) {
+    return false;
+  }
+  return emailDomain === domain || emailDomain.endsWith(`.${domain}`);
+}
+
+// Strip the verification code before a claim is sent to the claimant
+export function toPublicClaim(claim: CafeClaim): PublicCafeClaim {
+  const { verificationCode: _code, ...publicClaim } = claim;
+  return publicClaim;
+}
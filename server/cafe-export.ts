@@ -0,0 +1,148 @@
+import type { Response } from "express";
+import { cafeAmenityKeys, ratingSubScoreKeys, type CafeWithDetails } from "@shared/schema";
+import { neutralizeFormula, toCsvRow } from "./csv";
+
+// Cafe exports for partners and GIS tools, as CSV, a GeoJSON
+// FeatureCollection or KML. Each cafe carries its listing, roast levels,
+// brewing methods and rating aggregates. Output is written to the response
+// one cafe at a time rather than built up as a single string.
+
+export const cafeExportFormats = ["csv", "geojson", "kml"] as const;
+export type CafeExportFormat = typeof cafeExportFormats[number];
+
+type ExportValue = string | number | boolean | null | undefined | string[];
+type ExportColumns = Record<string, (cafe: CafeWithDetails) => ExportValue>;
+
+// CSV column names match the bulk import's, so an export can be edited and
+// imported again
+const publicColumns: ExportColumns = {
+  id: (cafe) => cafe.id,
+  name: (cafe) => cafe.name,
+  description: (cafe) => cafe.description,
+  address: (cafe) => cafe.address,
+  area: (cafe) => cafe.area,
+  latitude: (cafe) => cafe.latitude,
+  longitude: (cafe) => cafe.longitude,
+  priceLevel: (cafe) => cafe.priceLevel,
+  sellsCoffeeBeans: (cafe) => cafe.sellsCoffeeBeans,
+  ...Object.fromEntries(cafeAmenityKeys.map((amenity) => [amenity, (cafe: CafeWithDetails) => cafe[amenity]])),
+  website: (cafe) => cafe.website,
+  phone: (cafe) => cafe.phone,
+  instagramHandle: (cafe) => cafe.instagramHandle,
+  googleMapsUrl: (cafe) => cafe.googleMapsUrl,
+  imageUrl: (cafe) => cafe.coverPhoto?.imageUrl || cafe.imageUrl,
+  roastLevels: (cafe) => cafe.roastLevels,
+  brewingMethods: (cafe) => cafe.brewingMethods,
+  averageRating: (cafe) => cafe.averageRating,
+  totalRatings: (cafe) => cafe.totalRatings,
+  score: (cafe) => cafe.score,
+  ...Object.fromEntries(ratingSubScoreKeys.map((key) => [key, (cafe: CafeWithDetails) => cafe.subScores?.[key]])),
+};
+
+// Only in admin exports
+const adminColumns: ExportColumns = {
+  ...publicColumns,
+  status: (cafe) => cafe.status,
+  externalId: (cafe) => cafe.externalId,
+  googlePlaceId: (cafe) => cafe.googlePlaceId,
+};
+
+function exportProperties(cafe: CafeWithDetails, columns: ExportColumns): Record<string, ExportValue> {
+  return Object.fromEntries(Object.entries(columns).map(([name, value]) => [name, value(cafe) ?? null]));
+}
+
+// Lists become "light; medium", which the bulk import splits again
+function toText(value: ExportValue): string {
+  if (value === null || value === undefined) return "";
+  return Array.isArray(value) ? value.join("; ") : String(value);
+}
+
+// [longitude, latitude], or null when the stored text is not a coordinate
+function coordinates(cafe: CafeWithDetails): [number, number] | null {
+  const lat = parseFloat(cafe.latitude);
+  const lng = parseFloat(cafe.longitude);
+  return isNaN(lat) || isNaN(lng) ? null : [lng, lat];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function writeCsv(res: Response, cafes: CafeWithDetails[], columns: ExportColumns) {
+  res.write(toCsvRow(Object.keys(columns)));
+  for (const cafe of cafes) {
+    res.write(toCsvRow(Object.values(exportProperties(cafe, columns)).map((value) => neutralizeFormula(toText(value)))));
+  }
+}
+
+function writeGeoJson(res: Response, cafes: CafeWithDetails[], columns: ExportColumns) {
+  res.write('{"type":"FeatureCollection","features":[');
+  cafes.forEach((cafe, index) => {
+    const point = coordinates(cafe);
+    const feature = {
+      type: "Feature",
+      id: cafe.id,
+      geometry: point ? { type: "Point", coordinates: point } : null,
+      properties: exportProperties(cafe, columns),
+    };
+    res.write((index > 0 ? "," : "") + JSON.stringify(feature));
+  });
+  res.write("]}");
+}
+
+function writeKml(res: Response, cafes: CafeWithDetails[], columns: ExportColumns) {
+  res.write('<?xml version="1.0" encoding="UTF-8"?>\n');
+  res.write('<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n<name>Peaberry cafes</name>\n');
+  for (const cafe of cafes) {
+    const point = coordinates(cafe);
+    const data = Object.entries(exportProperties(cafe, columns))
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(toText(value))}</value></Data>`)
+      .join("");
+
+    res.write(
+      `<Placemark id="cafe-${cafe.id}">` +
+      `<name>${escapeXml(cafe.name)}</name>` +
+      `<description>${escapeXml(cafe.description)}</description>` +
+      `<address>${escapeXml(cafe.address)}</address>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      (point ? `<Point><coordinates>${point[0]},${point[1]}</coordinates></Point>` : "") +
+      "</Placemark>\n",
+    );
+  }
+  res.write("</Document>\n</kml>\n");
+}
+
+const contentTypes: Record<CafeExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  geojson: "application/geo+json; charset=utf-8",
+  kml: "application/vnd.google-earth.kml+xml; charset=utf-8",
+};
+
+// Send cafes as a file download. Public exports leave out the status and
+// the internal import keys.
+export function sendCafeExport(
+  res: Response,
+  cafes: CafeWithDetails[],
+  format: CafeExportFormat,
+  options: { admin: boolean },
+) {
+  const columns = options.admin ? adminColumns : publicColumns;
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.setHeader("Content-Type", contentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="peaberry-cafes-${date}.${format}"`);
+
+  if (format === "csv") {
+    writeCsv(res, cafes, columns);
+  } else if (format === "geojson") {
+    writeGeoJson(res, cafes, columns);
+  } else {
+    writeKml(res, cafes, columns);
+  }
+  res.end();
+}
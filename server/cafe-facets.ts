@@ -0,0 +1,94 @@
+import {
+  brewingMethodEnum,
+  roastLevelEnum,
+  type CafeFacets,
+  type CafeFilter,
+  type CafeWithDetails,
+} from "@shared/schema";
+
+// Facet counts for the filter sidebar, shared by MemStorage and
+// DatabaseStorage. Each facet is counted over the cafes matching every
+// current filter except its own, so options within a facet can still be
+// switched between. Roast levels and brewing methods in "all" mode keep
+// their own selection, since another option then narrows the results
+// instead of adding to them. DatabaseStorage counts each facet with a
+// GROUP BY query over the same conditions as the listing; MemStorage counts
+// listed cafes with countListedFacets.
+
+export const PRICE_LEVELS = [1, 2, 3, 4];
+export const RATING_BUCKETS = [1, 2, 3, 4, 5];
+
+// The filter field each facet narrows
+const facetFilterFields = {
+  roastLevels: "roastLevels",
+  brewingMethods: "brewingMethods",
+  areas: "area",
+  priceLevels: "priceLevel",
+  ratings: "minRating",
+} as const satisfies Record<keyof CafeFacets, keyof CafeFilter>;
+
+// The filters a facet is counted under
+export function facetFilters(filters: CafeFilter, facet: keyof CafeFacets): CafeFilter {
+  const field = facetFilterFields[facet];
+  const narrowing =
+    (facet === "roastLevels" && filters.roastLevelsMode === "all") ||
+    (facet === "brewingMethods" && filters.brewingMethodsMode === "all");
+  return filters[field] === undefined || narrowing ? filters : { ...filters, [field]: undefined };
+}
+
+// The filters without any facet's field, matching every cafe any facet
+// is counted over
+export function withoutFacetFilters(filters: CafeFilter): CafeFilter {
+  const cleared = Object.fromEntries(Object.values(facetFilterFields).map((field) => [field, undefined]));
+  return { ...filters, ...cleared };
+}
+
+// Every option of a facet with its count, including options no cafe has
+export function facetCounts<T extends string | number>(
+  options: readonly T[],
+  count: (option: T) => number,
+): Record<T, number> {
+  const counts = {} as Record<T, number>;
+  for (const option of options) {
+    counts[option] = count(option);
+  }
+  return counts;
+}
+
+// Count facets over listed cafes. Facets whose filter is not set share one
+// listing.
+export async function countListedFacets(
+  filters: CafeFilter,
+  listCafes: (filters: CafeFilter) => Promise<CafeWithDetails[]>,
+  areas: string[],
+): Promise<CafeFacets> {
+  const listings = new Map<string, Promise<CafeWithDetails[]>>();
+
+  const cafesFor = (facet: keyof CafeFacets): Promise<CafeWithDetails[]> => {
+    const forFacet = facetFilters(filters, facet);
+    const key = JSON.stringify(forFacet);
+    if (!listings.has(key)) {
+      listings.set(key, listCafes(forFacet));
+    }
+    return listings.get(key)!;
+  };
+
+  const [roastCafes, brewingCafes, areaCafes, priceCafes, ratingCafes] = await Promise.all([
+    cafesFor("roastLevels"),
+    cafesFor("brewingMethods"),
+    cafesFor("areas"),
+    cafesFor("priceLevels"),
+    cafesFor("ratings"),
+  ]);
+
+  const countMatching = (cafes: CafeWithDetails[], matches: (cafe: CafeWithDetails) => boolean) =>
+    cafes.filter(matches).length;
+
+  return {
+    roastLevels: facetCounts(roastLevelEnum.enumValues, (level) => countMatching(roastCafes, (cafe) => cafe.roastLevels.includes(level))),
+    brewingMethods: facetCounts(brewingMethodEnum.enumValues, (method) => countMatching(brewingCafes, (cafe) => cafe.brewingMethods.includes(method))),
+    areas: facetCounts(areas, (area) => countMatching(areaCafes, (cafe) => cafe.area === area)),
+    priceLevels: facetCounts(PRICE_LEVELS, (level) => countMatching(priceCafes, (cafe) => cafe.priceLevel === level)),
+    ratings: facetCounts(RATING_BUCKETS, (stars) => countMatching(ratingCafes, (cafe) => (cafe.averageRating || 0) >= stars)),
+  };
+}
@@ -0,0 +1,414 @@
+import {
+  insertCafeSchema,
+  stagedCafeSchema,
+  bulkCafeRowSchema,
+  cafeAmenityKeys,
+  type BulkCafeRow,
+  type BulkImportReport,
+  type Cafe,
+  type CafeImportReport,
+  type CafeImportResult,
+  type ImportCandidate,
+  type ImportCandidateWithDuplicate,
+  type ImportDuplicate,
+  type ImportRowError,
+  type StagedCafe,
+} from "@shared/schema";
+import type { Request, Response } from "express";
+import multer from "multer";
+import type { ZodError } from "zod";
+import { storage, type BulkCafeWrite } from "./storage";
+import { parseCsvRecords, restoreFormula } from "./csv";
+import { haversineDistance } from "./cafe-sorting";
+import { importGooglePlacePhotos } from "./places-import";
+
+// Cafe imports. Google Places results and uploaded files can be staged in
+// an import batch without touching cafes; an admin reviews the candidates,
+// with likely duplicates of existing cafes flagged, and commits the ones to
+// keep as draft cafes. Until they are published, the cafes a batch created
+// can be rolled back in one go. Curators' CSV and JSON files can also be
+// bulk imported directly, updating cafes they imported before.
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+// Any cafe this close to a candidate is flagged, whatever its name
+const SAME_LOCATION_METERS = 25;
+// A cafe with a matching name is flagged within this distance
+const SAME_NAME_METERS = 500;
+
+// Column names as curators might write them, e.g. "Roast Levels" or
+// "price_level", keyed to the field they fill
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+const importFields = new Map(Object.keys(bulkCafeRowSchema.shape).map((field) => [columnKey(field), field]));
+
+const booleanFields = new Set<string>([...cafeAmenityKeys, "sellsCoffeeBeans"]);
+const listFields = new Set(["roastLevels", "brewingMethods"]);
+
+// "Light Medium" or "pour-over" as the enum value, e.g. light_medium
+const toEnumValue = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+// Words too common in cafe names to tell two cafes apart
+const GENERIC_NAME_WORDS = new Set([
+  "the", "and", "cafe", "caffe", "coffee", "co", "company", "roasters", "roastery", "roasting", "espresso", "bar", "shop", "house",
+]);
+
+// Lowercase, accent-free name without punctuation or generic words, so
+// "Café Nero" and "Caffe Nero Coffee Bar" both become "nero"
+function normalizeCafeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !GENERIC_NAME_WORDS.has(word))
+    .join(" ");
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const left = normalizeCafeName(a);
+  const right = normalizeCafeName(b);
+  if (!left || !right) {
+    // Names made only of generic words, e.g. "The Coffee Shop"
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  if (left === right) return true;
+
+  // One name extending the other, e.g. "blue bottle" and "blue bottle chestnut hill"
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  return shorter.length >= 4 && (longer.startsWith(`${shorter} `) || longer.endsWith(` ${shorter}`));
+}
+
+// The existing cafe a candidate most likely duplicates: the same Google
+// place, otherwise the nearest cafe with a matching name or at the same spot
+export function findLikelyDuplicate(candidate: StagedCafe, cafes: Cafe[]): ImportDuplicate | null {
+  if (candidate.googlePlaceId) {
+    const samePlace = cafes.find((cafe) => cafe.googlePlaceId === candidate.googlePlaceId);
+    if (samePlace) {
+      return { cafeId: samePlace.id, name: samePlace.name, reason: "same_place", distanceMeters: null };
+    }
+  }
+
+  const lat = parseFloat(candidate.latitude);
+  const lng = parseFloat(candidate.longitude);
+  if (isNaN(lat) || isNaN(lng)) return null;
+
+  let best: ImportDuplicate | null = null;
+  for (const cafe of cafes) {
+    const cafeLat = parseFloat(cafe.latitude);
+    const cafeLng = parseFloat(cafe.longitude);
+    if (isNaN(cafeLat) || isNaN(cafeLng)) continue;
+
+    const distanceMeters = Math.round(haversineDistance(lat, lng, cafeLat, cafeLng) * 1000);
+    const reason: ImportDuplicate["reason"] | null =
+      distanceMeters <= SAME_NAME_METERS && namesMatch(candidate.name, cafe.name) ? "same_name_nearby"
+      : distanceMeters <= SAME_LOCATION_METERS ? "same_location"
+      : null;
+
+    if (reason && (!best || distanceMeters < best.distanceMeters!)) {
+      best = { cafeId: cafe.id, name: cafe.name, reason, distanceMeters };
+    }
+  }
+  return best;
+}
+
+// A batch's candidates with their likely duplicates among all cafes,
+// drafts and archived ones included
+export async function flagDuplicates(candidates: ImportCandidate[]): Promise<ImportCandidateWithDuplicate[]> {
+  const cafes = await storage.listCafes({ status: undefined });
+  return candidates.map((candidate) => ({
+    ...candidate,
+    // Accepted candidates would only match the cafe they created
+    duplicate: candidate.status === "accepted" ? null : findLikelyDuplicate(candidate.data, cafes),
+  }));
+}
+
+// Parse the "file" field of a multipart request, kept in memory. An
+// oversized file rejects with a multer.MulterError.
+export function receiveImportFile(req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMPORT_FILE_BYTES, files: 1 },
+  }).single("file");
+
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(req.file);
+      }
+    });
+  });
+}
+
+// Convert spreadsheet text such as "yes", "$$" or "light; medium" to the
+// value the schemas expect. Empty cells are left out, and the apostrophe
+// an export puts before formula-like text is dropped.
+function coerceCell(field: string, value: string): unknown {
+  const text = restoreFormula(value).trim();
+  if (text === "") return undefined;
+
+  if (listFields.has(field)) {
+    return text.split(/[;|,]/).map(toEnumValue).filter(Boolean);
+  }
+  if (booleanFields.has(field)) {
+    if (/^(true|yes|y|1)$/i.test(text)) return true;
+    if (/^(false|no|n|0)$/i.test(text)) return false;
+    return text;
+  }
+  if (field === "priceLevel") {
+    return /^\$+$/.test(text) ? text.length : Number(text);
+  }
+  return text;
+}
+
+function normalizeImportRow(row: unknown): unknown {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return row;
+
+  const normalized: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = importFields.get(columnKey(column)) ?? column;
+    if (typeof value === "string") {
+      normalized[field] = coerceCell(field, value);
+    } else if (Array.isArray(value) && listFields.has(field)) {
+      normalized[field] = value.map((item) => (typeof item === "string" ? toEnumValue(item) : item));
+    } else {
+      normalized[field] = value;
+    }
+  }
+  return normalized;
+}
+
+// The cafes in an uploaded file: a CSV with a header row, or a JSON array
+export function readImportFile(file: Express.Multer.File): { rows: unknown[] } | { error: string } {
+  const text = file.buffer.toString("utf8");
+  const isCsv = file.mimetype === "text/csv" || file.originalname.toLowerCase().endsWith(".csv");
+
+  let rows: unknown;
+  if (isCsv) {
+    rows = parseCsvRecords(text);
+  } else {
+    try {
+      rows = JSON.parse(text);
+    } catch (error) {
+      return { error: `Could not read ${file.originalname} as JSON` };
+    }
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { error: "The file must hold at least one cafe" };
+  }
+  return { rows: rows.map(normalizeImportRow) };
+}
+
+function describeIssues(error: ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
+}
+
+// Validate the rows of a file to stage. Either every row is valid and
+// cafes holds them all, or errors lists each invalid row.
+export function parseStagedCafes(rows: unknown[]): { cafes: StagedCafe[]; errors: ImportRowError[] } {
+  const cafes: StagedCafe[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((row, index) => {
+    const result = stagedCafeSchema.safeParse(row);
+    if (result.success) {
+      cafes.push(result.data);
+    } else {
+      errors.push({ row: index + 1, errors: describeIssues(result.error) });
+    }
+  });
+
+  return { cafes: errors.length > 0 ? [] : cafes, errors };
+}
+
+// Validate a bulk file and save its valid rows in one transaction. A row
+// whose externalId belongs to an existing cafe updates that cafe when
+// upsert is on, and is refused otherwise; so is a new cafe with the name
+// and address of an existing one.
+export async function importBulkCafes(rows: unknown[], upsert: boolean): Promise<BulkImportReport> {
+  const errors: ImportRowError[] = [];
+  const valid: { row: number; data: BulkCafeRow }[] = [];
+  const keyRows = new Map<string, number>();
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const result = bulkCafeRowSchema.safeParse(raw);
+    if (!result.success) {
+      errors.push({ row, errors: describeIssues(result.error) });
+      return;
+    }
+
+    const { externalId } = result.data;
+    if (externalId) {
+      const firstRow = keyRows.get(externalId);
+      if (firstRow !== undefined) {
+        errors.push({ row, errors: [`externalId: "${externalId}" is already used by row ${firstRow}`] });
+        return;
+      }
+      keyRows.set(externalId, row);
+    }
+    valid.push({ row, data: result.data });
+  });
+
+  const [keyed, cafes] = await Promise.all([
+    storage.getCafesByExternalIds(Array.from(keyRows.keys())),
+    storage.listCafes({ status: undefined }),
+  ]);
+  const cafesByKey = new Map(keyed.map((cafe) => [cafe.externalId, cafe]));
+  const listingKey = (cafe: { name: string; address: string }) =>
+    `${cafe.name.trim().toLowerCase()}\n${cafe.address.trim().toLowerCase()}`;
+  const listings = new Set(cafes.map(listingKey));
+
+  const writes: BulkCafeWrite[] = [];
+  const writeRows: number[] = [];
+  for (const { row, data } of valid) {
+    const existing = data.externalId ? cafesByKey.get(data.externalId) : undefined;
+    if (existing && !upsert) {
+      errors.push({ row, errors: [`externalId: "${data.externalId}" already belongs to "${existing.name}"`] });
+    } else if (!existing && listings.has(listingKey(data))) {
+      errors.push({ row, errors: [`Cafe "${data.name}" already exists at this address`] });
+    } else {
+      writes.push({ cafeId: existing?.id ?? null, row: data });
+      writeRows.push(row);
+      listings.add(listingKey(data));
+    }
+  }
+
+  // The rows are saved in one transaction, so if the database refuses any
+  // of them none are saved; each is reported with the database's reason
+  let created = 0;
+  let updated = 0;
+  try {
+    ({ created, updated } = await storage.bulkSaveCafes(writes));
+  } catch (error) {
+    console.error("Error saving bulk cafe import:", error);
+    const reason = error instanceof Error ? error.message : String(error);
+    errors.push(...writeRows.map((row) => ({ row, errors: [`Not saved: ${reason}`] })));
+  }
+
+  return {
+    total: rows.length,
+    created,
+    updated,
+    errors: errors.sort((a, b) => a.row - b.row),
+  };
+}
+
+// Create draft cafes for the selected pending candidates and reject the
+// rest of the batch, then mark the batch committed
+export async function commitImportBatch(
+  batchId: number,
+  candidateIds: number[],
+  photosPerCafe: number,
+): Promise<CafeImportReport> {
+  const selected = new Set(candidateIds);
+  const candidates = await storage.getImportCandidates(batchId);
+  const report: CafeImportReport = {
+    total: 0,
+    created: 0,
+    skipped: 0,
+    failed: 0,
+    photos: 0,
+    results: [],
+  };
+
+  for (const candidate of candidates) {
+    if (candidate.status !== "pending") continue;
+
+    if (!selected.has(candidate.id)) {
+      await storage.updateImportCandidate(candidate.id, { status: "rejected" });
+      continue;
+    }
+
+    const result = await commitCandidate(candidate, photosPerCafe);
+    report.total++;
+    report[result.status]++;
+    report.photos += result.photos || 0;
+    report.results.push(result);
+  }
+
+  await storage.markImportBatchCommitted(batchId);
+  return report;
+}
+
+async function commitCandidate(candidate: ImportCandidate, photosPerCafe: number): Promise<CafeImportResult> {
+  const { hours, googlePhotos, ...listing } = candidate.data;
+  const summary = { candidateId: candidate.id, name: listing.name };
+  let cafeId: number | undefined;
+
+  try {
+    // Places are unique; one imported since the batch was staged is kept
+    if (listing.googlePlaceId) {
+      const existing = await storage.getCafeByGooglePlaceId(listing.googlePlaceId);
+      if (existing) {
+        const reason = `Already imported as "${existing.name}"`;
+        await storage.updateImportCandidate(candidate.id, { status: "rejected", error: reason });
+        return { ...summary, status: "skipped", cafeId: existing.id, reason };
+      }
+    }
+
+    const cafe = await storage.createCafe(insertCafeSchema.parse({
+      ...listing,
+      instagramHandle: "",
+      status: "draft",
+    }));
+    cafeId = cafe.id;
+
+    if (hours.length > 0) {
+      await storage.updateCafeHours(cafe.id, hours);
+    }
+
+    // The first photo imported becomes the cover
+    const photos = photosPerCafe > 0 && googlePhotos.length > 0
+      ? await importGooglePlacePhotos(cafe.id, googlePhotos.slice(0, photosPerCafe))
+      : 0;
+
+    await storage.updateImportCandidate(candidate.id, { status: "accepted", cafeId: cafe.id, error: null });
+    return { ...summary, status: "created", cafeId: cafe.id, photos };
+  } catch (error) {
+    console.error(`Error importing cafe ${listing.name}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // Don't leave behind a half-imported draft the candidate doesn't point to
+    if (cafeId !== undefined) {
+      await storage.deleteCafe(cafeId).catch((deleteError) => {
+        console.error(`Error deleting half-imported cafe ${cafeId}:`, deleteError);
+      });
+    }
+    await storage.updateImportCandidate(candidate.id, { status: "rejected", error: reason });
+    return { ...summary, status: "failed", reason };
+  }
+}
+
+// Delete the cafes a committed batch created that are still drafts, and
+// reject their candidates. Cafes that have since been published or
+// archived were curated by someone and are kept.
+export async function rollBackImportBatch(batchId: number): Promise<{ deleted: number; kept: number }> {
+  const candidates = await storage.getImportCandidates(batchId);
+  let deleted = 0;
+  let kept = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.status !== "accepted" || candidate.cafeId === null) continue;
+
+    const cafe = await storage.getCafe(candidate.cafeId);
+    if (cafe && cafe.status !== "draft") {
+      kept++;
+      continue;
+    }
+
+    if (cafe) {
+      if (!(await storage.deleteCafe(cafe.id))) {
+        throw new Error(`Failed to delete cafe ${cafe.id}`);
+      }
+      deleted++;
+    }
+    await storage.updateImportCandidate(candidate.id, { status: "rejected", cafeId: null, error: "Rolled back" });
+  }
+
+  return { deleted, kept };
+}
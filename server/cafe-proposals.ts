@@ -0,0 +1,89 @@
+import type { CafeChangeSet, CafeSchedule, CafeWithDetails } from "@shared/schema";
+
+// Owner edits are stored as change proposals holding only the fields that
+// differ from the live listing. Admins diff them against the current
+// values and approve, which applies them through
+// storage.approveCafeChangeProposal.
+
+type ScalarField = "description" | "website" | "phone" | "instagramHandle" | "imageUrl";
+
+const scalarFields: ScalarField[] = ["description", "website", "phone", "instagramHandle", "imageUrl"];
+
+// Canonical form of a schedule so equal schedules compare equal regardless
+// of row order or ids
+function normalizeSchedule(schedule: CafeSchedule): CafeSchedule {
+  return {
+    hours: schedule.hours
+      .map(({ dayOfWeek, opensAt, closesAt }) => ({ dayOfWeek, opensAt, closesAt }))
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.opensAt.localeCompare(b.opensAt)),
+    exceptions: schedule.exceptions
+      .map(({ date, isClosed, opensAt, closesAt, note }) => ({
+        date,
+        isClosed: isClosed ?? true,
+        opensAt: opensAt || null,
+        closesAt: closesAt || null,
+        note: note || null,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+// The owner-editable fields of a listing, in change set form
+export function getCafeChangeSet(cafe: CafeWithDetails): Required<CafeChangeSet> {
+  return {
+    description: cafe.description,
+    website: cafe.website || "",
+    phone: cafe.phone || "",
+    instagramHandle: cafe.instagramHandle || "",
+    imageUrl: cafe.imageUrl || "",
+    roastLevels: [...cafe.roastLevels].sort() as Required<CafeChangeSet>["roastLevels"],
+    brewingMethods: [...cafe.brewingMethods].sort() as Required<CafeChangeSet>["brewingMethods"],
+    schedule: normalizeSchedule({ hours: cafe.hours, exceptions: cafe.hoursExceptions }),
+  };
+}
+
+// Keep only the proposed fields that differ from the listing
+export function diffCafeChanges(cafe: CafeWithDetails, proposed: CafeChangeSet): CafeChangeSet {
+  const current = getCafeChangeSet(cafe);
+  const changes: CafeChangeSet = {};
+
+  for (const field of scalarFields) {
+    const value = proposed[field];
+    if (value !== undefined && value.trim() !== current[field]) {
+      changes[field] = value.trim();
+    }
+  }
+
+  if (proposed.roastLevels) {
+    const roastLevels = Array.from(new Set(proposed.roastLevels)).sort();
+    if (JSON.stringify(roastLevels) !== JSON.stringify(current.roastLevels)) {
+      changes.roastLevels = roastLevels;
+    }
+  }
+
+  if (proposed.brewingMethods) {
+    const brewingMethods = Array.from(new Set(proposed.brewingMethods)).sort();
+    if (JSON.stringify(brewingMethods) !== JSON.stringify(current.brewingMethods)) {
+      changes.brewingMethods = brewingMethods;
+    }
+  }
+
+  if (proposed.schedule) {
+    const schedule = normalizeSchedule(proposed.schedule);
+    if (JSON.stringify(schedule) !== JSON.stringify(current.schedule)) {
+      changes.schedule = schedule;
+    }
+  }
+
+  return changes;
+}
+
+// Live values of just the fields a proposal touches, for the admin diff
+export function pickCurrentValues(cafe: CafeWithDetails, changes: CafeChangeSet): CafeChangeSet {
+  const current = getCafeChangeSet(cafe);
+  const picked: Record<string, unknown> = {};
+  for (const field of Object.keys(changes) as (keyof CafeChangeSet)[]) {
+    picked[field] = current[field];
+  }
+  return picked as CafeChangeSet;
+}
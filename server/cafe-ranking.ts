@@ -0,0 +1,56 @@
+import type { Rating } from "@shared/schema";
+
+// Ranking score used by the "rating_high" sort and the featured cafes. A raw
+// average lets one 5-star review outrank hundreds of 4.8s, so each cafe's
+// ratings are blended with a prior: the site-wide mean, counted as if it
+// were `priorWeight` extra ratings. With a half-life set, older ratings
+// also count for less, so a cafe's score follows its recent reviews.
+
+export const rankingConfig = {
+  // Number of virtual ratings at the site-wide mean added to every cafe
+  priorWeight: parseFloat(process.env.RANKING_PRIOR_WEIGHT || "") || 10,
+  // Age in days at which a rating counts half; unset disables decay
+  halfLifeDays: parseFloat(process.env.RANKING_HALF_LIFE_DAYS || "") || null,
+};
+
+// Recency-weighted totals of a cafe's ratings
+export interface RatingStats {
+  weightedSum: number;
+  totalWeight: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weight of a rating given its age; always 1 when decay is disabled
+export function recencyWeight(createdAt: Date, now: Date = new Date()): number {
+  if (!rankingConfig.halfLifeDays) {
+    return 1;
+  }
+  const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / rankingConfig.halfLifeDays);
+}
+
+export function getRatingStats(ratings: Pick<Rating, "rating" | "createdAt">[], now: Date = new Date()): RatingStats {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const rating of ratings) {
+    const weight = recencyWeight(rating.createdAt, now);
+    weightedSum += rating.rating * weight;
+    totalWeight += weight;
+  }
+  return { weightedSum, totalWeight };
+}
+
+// Bayesian average of a cafe's ratings, rounded to three decimals so the
+// score is stable enough to page by. Unrated cafes score 0 and sort last.
+export function bayesianScore(stats: RatingStats, priorMean: number | null): number {
+  if (stats.totalWeight <= 0) {
+    return 0;
+  }
+
+  const mean = priorMean ?? stats.weightedSum / stats.totalWeight;
+  const score =
+    (rankingConfig.priorWeight * mean + stats.weightedSum) /
+    (rankingConfig.priorWeight + stats.totalWeight);
+  return Math.round(score * 1000) / 1000;
+}
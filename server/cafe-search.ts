@@ -0,0 +1,144 @@
+import { brewingMethodEnum, roastLevelEnum, type Cafe } from "@shared/schema";
+
+// Cafe text search. DatabaseStorage uses Postgres full-text search with
+// pg_trgm for typos; MemStorage scores cafes here in-process the same way:
+// every search term has to match the name, area, address or description,
+// either as a word (or word prefix) or as a close misspelling, and matches
+// in the name count most.
+
+// Longer queries are cut down to this many terms
+const MAX_SEARCH_TERMS = 8;
+
+// Minimum share of a term's trigrams found in the text for a fuzzy match,
+// pg_trgm's default word_similarity_threshold
+const FUZZY_THRESHOLD = 0.6;
+
+// Words too common to narrow a search; Postgres drops these (and more) as
+// English stop words
+const STOP_WORDS = new Set(["a", "an", "and", "at", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+// Field weights, matching ts_rank's defaults for weights A to D
+const FIELD_WEIGHTS = {
+  name: 1,
+  area: 0.4,
+  address: 0.2,
+  description: 0.1,
+} as const;
+
+// Display names of the roast levels and brewing methods, as suggested and
+// recognized in search queries
+export const roastLevelLabels: Record<typeof roastLevelEnum.enumValues[number], string> = {
+  light: "Light Roast",
+  light_medium: "Light-Medium Roast",
+  medium: "Medium Roast",
+  medium_dark: "Medium-Dark Roast",
+  dark: "Dark Roast",
+  extra_dark: "Extra Dark Roast",
+};
+
+export const brewingMethodLabels: Record<typeof brewingMethodEnum.enumValues[number], string> = {
+  espresso_based: "Espresso",
+  pour_over: "Pour Over",
+  siphon: "Siphon",
+  mixed_drinks: "Mixed Drinks",
+  nitro: "Nitro",
+  cold_brew: "Cold Brew",
+};
+
+// Other ways people type a facet, indexed alongside its label
+export const facetAliases: Record<string, string[]> = {
+  pour_over: ["pourover", "filter coffee"],
+  siphon: ["syphon", "vacuum pot"],
+  espresso_based: ["latte", "cappuccino"],
+};
+
+// Lowercased words of a text with accents removed
+function words(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+// Lowercased, accent-free text with single spaces between words
+export function normalizeSearchText(text: string): string {
+  return words(text).join(" ");
+}
+
+// Search terms of a query; single characters are ignored
+export function searchTerms(query: string): string[] {
+  return words(query)
+    .filter((word) => word.length > 1)
+    .slice(0, MAX_SEARCH_TERMS);
+}
+
+// Trigrams of a word, padded the way pg_trgm pads them
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+// Share of the term's trigrams found in the candidate word
+function trigramSimilarity(termTrigrams: Set<string>, candidate: string): number {
+  const candidateTrigrams = trigrams(candidate);
+  let shared = 0;
+  termTrigrams.forEach((trigram) => {
+    if (candidateTrigrams.has(trigram)) shared++;
+  });
+  return shared / termTrigrams.size;
+}
+
+// How strongly a term matches a text: 1 for a word or word prefix (a rough
+// stand-in for stemming), the trigram similarity for a misspelling, else 0.
+// Adjacent words are also tried joined up, so "pourover" finds "pour-over".
+function termMatch(term: string, textWords: string[], termTrigrams: Set<string>): number {
+  let best = 0;
+  for (let i = 0; i < textWords.length; i++) {
+    const word = textWords[i];
+    if (word.startsWith(term) || (word.length >= 4 && term.startsWith(word))) {
+      return 1;
+    }
+    const candidates = i + 1 < textWords.length ? [word, word + textWords[i + 1]] : [word];
+    for (const candidate of candidates) {
+      const similarity = trigramSimilarity(termTrigrams, candidate);
+      if (similarity >= FUZZY_THRESHOLD && similarity > best) {
+        best = similarity;
+      }
+    }
+  }
+  return best;
+}
+
+// Relevance of a cafe to the search terms, or null when some term matches
+// none of its fields. Each term adds its best weighted field match.
+export function cafeSearchRelevance(
+  cafe: Pick<Cafe, "name" | "area" | "address" | "description">,
+  terms: string[],
+): number | null {
+  const fieldWords = (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).map((field) => ({
+    weight: FIELD_WEIGHTS[field],
+    words: words(cafe[field] || ""),
+  }));
+
+  let relevance = 0;
+  for (const term of terms) {
+    if (STOP_WORDS.has(term)) continue;
+
+    const termTrigrams = trigrams(term);
+    let best = 0;
+    for (const field of fieldWords) {
+      best = Math.max(best, field.weight * termMatch(term, field.words, termTrigrams));
+    }
+    if (best === 0) {
+      return null;
+    }
+    relevance += best;
+  }
+  return relevance;
+}
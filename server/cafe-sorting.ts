@@ -0,0 +1,131 @@
+import { CafeFilter, CafePage, CafePagination, CafeWithDetails } from "@shared/schema";
+
+// Sorting and cursor pagination shared by MemStorage and DatabaseStorage so
+// both return cafes in the same order for every cafeSortOptionsEnum value.
+
+const EARTH_RADIUS_KM = 6371;
+
+type SortBy = CafeFilter["sortBy"];
+
+// Sort key tuple; tuples compare ascending element by element, with nulls
+// (e.g. cafes without a distance) sorting last. The cafe id is always the
+// final element so every key is unique.
+export type CafeSortKey = (number | null)[];
+
+// Great-circle distance between two points in kilometers (Haversine formula)
+export function haversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Set `distance` on each cafe when the filters carry a reference point.
+// Cafes with unparseable coordinates are left without a distance.
+export function applyDistances(cafes: CafeWithDetails[], filters?: CafeFilter): CafeWithDetails[] {
+  if (filters?.lat === undefined || filters?.lng === undefined) {
+    return cafes;
+  }
+
+  const { lat, lng } = filters;
+  return cafes.map((cafe) => {
+    const cafeLat = parseFloat(cafe.latitude);
+    const cafeLng = parseFloat(cafe.longitude);
+    if (isNaN(cafeLat) || isNaN(cafeLng)) {
+      return cafe;
+    }
+    return { ...cafe, distance: haversineDistance(lat, lng, cafeLat, cafeLng) };
+  });
+}
+
+// Build the sort key for a cafe. Descending fields are negated so every
+// key compares ascending. Distance sorting needs distances from
+// applyDistances; without a reference point it degrades to id order.
+export function getSortKey(cafe: CafeWithDetails, sortBy: SortBy = "default"): CafeSortKey {
+  const negate = (value: number | undefined) => (value === undefined ? null : -value);
+
+  switch (sortBy) {
+    case "distance":
+      return [cafe.distance ?? null, cafe.id];
+    case "rating_high":
+      return [negate(cafe.score), -(cafe.totalRatings || 0), cafe.id];
+    case "reviews_count":
+      return [-(cafe.totalRatings || 0), negate(cafe.averageRating), cafe.id];
+    default:
+      // Best match first when the listing is a text search
+      return cafe.relevance === undefined ? [cafe.id] : [-cafe.relevance, cafe.id];
+  }
+}
+
+export function compareSortKeys(a: CafeSortKey, b: CafeSortKey): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i] ?? null;
+    const right = b[i] ?? null;
+    if (left === right) continue;
+    if (left === null) return 1;
+    if (right === null) return -1;
+    return left - right;
+  }
+  return 0;
+}
+
+// Sort cafes for the requested sort option
+export function sortCafes(cafes: CafeWithDetails[], sortBy?: SortBy): CafeWithDetails[] {
+  return [...cafes].sort((a, b) => compareSortKeys(getSortKey(a, sortBy), getSortKey(b, sortBy)));
+}
+
+// Cursors are opaque to clients: the sort option plus the sort key of the
+// last cafe on the previous page, as base64url JSON
+export function encodeCafeCursor(sortBy: SortBy, key: CafeSortKey): string {
+  return Buffer.from(JSON.stringify({ sortBy: sortBy || "default", key })).toString("base64url");
+}
+
+// Decode a cursor, returning null if it is malformed or was issued for a
+// different sort option
+export function decodeCafeCursor(cursor: string, sortBy: SortBy): CafeSortKey | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (decoded?.sortBy !== (sortBy || "default") || !Array.isArray(decoded.key)) {
+      return null;
+    }
+    const key = decoded.key as unknown[];
+    if (!key.every((value) => value === null || typeof value === "number")) {
+      return null;
+    }
+    return key as CafeSortKey;
+  } catch {
+    return null;
+  }
+}
+
+// Return the page of already sorted cafes that follows the cursor. Paging
+// by sort key rather than offset keeps pages stable when cafes are added
+// or removed between requests.
+export function paginateCafes(
+  sortedCafes: CafeWithDetails[],
+  sortBy: SortBy,
+  pagination: CafePagination,
+): CafePage {
+  let remaining = sortedCafes;
+
+  if (pagination.cursor) {
+    const after = decodeCafeCursor(pagination.cursor, sortBy);
+    if (after) {
+      remaining = sortedCafes.filter((cafe) => compareSortKeys(getSortKey(cafe, sortBy), after) > 0);
+    }
+  }
+
+  const cafes = remaining.slice(0, pagination.limit);
+  const hasMore = remaining.length > pagination.limit;
+  const last = cafes[cafes.length - 1];
+
+  return {
+    cafes,
+    nextCursor: hasMore && last ? encodeCafeCursor(sortBy, getSortKey(last, sortBy)) : null,
+    total: sortedCafes.length,
+  };
+}
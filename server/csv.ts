@@ -0,0 +1,87 @@
+// Minimal RFC 4180 CSV reading and writing: comma separated, fields
+// optionally wrapped in double quotes with "" for a literal quote, and CRLF
+// or LF line ends. Quoted fields may span lines.
+
+// Split CSV text into rows of fields. A leading byte order mark and blank
+// lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// Rows keyed by the header row's column names
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ""])),
+  );
+}
+
+// One CSV line, quoting fields that hold a comma, quote or line break.
+// Null and undefined become empty fields.
+export function toCsvRow(values: (string | number | boolean | null | undefined)[]): string {
+  return values
+    .map((value) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",") + "\r\n";
+}
+
+// Spreadsheets run a cell starting with =, +, -, @, a tab or a carriage
+// return as a formula. Such cells are written with a leading apostrophe,
+// which spreadsheets hide; plain numbers such as "-71.06" are left alone.
+export function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text) ? `'${text}` : text;
+}
+
+// Undo neutralizeFormula on a cell read back in
+export function restoreFormula(text: string): string {
+  return /^'[=+\-@\t\r]/.test(text) ? text.slice(1) : text;
+}
@@ -19,6 +19,21 @@ const rateLimitConfig = {
   lockoutDurationMs: 7200000 // 2 hours lockout duration after max attempts reached
 };
 
+/**
+ * Escape text for use in an email's HTML body, so user-supplied names and
+ * messages cannot add markup or links
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Check if an email address has exceeded the rate limit
  * @param email Email address to check
@@ -180,4 +195,168 @@ export async function sendPasswordChangedEmail(email: string, username?: string)
     }
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Send the one-time code that verifies a cafe ownership claim
+ * @param email Business email address on the cafe's website domain
+ * @param cafeName Name of the claimed cafe
+ * @param code Verification code to enter on the cafe page
+ * @returns Promise resolving to boolean indicating success
+ */
+export async function sendClaimVerificationEmail(email: string, cafeName: string, code: string): Promise<boolean> {
+  if (!process.env.SENDGRID_API_KEY) {
+    console.warn('Cannot send claim verification email: SENDGRID_API_KEY not configured');
+    return false;
+  }
+  
+  try {
+    const fromEmail = process.env.EMAIL_FROM || 'noreply@peaberry.com';
+    const appName = 'Peaberry';
+    
+    const msg: MailDataRequired = {
+      to: email,
+      from: fromEmail,
+      subject: `${appName} - Verify your claim for ${cafeName}`,
+      text: `Hello,\n\nSomeone asked to manage the ${appName} listing for ${cafeName} using this email address. Enter the code below on the café page to verify the claim:\n\n${code}\n\nIf you did not make this request, you can ignore this email.\n\nThank you,\n${appName} Team`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8B4513;">Verify Your Café Claim</h2>
+          <p>Hello,</p>
+          <p>Someone asked to manage the ${appName} listing for <strong>${escapeHtml(cafeName)}</strong> using this email address. Enter the code below on the café page to verify the claim:</p>
+          <div style="text-align: center; margin: 30px 0; font-size: 28px; letter-spacing: 6px; font-weight: bold;">${code}</div>
+          <p>If you did not make this request, you can ignore this email.</p>
+          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
+            <p>Thank you,<br>${appName} Team</p>
+          </div>
+        </div>
+      `
+    };
+    
+    await sgMail.send(msg);
+    console.log(`Claim verification email sent successfully to ${email}`);
+    return true;
+  } catch (error: any) {
+    console.error('Error sending claim verification email:', error);
+    if (error && typeof error === 'object' && 'response' in error) {
+      console.error('SendGrid error details:', error.response?.body);
+    }
+    return false;
+  }
+}
+
+/**
+ * Notify a reviewer that the cafe owner replied to their review
+ * @param email Reviewer's email address
+ * @param cafeName Name of the reviewed cafe
+ * @param reply Text of the owner's reply
+ * @param cafeLink Link to the cafe page
+ * @param username Optional username for personalization
+ * @returns Promise resolving to boolean indicating success
+ */
+export async function sendReviewReplyEmail(
+  email: string,
+  cafeName: string,
+  reply: string,
+  cafeLink: string,
+  username?: string,
+): Promise<boolean> {
+  if (!process.env.SENDGRID_API_KEY) {
+    console.warn('Cannot send review reply email: SENDGRID_API_KEY not configured');
+    return false;
+  }
+  
+  try {
+    const fromEmail = process.env.EMAIL_FROM || 'noreply@peaberry.com';
+    const appName = 'Peaberry';
+    const safeCafeName = escapeHtml(cafeName);
+    
+    const msg: MailDataRequired = {
+      to: email,
+      from: fromEmail,
+      subject: `${appName} - ${cafeName} replied to your review`,
+      text: `Hello ${username || ''},\n\nThe owner of ${cafeName} replied to your review:\n\n"${reply}"\n\nSee the conversation here: ${cafeLink}\n\nThank you,\n${appName} Team`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8B4513;">${safeCafeName} Replied to Your Review</h2>
+          <p>Hello ${escapeHtml(username || '')},</p>
+          <p>The owner of <strong>${safeCafeName}</strong> replied to your review:</p>
+          <blockquote style="border-left: 4px solid #A0522D; margin: 20px 0; padding: 10px 16px; color: #444;">${escapeHtml(reply)}</blockquote>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(cafeLink)}" style="background-color: #8B4513; color: white; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block;">View the Reply</a>
+          </div>
+          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
+            <p>Thank you,<br>${appName} Team</p>
+          </div>
+        </div>
+      `
+    };
+    
+    await sgMail.send(msg);
+    console.log(`Review reply email sent successfully to ${email}`);
+    return true;
+  } catch (error: any) {
+    console.error('Error sending review reply email:', error);
+    if (error && typeof error === 'object' && 'response' in error) {
+      console.error('SendGrid error details:', error.response?.body);
+    }
+    return false;
+  }
+}
+
+/**
+ * Warn a reviewer that a moderator acted on one of their reviews
+ * @param email Reviewer's email address
+ * @param cafeName Name of the reviewed cafe
+ * @param action What the moderator did with the review
+ * @param note Optional explanation from the moderator
+ * @param username Optional username for personalization
+ * @returns Promise resolving to boolean indicating success
+ */
+export async function sendReviewWarningEmail(
+  email: string,
+  cafeName: string,
+  action: 'hidden' | 'removed',
+  note?: string,
+  username?: string,
+): Promise<boolean> {
+  if (!process.env.SENDGRID_API_KEY) {
+    console.warn('Cannot send review warning email: SENDGRID_API_KEY not configured');
+    return false;
+  }
+  
+  try {
+    const fromEmail = process.env.EMAIL_FROM || 'noreply@peaberry.com';
+    const appName = 'Peaberry';
+    const noteText = note ? `\n\nModerator's note:\n"${note}"` : '';
+    
+    const msg: MailDataRequired = {
+      to: email,
+      from: fromEmail,
+      subject: `${appName} - Your review of ${cafeName} was ${action}`,
+      text: `Hello ${username || ''},\n\nYour review of ${cafeName} was reported by other users and has been ${action} by our moderators because it breaks our community guidelines.${noteText}\n\nRepeated violations may lead to your account being suspended.\n\nThank you,\n${appName} Team`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8B4513;">Your Review Was ${action === 'hidden' ? 'Hidden' : 'Removed'}</h2>
+          <p>Hello ${escapeHtml(username || '')},</p>
+          <p>Your review of <strong>${escapeHtml(cafeName)}</strong> was reported by other users and has been ${action} by our moderators because it breaks our community guidelines.</p>
+          ${note ? `<p>Moderator's note:</p><blockquote style="border-left: 4px solid #A0522D; margin: 20px 0; padding: 10px 16px; color: #444;">${escapeHtml(note)}</blockquote>` : ''}
+          <p>Repeated violations may lead to your account being suspended.</p>
+          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
+            <p>Thank you,<br>${appName} Team</p>
+          </div>
+        </div>
+      `
+    };
+    
+    await sgMail.send(msg);
+    console.log(`Review warning email sent successfully to ${email}`);
+    return true;
+  } catch (error: any) {
+    console.error('Error sending review warning email:', error);
+    if (error && typeof error === 'object' && 'response' in error) {
+      console.error('SendGrid error details:', error.response?.body);
+    }
+    return false;
+  }
+}
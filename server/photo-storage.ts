@@ -0,0 +1,70 @@
+import express, { type Express } from "express";
+import fs from "fs/promises";
+import path from "path";
+
+// Where uploaded photo files are kept. Only a local disk adapter exists
+// today; an S3 adapter only needs to implement PhotoStorage and be picked
+// in createPhotoStorage.
+export interface PhotoStorage {
+  // Store a file under the key and return the URL clients load it from
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Remove a file; missing files are not an error
+  delete(key: string): Promise<void>;
+  // Mount whatever the adapter needs to serve its files, if anything
+  mount(app: Express): void;
+}
+
+const UPLOADS_URL_PATH = "/uploads";
+
+export class LocalDiskPhotoStorage implements PhotoStorage {
+  constructor(private readonly rootDir: string) {}
+
+  // Keys are generated by the server, but never let one escape the root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid photo key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${UPLOADS_URL_PATH}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  mount(app: Express): void {
+    // Keys are random, so files never change once written
+    app.use(UPLOADS_URL_PATH, express.static(this.rootDir, { immutable: true, maxAge: "30d" }));
+  }
+}
+
+function createPhotoStorage(): PhotoStorage {
+  return new LocalDiskPhotoStorage(process.env.UPLOADS_DIR || path.resolve("uploads"));
+}
+
+export const photoStorage = createPhotoStorage();
+
+// Best-effort removal of files whose rows are already gone; a file left
+// behind is harmless, so failures are only logged
+export async function deletePhotoFiles(keys: string[]): Promise<void> {
+  await Promise.all(
+    keys.map((key) =>
+      photoStorage.delete(key).catch((error) => {
+        console.error(`Error deleting photo file ${key}:`, error);
+      }),
+    ),
+  );
+}
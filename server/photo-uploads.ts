@@ -0,0 +1,141 @@
+import { randomBytes } from "crypto";
+import type { Request, Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import type { CafePhoto, Rating, ReviewPhoto } from "@shared/schema";
+import { storage } from "./storage";
+import { deletePhotoFiles, photoStorage } from "./photo-storage";
+
+// Photo uploads for reviews and cafe listings. Originals are never kept:
+// every photo is re-encoded to a bounded JPEG plus a square thumbnail, which
+// drops all metadata including EXIF GPS coordinates.
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const FULL_SIZE_PX = 1600;
+const THUMBNAIL_SIZE_PX = 320;
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Parse the "photos" field of a multipart request, kept in memory for sharp.
+// Files of other types are skipped; oversized files or more than maxFiles
+// reject with a multer.MulterError.
+export function receivePhotos(req: Request, res: Response, maxFiles: number): Promise<Express.Multer.File[]> {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: maxFiles },
+    fileFilter: (_req, file, callback) => {
+      callback(null, ACCEPTED_TYPES.includes(file.mimetype));
+    },
+  }).array("photos", maxFiles);
+
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve((req.files as Express.Multer.File[] | undefined) || []);
+      }
+    });
+  });
+}
+
+export interface ProcessedPhoto {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+// Resize an upload and build its thumbnail. rotate() bakes the EXIF
+// orientation into the pixels before the metadata is discarded.
+export async function processPhoto(data: Buffer): Promise<ProcessedPhoto> {
+  const { data: image, info } = await sharp(data)
+    .rotate()
+    .resize(FULL_SIZE_PX, FULL_SIZE_PX, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 82 })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await sharp(image)
+    .resize(THUMBNAIL_SIZE_PX, THUMBNAIL_SIZE_PX, { fit: "cover" })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+
+  return { image, thumbnail, width: info.width, height: info.height };
+}
+
+interface StoredPhoto {
+  imageKey: string;
+  imageUrl: string;
+  thumbnailKey: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+// Write a processed photo and its thumbnail under a random name in the folder
+async function storePhoto(folder: string, processed: ProcessedPhoto): Promise<StoredPhoto> {
+  const name = randomBytes(12).toString("hex");
+  const imageKey = `${folder}/${name}.jpg`;
+  const thumbnailKey = `${folder}/${name}-thumb.jpg`;
+
+  const [imageUrl, thumbnailUrl] = await Promise.all([
+    photoStorage.save(imageKey, processed.image, "image/jpeg"),
+    photoStorage.save(thumbnailKey, processed.thumbnail, "image/jpeg"),
+  ]);
+
+  return { imageKey, imageUrl, thumbnailKey, thumbnailUrl, width: processed.width, height: processed.height };
+}
+
+// Store the files, then record them; the files are removed again if the
+// row cannot be written
+async function storeAndRecord<T>(
+  folder: string,
+  processed: ProcessedPhoto,
+  record: (stored: StoredPhoto) => Promise<T>,
+): Promise<T> {
+  const stored = await storePhoto(folder, processed);
+  try {
+    return await record(stored);
+  } catch (error) {
+    await deletePhotoFiles([stored.imageKey, stored.thumbnailKey]);
+    throw error;
+  }
+}
+
+// Store the files of a review's new photos, then record them together. The
+// files are removed again if the rows cannot be written, or, with an
+// undefined result, when the photos would take the review past maxPhotos.
+export async function saveReviewPhotos(
+  rating: Rating,
+  processed: ProcessedPhoto[],
+  maxPhotos: number,
+): Promise<ReviewPhoto[] | undefined> {
+  const stored: StoredPhoto[] = [];
+  const storedKeys = () => stored.flatMap((photo) => [photo.imageKey, photo.thumbnailKey]);
+  try {
+    for (const photo of processed) {
+      stored.push(await storePhoto(`reviews/${rating.id}`, photo));
+    }
+
+    const photos = await storage.createReviewPhotos(
+      stored.map((photo) => ({ ratingId: rating.id, cafeId: rating.cafeId, userId: rating.userId, ...photo })),
+      maxPhotos,
+    );
+    if (!photos) {
+      await deletePhotoFiles(storedKeys());
+    }
+    return photos;
+  } catch (error) {
+    await deletePhotoFiles(storedKeys());
+    throw error;
+  }
+}
+
+export function saveCafePhoto(
+  cafeId: number,
+  processed: ProcessedPhoto,
+  details: Pick<CafePhoto, "caption" | "attribution">,
+): Promise<CafePhoto> {
+  return storeAndRecord(`cafes/${cafeId}`, processed, (stored) =>
+    storage.createCafePhoto({ cafeId, ...stored, ...details }),
+  );
+}
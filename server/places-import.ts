@@ -0,0 +1,212 @@
+import axios from "axios";
+import type { InsertCafeHours, StagedCafe } from "@shared/schema";
+import { processPhoto, saveCafePhoto } from "./photo-uploads";
+
+// Fetching cafe candidates from the Google Places API. Only what Google
+// actually knows is copied: coffee attributes such as roast levels and
+// brewing methods are left for a curator to fill in.
+
+const PLACES_API_URL = "https://maps.googleapis.com/maps/api/place";
+
+type GooglePhoto = StagedCafe["googlePhotos"][number];
+
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    throw new Error("Google Maps API key is not configured");
+  }
+  return apiKey;
+}
+
+// Google's price levels start at 0 for free; ours run from 1 to 4
+function toPriceLevel(googleLevel?: number): number | undefined {
+  if (googleLevel === undefined || googleLevel === null) return undefined;
+  return Math.min(Math.max(googleLevel, 1), 4);
+}
+
+// Search for coffee shops around a location and fetch each one's details.
+// A place whose details cannot be loaded keeps its search result data.
+export async function searchGooglePlaces(location: string): Promise<StagedCafe[]> {
+  const apiKey = getApiKey();
+
+  const searchResponse = await axios.get(`${PLACES_API_URL}/textsearch/json`, {
+    params: {
+      query: `specialty coffee shops in ${location}`,
+      key: apiKey,
+      type: "cafe",
+    },
+  });
+
+  if (searchResponse.data.status !== "OK") {
+    throw new Error(`Places API error: ${searchResponse.data.status}`);
+  }
+
+  const candidates: StagedCafe[] = [];
+  for (const result of searchResponse.data.results) {
+    let place = result;
+    let hours: Omit<InsertCafeHours, "cafeId">[] = [];
+
+    try {
+      const detailsResponse = await axios.get(`${PLACES_API_URL}/details/json`, {
+        params: {
+          place_id: result.place_id,
+          fields: "name,formatted_address,formatted_phone_number,website,url,geometry,photos,price_level,opening_hours",
+          key: apiKey,
+        },
+      });
+
+      if (detailsResponse.data.status === "OK") {
+        place = { ...result, ...detailsResponse.data.result };
+        hours = convertGoogleOpeningHours(place.opening_hours?.periods);
+      }
+    } catch (err) {
+      console.error(`Error fetching details for ${result.name}:`, err);
+    }
+
+    const area = extractArea(place.formatted_address);
+    candidates.push({
+      name: place.name,
+      description: `A specialty coffee shop located in ${area}.`,
+      address: place.formatted_address,
+      area,
+      latitude: String(place.geometry?.location.lat),
+      longitude: String(place.geometry?.location.lng),
+      priceLevel: toPriceLevel(place.price_level),
+      website: place.website || "",
+      phone: place.formatted_phone_number || "",
+      googleMapsUrl: place.url || `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.name + ' ' + place.formatted_address)}`,
+      googlePlaceId: result.place_id,
+      hours,
+      googlePhotos: (place.photos || []).map((photo: any) => ({
+        photoReference: photo.photo_reference,
+        attributions: photo.html_attributions || [],
+      })),
+    });
+
+    // Small delay to avoid hitting API rate limits
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  return candidates;
+}
+
+// Download Google Places photos into a cafe's gallery. Google requires
+// showing the photographer credit, which comes as HTML links and is kept as
+// plain text in the attribution. Returns how many photos were saved.
+export async function importGooglePlacePhotos(cafeId: number, photos: GooglePhoto[]): Promise<number> {
+  const apiKey = getApiKey();
+
+  let imported = 0;
+  for (const photo of photos) {
+    try {
+      const response = await axios.get(`${PLACES_API_URL}/photo`, {
+        params: { photo_reference: photo.photoReference, maxwidth: 1600, key: apiKey },
+        responseType: "arraybuffer",
+      });
+      const processed = await processPhoto(Buffer.from(response.data));
+      const credit = photo.attributions.map((html) => html.replace(/<[^>]*>/g, "").trim()).filter(Boolean);
+      await saveCafePhoto(cafeId, processed, {
+        caption: null,
+        attribution: credit.length > 0 ? `Photo: ${credit.join(", ")} via Google` : "Photo via Google",
+      });
+      imported++;
+    } catch (err) {
+      console.error(`Error importing Google photo for cafe ${cafeId}:`, err);
+    }
+  }
+  return imported;
+}
+
+// Helper to convert Google Places opening_hours.periods into our weekly hours
+// Google uses { open: { day, time: "0700" }, close: { day, time: "1800" } }
+// with day 0 = Sunday, which matches our dayOfWeek convention
+function convertGoogleOpeningHours(periods?: any[]): Omit<InsertCafeHours, 'cafeId'>[] {
+  if (!Array.isArray(periods)) return [];
+  
+  const toTime = (time: string) => `${time.slice(0, 2)}:${time.slice(2, 4)}`;
+  
+  // A single period that opens on Sunday at 0000 with no close means open 24/7
+  if (periods.length === 1 && periods[0].open && !periods[0].close) {
+    return [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+      dayOfWeek,
+      opensAt: "00:00",
+      closesAt: "24:00"
+    }));
+  }
+  
+  return periods
+    .filter(period => period.open?.time && period.close?.time)
+    .map(period => ({
+      dayOfWeek: period.open.day,
+      opensAt: toTime(period.open.time),
+      closesAt: toTime(period.close.time)
+    }));
+}
+
+// Helper to extract area from address
+function extractArea(address: string): string {
+  // If no address, return null to use the city name later
+  if (!address) return "Unknown";
+  
+  // First check for cities in the Greater Boston area
+  const citiesAndTowns = [
+    "Cambridge", "Somerville", "Brookline", "Newton", "Watertown", 
+    "Arlington", "Medford", "Malden", "Everett", "Chelsea", 
+    "Revere", "Winthrop", "Quincy", "Milton", "Dedham",
+    "Needham", "Wellesley", "Weston", "Waltham", "Belmont",
+    "Lexington", "Winchester", "Woburn", "Stoneham", "Melrose"
+  ];
+  
+  for (const city of citiesAndTowns) {
+    if (address.includes(city)) {
+      return city;
+    }
+  }
+  
+  // Next check for Boston areas
+  const bostonNeighborhoods = [
+    "Back Bay", "Beacon Hill", "North End", "South End", "Downtown",
+    "Fenway", "Kenmore", "Allston", "Brighton", "Jamaica Plain",
+    "Roxbury", "Dorchester", "South Boston", "Charlestown", "East Boston",
+    "West Roxbury", "Roslindale", "Hyde Park", "Mattapan", "Mission Hill"
+  ];
+  
+  for (const area of bostonNeighborhoods) {
+    if (address.includes(area)) {
+      return area;
+    }
+  }
+  
+  // Try to extract area from address components
+  // Format is typically: "123 Main St, Neighborhood, Boston, MA 02XXX, USA"
+  const addressParts = address.split(",").map(part => part.trim());
+  
+  // If we have at least 3 parts (street, city/area, state/zip) and Boston is mentioned
+  if (addressParts.length >= 3 && address.includes("Boston")) {
+    // Check if the part before "Boston" might be a area
+    for (let i = 1; i < addressParts.length; i++) {
+      if (addressParts[i].includes("Boston") && i > 0) {
+        const potentialNeighborhood = addressParts[i-1];
+        // If it's not just a street name (typically ends with St, Ave, Rd, etc.)
+        if (!potentialNeighborhood.match(/\b(St|Street|Ave|Avenue|Rd|Road|Dr|Drive|Ln|Lane|Blvd|Boulevard|Hwy|Highway|Way|Place|Pl)\b/i)) {
+          return potentialNeighborhood;
+        }
+      }
+    }
+  }
+  
+  // If it mentions Boston but we couldn't extract a area
+  if (address.includes("Boston")) {
+    return "Boston";
+  }
+  
+  // If we reach here, we couldn't find a specific area
+  // Extract the city from the address if possible
+  const cityMatch = address.match(/([A-Za-z\s]+),\s*[A-Z]{2}/);
+  if (cityMatch && cityMatch[1]) {
+    return cityMatch[1].trim();
+  }
+  
+  // Final fallback
+  return "Unknown";
+}
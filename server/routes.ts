@@ -2,9 +2,20 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, requireAuth, requireAdmin, requireCafeOwnerOrAdmin } from "./auth";
-import { cafeFilterSchema, insertRatingSchema, insertFavoriteSchema, insertCafeSchema, insertCafeRoastLevelSchema, insertCafeBrewingMethodSchema } from "@shared/schema";
+import { cafeFilterSchema, insertRatingSchema, updateRatingSchema, insertFavoriteSchema, insertCafeSchema, insertCafeRoastLevelSchema, insertCafeBrewingMethodSchema, cafeScheduleSchema, cafeAmenityKeys, subScoreFilterKeys, cafePaginationSchema, reviewListQuerySchema, featuredCafesQuerySchema, userRatingListQuerySchema, insertCafeClaimSchema, verifyCafeClaimSchema, reviewDecisionSchema, claimStatusEnum, cafeChangeSetSchema, proposalStatusEnum, reviewReplySchema, reviewReportSchema, moderateReviewSchema, reportStatusEnum, MAX_REVIEW_PHOTOS, MAX_CAFE_PHOTOS, updateCafePhotoSchema, cafePhotoOrderSchema, importPlacesSchema, commitImportSchema, searchSuggestQuerySchema, type CafeFilter, type SearchInterpretation } from "@shared/schema";
+import { decodeCafeCursor } from "./cafe-sorting";
+import { MAX_VERIFICATION_ATTEMPTS, generateClaimCode, getWebsiteDomain, isClaimCodeMatch, isEmailOnDomain, toPublicClaim } from "./cafe-claims";
+import { diffCafeChanges, pickCurrentValues } from "./cafe-proposals";
+import { photoStorage } from "./photo-storage";
+import { processPhoto, receivePhotos, saveCafePhoto, saveReviewPhotos, type ProcessedPhoto } from "./photo-uploads";
+import { searchGooglePlaces } from "./places-import";
+import { cafeExportFormats, sendCafeExport, type CafeExportFormat } from "./cafe-export";
+import { suggestSearch } from "./search-suggest";
+import { applySearchInterpretation, interpretSearchQuery } from "./search-query";
+import { commitImportBatch, flagDuplicates, importBulkCafes, parseStagedCafes, readImportFile, receiveImportFile, rollBackImportBatch } from "./cafe-import";
+import { MulterError } from "multer";
+import { sendClaimVerificationEmail, sendReviewReplyEmail, sendReviewWarningEmail } from "./email-service";
 import { z } from "zod";
-import axios from "axios";
 import { log } from "./vite";
 import bcrypt from 'bcrypt';
 import { randomBytes, scrypt as scryptCallback } from "crypto";
@@ -42,182 +53,171 @@ const scrypt = {
   }
 };
 
-// Google Places API helper function
-async function fetchCafesFromGooglePlaces(location: string = "Boston, MA") {
-  try {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) {
-      throw new Error("Google Maps API key is not configured");
-    }
-
-    // First search for coffee shops in Boston
-    const searchResponse = await axios.get(
-      "https://maps.googleapis.com/maps/api/place/textsearch/json",
-      {
-        params: {
-          query: `specialty coffee shops in ${location}`,
-          key: apiKey,
-          type: "cafe"
-        }
-      }
-    );
-
-    if (searchResponse.data.status !== "OK") {
-      throw new Error(`Places API error: ${searchResponse.data.status}`);
-    }
-
-    // Process and enrich each place
-    const places = searchResponse.data.results;
-    const enrichedPlaces = [];
-
-    for (const place of places) {
-      try {
-        // Get additional details for each place
-        const detailsResponse = await axios.get(
-          "https://maps.googleapis.com/maps/api/place/details/json",
-          {
-            params: {
-              place_id: place.place_id,
-              fields: "name,formatted_address,formatted_phone_number,website,url,geometry,photos,price_level,rating,user_ratings_total,opening_hours,business_status",
-              key: apiKey
-            }
-          }
-        );
-
-        if (detailsResponse.data.status === "OK") {
-          const details = detailsResponse.data.result;
-          
-          // Combine search and details results
-          enrichedPlaces.push({
-            place_id: place.place_id,
-            name: details.name || place.name,
-            address: details.formatted_address || place.formatted_address,
-            lat: details.geometry?.location.lat || place.geometry?.location.lat,
-            lng: details.geometry?.location.lng || place.geometry?.location.lng,
-            phone: details.formatted_phone_number,
-            website: details.website,
-            googleMapsUrl: details.url,
-            rating: details.rating || place.rating,
-            totalRatings: details.user_ratings_total || place.user_ratings_total,
-            price_level: details.price_level,
-            area: extractArea(details.formatted_address || place.formatted_address),
-            description: `A specialty coffee shop located in ${extractArea(details.formatted_address || place.formatted_address)}.`,
-            photos: details.photos ? details.photos.map((photo: any) => ({
-              photo_reference: photo.photo_reference,
-              width: photo.width,
-              height: photo.height
-            })) : []
-          });
-        }
-      } catch (err) {
-        console.error(`Error fetching details for ${place.name}:`, err);
-        // Still include the basic place data even if details fail
-        enrichedPlaces.push({
-          place_id: place.place_id,
-          name: place.name,
-          address: place.formatted_address,
-          lat: place.geometry?.location.lat,
-          lng: place.geometry?.location.lng,
-          area: extractArea(place.formatted_address),
-          description: `A specialty coffee shop located in ${extractArea(place.formatted_address)}.`,
-        });
-      }
-      
-      // Small delay to avoid hitting API rate limits
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-
-    return enrichedPlaces;
-  } catch (error) {
-    console.error("Error fetching cafes from Google Places:", error);
-    throw error;
+// Cafe filters from the query string, unvalidated; parse them with
+// cafeFilterSchema. List parameters are comma separated.
+function cafeFilterParams(query: Request["query"]): Record<string, any> {
+  const filterParams: Record<string, any> = {};
+  
+  if (query.area) {
+    filterParams.area = query.area as string;
   }
-}
-
-// Helper to get the frontend URL based on environment
-function getFrontendUrl(): string {
-  // Get the frontend URL from environment variables
-  // In production, this should be set to the actual domain
-  // In development, default to localhost:3000
-  return process.env.FRONTEND_URL || 'http://localhost:3000';
-}
-
-// Helper to extract area from address
-function extractArea(address: string): string {
-  // If no address, return null to use the city name later
-  if (!address) return "Unknown";
   
-  // First check for cities in the Greater Boston area
-  const citiesAndTowns = [
-    "Cambridge", "Somerville", "Brookline", "Newton", "Watertown", 
-    "Arlington", "Medford", "Malden", "Everett", "Chelsea", 
-    "Revere", "Winthrop", "Quincy", "Milton", "Dedham",
-    "Needham", "Wellesley", "Weston", "Waltham", "Belmont",
-    "Lexington", "Winchester", "Woburn", "Stoneham", "Melrose"
-  ];
+  if (query.roastLevels) {
+    filterParams.roastLevels = (query.roastLevels as string).split(',');
+  }
   
-  for (const city of citiesAndTowns) {
-    if (address.includes(city)) {
-      return city;
-    }
+  if (query.brewingMethods) {
+    filterParams.brewingMethods = (query.brewingMethods as string).split(',');
+  }
+  
+  if (query.roastLevelsMode) {
+    filterParams.roastLevelsMode = query.roastLevelsMode as string;
+  }
+  
+  if (query.brewingMethodsMode) {
+    filterParams.brewingMethodsMode = query.brewingMethodsMode as string;
   }
   
-  // Next check for Boston areas
-  const bostonNeighborhoods = [
-    "Back Bay", "Beacon Hill", "North End", "South End", "Downtown",
-    "Fenway", "Kenmore", "Allston", "Brighton", "Jamaica Plain",
-    "Roxbury", "Dorchester", "South Boston", "Charlestown", "East Boston",
-    "West Roxbury", "Roslindale", "Hyde Park", "Mattapan", "Mission Hill"
-  ];
+  if (query.minRating) {
+    filterParams.minRating = parseInt(query.minRating as string, 10);
+  }
   
-  for (const area of bostonNeighborhoods) {
-    if (address.includes(area)) {
-      return area;
+  for (const filterKey of Object.values(subScoreFilterKeys)) {
+    if (query[filterKey]) {
+      filterParams[filterKey] = parseFloat(query[filterKey] as string);
     }
   }
   
-  // Try to extract area from address components
-  // Format is typically: "123 Main St, Neighborhood, Boston, MA 02XXX, USA"
-  const addressParts = address.split(",").map(part => part.trim());
+  if (query.priceLevel) {
+    filterParams.priceLevel = parseInt(query.priceLevel as string, 10);
+  }
   
-  // If we have at least 3 parts (street, city/area, state/zip) and Boston is mentioned
-  if (addressParts.length >= 3 && address.includes("Boston")) {
-    // Check if the part before "Boston" might be a area
-    for (let i = 1; i < addressParts.length; i++) {
-      if (addressParts[i].includes("Boston") && i > 0) {
-        const potentialNeighborhood = addressParts[i-1];
-        // If it's not just a street name (typically ends with St, Ave, Rd, etc.)
-        if (!potentialNeighborhood.match(/\b(St|Street|Ave|Avenue|Rd|Road|Dr|Drive|Ln|Lane|Blvd|Boulevard|Hwy|Highway|Way|Place|Pl)\b/i)) {
-          return potentialNeighborhood;
-        }
-      }
+  if (query.sellsCoffeeBeans) {
+    filterParams.sellsCoffeeBeans = query.sellsCoffeeBeans === 'true';
+  }
+  
+  for (const amenity of cafeAmenityKeys) {
+    if (query[amenity]) {
+      filterParams[amenity] = query[amenity] === 'true';
     }
   }
   
-  // If it mentions Boston but we couldn't extract a area
-  if (address.includes("Boston")) {
-    return "Boston";
+  if (query.sortBy) {
+    filterParams.sortBy = query.sortBy as string;
+  }
+  
+  if (query.lat && query.lng) {
+    filterParams.lat = parseFloat(query.lat as string);
+    filterParams.lng = parseFloat(query.lng as string);
   }
   
-  // If we reach here, we couldn't find a specific area
-  // Extract the city from the address if possible
-  const cityMatch = address.match(/([A-Za-z\s]+),\s*[A-Z]{2}/);
-  if (cityMatch && cityMatch[1]) {
-    return cityMatch[1].trim();
+  if (query.openNow) {
+    filterParams.openNow = query.openNow === 'true';
   }
   
-  // Final fallback
-  return "Unknown";
+  if (query.openAt) {
+    filterParams.openAt = query.openAt as string;
+  }
+
+  if (query.q) {
+    filterParams.query = query.q as string;
+  }
+
+  return filterParams;
+}
+
+// Filters of a public cafe listing, limited to published cafes. Areas,
+// roasts, brewing methods, prices and amenities are read out of the search
+// text; the rest of it stays a text search. Null when the filters are
+// invalid.
+async function publicCafeFilters(
+  query: Request["query"],
+): Promise<{ filters: CafeFilter; interpretation?: SearchInterpretation } | null> {
+  let filterParams = cafeFilterParams(query);
+
+  let interpretation: SearchInterpretation | undefined;
+  if (filterParams.query && filterParams.query.trim() !== "") {
+    interpretation = interpretSearchQuery(filterParams.query, await storage.listAreas());
+    filterParams = applySearchInterpretation(filterParams, interpretation);
+  }
+
+  const filterResult = cafeFilterSchema.safeParse(filterParams);
+  if (!filterResult.success) {
+    return null;
+  }
+
+  const filters = Object.keys(filterParams).length > 0 ? filterResult.data : {};
+  return { filters: { ...filters, status: "published" }, interpretation };
+}
+
+// Admins can manage any cafe; owners only the cafes they are linked to
+async function canManageCafe(user: User, cafeId: number): Promise<boolean> {
+  return user.role === "admin" || (await storage.isCafeOwner(user.id, cafeId));
+}
+
+// Receive the "file" of an import upload. Responds with a 400 and returns
+// null when there is none or it is too large.
+async function receiveUploadedImportFile(req: Request, res: Response): Promise<Express.Multer.File | null> {
+  let file: Express.Multer.File | undefined;
+  try {
+    file = await receiveImportFile(req, res);
+  } catch (error) {
+    if (error instanceof MulterError) {
+      res.status(400).json({ error: `Invalid upload: ${error.message}` });
+      return null;
+    }
+    throw error;
+  }
+
+  if (!file) {
+    res.status(400).json({ error: "Upload a CSV or JSON file of cafes" });
+    return null;
+  }
+  return file;
 }
 
-// Helper to shuffle an array
-function shuffleArray<T>(array: T[]): T[] {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+// Receive the "photos" of a multipart request and process them all before
+// anything is stored, so one unreadable file does not leave the upload half
+// done. Responds with a 400 and returns null when the upload is invalid.
+async function receiveProcessedPhotos(
+  req: Request,
+  res: Response,
+  maxFiles: number,
+): Promise<ProcessedPhoto[] | null> {
+  let files: Express.Multer.File[];
+  try {
+    files = await receivePhotos(req, res, maxFiles);
+  } catch (error) {
+    if (error instanceof MulterError) {
+      res.status(400).json({ error: `Invalid upload: ${error.message}` });
+      return null;
+    }
+    throw error;
+  }
+
+  if (files.length === 0) {
+    res.status(400).json({ error: "Upload at least one JPEG, PNG or WebP photo" });
+    return null;
+  }
+
+  const processed: ProcessedPhoto[] = [];
+  for (const file of files) {
+    try {
+      processed.push(await processPhoto(file.buffer));
+    } catch (error) {
+      res.status(400).json({ error: `Could not read ${file.originalname} as an image` });
+      return null;
+    }
   }
-  return newArray;
+  return processed;
+}
+
+// Helper to get the frontend URL based on environment
+function getFrontendUrl(): string {
+  // Get the frontend URL from environment variables
+  // In production, this should be set to the actual domain
+  // In development, default to localhost:3000
+  return process.env.FRONTEND_URL || 'http://localhost:3000';
 }
 
 // Setup periodic synchronization with Firebase Auth
@@ -404,6 +404,9 @@ async function syncFirebaseUsers(): Promise<{ added: number; updated: number; de
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
   setupAuth(app);
+
+  // Serve uploaded review photos when they are kept on local disk
+  photoStorage.mount(app);
   
   // Setup periodic Firebase sync job (every 24 hours)
   setupPeriodicFirebaseSync();
@@ -509,72 +512,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user?.id;
       
-      // Handle search query
-      if (req.query.q) {
-        const query = req.query.q as string;
-        const cafes = await storage.searchCafes(query, userId);
-        return res.json(cafes);
-      }
-      
-      // Handle filters
-      const filterParams: Record<string, any> = {};
+      // Parse cursor pagination
+      const paginationResult = cafePaginationSchema.safeParse({
+        cursor: req.query.cursor ? req.query.cursor as string : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
       
-      if (req.query.area) {
-        filterParams.area = req.query.area as string;
+      if (!paginationResult.success) {
+        return res.status(400).json({ error: "Invalid pagination parameters" });
       }
       
-      if (req.query.roastLevels) {
-        filterParams.roastLevels = (req.query.roastLevels as string).split(',');
-      }
+      const pagination = paginationResult.data;
       
-      if (req.query.brewingMethods) {
-        filterParams.brewingMethods = (req.query.brewingMethods as string).split(',');
+      // Handle filters, including the text search, always enforcing
+      // published status for the public cafe listing
+      const listing = await publicCafeFilters(req.query);
+      if (!listing) {
+        return res.status(400).json({ error: "Invalid filter parameters" });
       }
       
-      if (req.query.minRating) {
-        filterParams.minRating = parseInt(req.query.minRating as string, 10);
-      }
+      const { filters, interpretation } = listing;
       
-      if (req.query.priceLevel) {
-        filterParams.priceLevel = parseInt(req.query.priceLevel as string, 10);
-      }
+      console.log("Public API filtering cafes with status:", filters.status);
       
-      if (req.query.hasWifi) {
-        filterParams.hasWifi = req.query.hasWifi === 'true';
+      // Cursors are only valid for the sort option they were issued under
+      if (pagination.cursor && !decodeCafeCursor(pagination.cursor, filters.sortBy)) {
+        return res.status(400).json({ error: "Invalid cursor" });
       }
       
-      if (req.query.hasPower) {
-        filterParams.hasPower = req.query.hasPower === 'true';
-      }
+      const page = await storage.listCafesPage(filters, pagination, userId);
       
-      if (req.query.hasFood) {
-        filterParams.hasFood = req.query.hasFood === 'true';
-      }
-
-      // Parse and validate filters
-      const filterResult = cafeFilterSchema.safeParse(filterParams);
+      // Facet counts for the filter sidebar, with the first page only
+      const facets = req.query.facets === "true" && !pagination.cursor
+        ? await storage.countCafeFacets(filters)
+        : undefined;
       
+      res.json({ ...page, ...(interpretation && { interpretation }), ...(facets && { facets }) });
+    } catch (error) {
+      console.error("Error fetching cafes:", error);
+      res.status(500).json({ error: "An error occurred while fetching cafes" });
+    }
+  });
+
+  // Published cafes as a GeoJSON download, narrowed by the same filters as
+  // the cafe listing
+  app.get("/api/cafes/export/geojson", async (req, res) => {
+    try {
+      const filterResult = cafeFilterSchema.safeParse(cafeFilterParams(req.query));
       if (!filterResult.success) {
+        return res.status(400).json({ error: "Invalid filter parameters", details: filterResult.error.format() });
+      }
+
+      const cafes = await storage.listCafes({ ...filterResult.data, status: "published" });
+      sendCafeExport(res, cafes, "geojson", { admin: false });
+    } catch (error) {
+      console.error("Error exporting cafes:", error);
+      res.status(500).json({ error: "Failed to export cafes" });
+    }
+  });
+
+  // Map pins for every cafe matching the listing's filters, so the map is
+  // not limited to the pages loaded so far. Registered before
+  // /api/cafes/:id so "map" is not parsed as an id.
+  app.get("/api/cafes/map", async (req, res) => {
+    try {
+      const listing = await publicCafeFilters(req.query);
+      if (!listing) {
         return res.status(400).json({ error: "Invalid filter parameters" });
       }
-      
-      // Add status filter to only show published cafes
-      let filters = Object.keys(filterParams).length > 0 ? filterResult.data : {};
-      
-      // Always enforce published status for public cafe listing
-      filters = {
-        ...filters,
-        status: "published"
-      };
-      
-      console.log("Public API filtering cafes with status:", filters.status);
-      
-      const cafes = await storage.listCafes(filters, userId);
-      
-      res.json(cafes);
+
+      res.json(await storage.listCafeMapPins(listing.filters, req.user?.id));
     } catch (error) {
-      console.error("Error fetching cafes:", error);
-      res.status(500).json({ error: "An error occurred while fetching cafes" });
+      console.error("Error fetching cafe map pins:", error);
+      res.status(500).json({ error: "An error occurred while fetching cafe map pins" });
+    }
+  });
+
+  // Highest ranked published cafes, optionally within one area. Registered
+  // before /api/cafes/:id so "featured" is not parsed as an id.
+  app.get("/api/cafes/featured", async (req, res) => {
+    try {
+      const queryResult = featuredCafesQuerySchema.safeParse({
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+        area: req.query.area || undefined,
+      });
+
+      if (!queryResult.success) {
+        return res.status(400).json({ error: "Invalid featured cafe parameters" });
+      }
+
+      const { limit, area } = queryResult.data;
+      const cafes = await storage.listCafes(
+        { status: "published", area, sortBy: "rating_high" },
+        req.user?.id,
+      );
+
+      // Only cafes with ratings have earned a spot
+      res.json(cafes.filter((cafe) => (cafe.totalRatings || 0) > 0).slice(0, limit));
+    } catch (error) {
+      console.error("Error fetching featured cafes:", error);
+      res.status(500).json({ error: "An error occurred while fetching featured cafes" });
     }
   });
 
@@ -609,6 +646,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search-as-you-type suggestions for the home page search bar
+  app.get("/api/search/suggest", async (req, res) => {
+    try {
+      const queryResult = searchSuggestQuerySchema.safeParse({
+        q: req.query.q,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      if (!queryResult.success) {
+        return res.status(400).json({ error: "Invalid suggestion query", details: queryResult.error.format() });
+      }
+
+      res.json(await suggestSearch(queryResult.data));
+    } catch (error) {
+      console.error("Error fetching search suggestions:", error);
+      res.status(500).json({ error: "An error occurred while fetching suggestions" });
+    }
+  });
+
   // Rating routes
   app.post("/api/cafes/:id/ratings", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -637,194 +693,908 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid rating data", details: validationResult.error });
       }
 
+      // Submitting again replaces the caller's existing rating
+      const existingRating = await storage.getUserRatingForCafe(req.user.id, cafeId);
       const rating = await storage.createRating(validationResult.data);
-      res.status(201).json(rating);
+      res.status(existingRating ? 200 : 201).json(rating);
     } catch (error) {
+      console.error("Error saving rating:", error);
       res.status(500).json({ error: "An error occurred while creating the rating" });
     }
   });
 
-  app.get("/api/cafes/:id/ratings", async (req, res) => {
+  // Edit the caller's own rating for a cafe
+  app.patch("/api/cafes/:id/ratings", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
     try {
       const cafeId = parseInt(req.params.id, 10);
       if (isNaN(cafeId)) {
         return res.status(400).json({ error: "Invalid cafe ID" });
       }
 
-      const ratings = await storage.getCafeRatings(cafeId);
-      res.json(ratings);
+      const validationResult = updateRatingSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid rating data", details: validationResult.error });
+      }
+
+      const existingRating = await storage.getUserRatingForCafe(req.user.id, cafeId);
+      if (!existingRating) {
+        return res.status(404).json({ error: "Rating not found" });
+      }
+
+      const rating = await storage.updateRating(existingRating.id, validationResult.data);
+      res.json(rating);
     } catch (error) {
-      res.status(500).json({ error: "An error occurred while fetching ratings" });
+      console.error("Error updating rating:", error);
+      res.status(500).json({ error: "An error occurred while updating the rating" });
     }
   });
 
-  app.get("/api/user/ratings", async (req, res) => {
+  // Delete the caller's own rating for a cafe
+  app.delete("/api/cafes/:id/ratings", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
     try {
-      const cafeId = req.query.cafeId ? parseInt(req.query.cafeId as string, 10) : undefined;
-      
-      if (cafeId) {
-        const rating = await storage.getUserRatingForCafe(req.user.id, cafeId);
-        return res.json(rating || null);
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
       }
-      
-      res.status(400).json({ error: "cafeId parameter required" });
+
+      const existingRating = await storage.getUserRatingForCafe(req.user.id, cafeId);
+      if (!existingRating) {
+        return res.status(404).json({ error: "Rating not found" });
+      }
+
+      await storage.deleteRating(existingRating.id);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "An error occurred while fetching user ratings" });
+      console.error("Error deleting rating:", error);
+      res.status(500).json({ error: "An error occurred while deleting the rating" });
     }
   });
 
-  // Favorite routes
-  app.post("/api/favorites", async (req, res) => {
+  // Photos attached to the caller's own rating for a cafe
+  app.get("/api/cafes/:id/ratings/photos", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
     try {
-      const favoriteData = {
-        ...req.body,
-        userId: req.user.id
-      };
-
-      const validationResult = insertFavoriteSchema.safeParse(favoriteData);
-      if (!validationResult.success) {
-        return res.status(400).json({ error: "Invalid favorite data", details: validationResult.error });
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
       }
 
-      const favorite = await storage.createFavorite(validationResult.data);
-      res.status(201).json(favorite);
+      const rating = await storage.getUserRatingForCafe(req.user.id, cafeId);
+      res.json(rating ? await storage.getReviewPhotos(rating.id) : []);
     } catch (error) {
-      res.status(500).json({ error: "An error occurred while creating the favorite" });
+      console.error("Error fetching review photos:", error);
+      res.status(500).json({ error: "An error occurred while fetching photos" });
     }
   });
 
-  app.delete("/api/favorites/:cafeId", async (req, res) => {
+  // Attach photos to the caller's own rating; multipart field "photos"
+  app.post("/api/cafes/:id/ratings/photos", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
     try {
-      const cafeId = parseInt(req.params.cafeId, 10);
+      const cafeId = parseInt(req.params.id, 10);
       if (isNaN(cafeId)) {
         return res.status(400).json({ error: "Invalid cafe ID" });
       }
 
-      const success = await storage.deleteFavorite(req.user.id, cafeId);
-      if (success) {
-        res.status(204).send();
-      } else {
-        res.status(404).json({ error: "Favorite not found" });
+      const rating = await storage.getUserRatingForCafe(req.user.id, cafeId);
+      if (!rating) {
+        return res.status(404).json({ error: "Rate this cafe before adding photos" });
+      }
+
+      const processed = await receiveProcessedPhotos(req, res, MAX_REVIEW_PHOTOS);
+      if (!processed) {
+        return;
+      }
+
+      // The limit is checked as the photos are recorded, so concurrent
+      // uploads to one review cannot both get past it
+      const photos = await saveReviewPhotos(rating, processed, MAX_REVIEW_PHOTOS);
+      if (!photos) {
+        const attached = (await storage.getReviewPhotos(rating.id)).length;
+        return res.status(400).json({
+          error: `A review can have at most ${MAX_REVIEW_PHOTOS} photos (${attached} already attached)`,
+        });
       }
+
+      res.status(201).json(photos);
     } catch (error) {
-      res.status(500).json({ error: "An error occurred while removing the favorite" });
+      console.error("Error uploading review photos:", error);
+      res.status(500).json({ error: "An error occurred while uploading photos" });
     }
   });
 
-  app.get("/api/favorites", async (req, res) => {
+  // Remove a photo from the caller's own rating
+  app.delete("/api/cafes/:id/ratings/photos/:photoId", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
     try {
-      const favorites = await storage.getUserFavorites(req.user.id);
-      res.json(favorites);
+      const cafeId = parseInt(req.params.id, 10);
+      const photoId = parseInt(req.params.photoId, 10);
+      if (isNaN(cafeId) || isNaN(photoId)) {
+        return res.status(400).json({ error: "Invalid cafe or photo ID" });
+      }
+
+      const photo = await storage.getReviewPhoto(photoId);
+      if (!photo || photo.cafeId !== cafeId || photo.userId !== req.user.id) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      await storage.deleteReviewPhoto(photoId);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "An error occurred while fetching favorites" });
+      console.error("Error deleting review photo:", error);
+      res.status(500).json({ error: "An error occurred while deleting the photo" });
     }
   });
 
-  // Admin endpoint to import cafes from Google Places API
-  app.post("/api/admin/import-cafes", requireAdmin, async (req, res) => {
+  // The cafe's own gallery, in the order admins arranged it
+  app.get("/api/cafes/:id/photos", async (req, res) => {
     try {
-      // Only admin users can access this endpoint
-      
-      const location = req.body.location || "Boston, MA";
-      log(`Importing cafes from Google Places for location: ${location}`, "routes");
-      
-      // Fetch places from Google Places API
-      const places = await fetchCafesFromGooglePlaces(location);
-      log(`Found ${places.length} cafes from Google Places`, "routes");
-      
-      // Track results
-      const results = {
-        total: places.length,
-        imported: 0,
-        errors: [] as string[]
-      };
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
 
-      // Import each place into our database
-      for (const place of places) {
-        try {
-          // Map Google Place data to our cafe schema
-          const cafeData = {
-            name: place.name,
-            description: place.description || `A specialty coffee shop in ${place.area || 'Boston'}.`,
-            address: place.address,
-            area: place.area || "Boston",
-            website: place.website || "",
-            phone: place.phone || "",
-            latitude: place.lat.toString(),
-            longitude: place.lng.toString(),
-            imageUrl: "",  // We'll handle images separately
-            instagramHandle: "",
-            googleMapsUrl: place.googleMapsUrl || `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.name + ' ' + place.address)}`,
-            status: "draft"  // Set imported cafés to draft by default so they require admin review
-          };
-          
-          // Validate against our schema
-          const validatedData = insertCafeSchema.parse(cafeData);
-          
-          // Add to database
-          const cafe = await storage.createCafe(validatedData);
-          
-          // Add random roast levels and brewing methods to make data more interesting
-          const roastLevels: Array<"light" | "medium" | "dark"> = ["light", "medium", "dark"];
-          const brewingMethods: Array<"pour_over" | "espresso" | "aeropress" | "french_press" | "siphon"> = ["pour_over", "espresso", "aeropress", "french_press", "siphon"];
-          
-          // Add 1-3 random roast levels
-          const numRoastLevels = Math.floor(Math.random() * 3) + 1;
-          const selectedRoastLevels = shuffleArray([...roastLevels]).slice(0, numRoastLevels);
-          
-          for (const level of selectedRoastLevels) {
-            await storage.addCafeRoastLevel({
-              cafeId: cafe.id,
-              roastLevel: level
-            });
-          }
-          
-          // Add 1-4 random brewing methods
-          const numBrewingMethods = Math.floor(Math.random() * 4) + 1;
-          const selectedBrewingMethods = shuffleArray([...brewingMethods]).slice(0, numBrewingMethods);
-          
-          for (const method of selectedBrewingMethods) {
-            await storage.addCafeBrewingMethod({
-              cafeId: cafe.id,
-              brewingMethod: method
-            });
-          }
-          
-          results.imported++;
-        } catch (error) {
-          console.error(`Error importing cafe ${place.name}:`, error);
-          results.errors.push(`Failed to import ${place.name}: ${error}`);
-        }
+      const photos = await storage.getCafePhotos(cafeId);
+      res.json(photos);
+    } catch (error) {
+      console.error("Error fetching cafe photos:", error);
+      res.status(500).json({ error: "An error occurred while fetching photos" });
+    }
+  });
+
+  // Photos from a cafe's reviews, newest first
+  app.get("/api/cafes/:id/review-photos", async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
       }
-      
-      res.json(results);
+
+      const photos = await storage.listCafeReviewPhotos(cafeId);
+      res.json(photos);
     } catch (error) {
-      console.error("Error in import process:", error);
-      res.status(500).json({ error: "Failed to import cafes from Google Places" });
+      console.error("Error fetching review photos:", error);
+      res.status(500).json({ error: "An error occurred while fetching photos" });
     }
   });
-  
-  // Admin routes for managing cafes
-  // Add endpoint for creating a single cafe manually
-  app.post("/api/admin/cafes", requireAdmin, async (req, res) => {
+
+  app.get("/api/cafes/:id/ratings", async (req, res) => {
     try {
-      // Validate cafe data
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      // Reviews hidden by moderators are not public
+      const ratings = await storage.getCafeRatings(cafeId);
+      res.json(ratings.filter(rating => !rating.isHidden));
+    } catch (error) {
+      res.status(500).json({ error: "An error occurred while fetching ratings" });
+    }
+  });
+
+  // Public reviews feed with reviewer names, sorting, paging and a star histogram
+  app.get("/api/cafes/:id/reviews", async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const queryResult = reviewListQuerySchema.safeParse({
+        sort: req.query.sort || undefined,
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      if (!queryResult.success) {
+        return res.status(400).json({ error: "Invalid review query parameters" });
+      }
+
+      const cafe = await storage.getCafe(cafeId);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+
+      const reviews = await storage.listCafeReviews(cafeId, queryResult.data);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ error: "An error occurred while fetching reviews" });
+    }
+  });
+
+  // Owner replies to reviews; only verified owners of the cafe may reply
+  async function loadReviewForOwner(req: Request, res: Response) {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Authentication required" });
+      return null;
+    }
+
+    const cafeId = parseInt(req.params.id, 10);
+    const reviewId = parseInt(req.params.reviewId, 10);
+    if (isNaN(cafeId) || isNaN(reviewId)) {
+      res.status(400).json({ error: "Invalid cafe or review ID" });
+      return null;
+    }
+
+    if (!(await storage.isCafeOwner(req.user.id, cafeId))) {
+      res.status(403).json({ error: "Only the cafe's verified owner can reply to reviews" });
+      return null;
+    }
+
+    const review = await storage.getRating(reviewId);
+    if (!review || review.cafeId !== cafeId) {
+      res.status(404).json({ error: "Review not found" });
+      return null;
+    }
+
+    return review;
+  }
+
+  app.post("/api/cafes/:id/reviews/:reviewId/reply", async (req, res) => {
+    try {
+      const review = await loadReviewForOwner(req, res);
+      if (!review) return;
+
+      const result = reviewReplySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid reply", details: result.error.format() });
+      }
+
+      if (await storage.getReviewReply(review.id)) {
+        return res.status(409).json({ error: "This review already has a reply" });
+      }
+
+      const reply = await storage.createReviewReply({
+        ratingId: review.id,
+        userId: req.user!.id,
+        reply: result.data.reply,
+      });
+
+      // Let the reviewer know; a failed email does not fail the reply
+      const [reviewer, cafe] = await Promise.all([
+        storage.getUser(review.userId),
+        storage.getCafe(review.cafeId),
+      ]);
+      if (reviewer?.email && cafe) {
+        const cafeLink = `${getFrontendUrl()}/cafe/${cafe.id}`;
+        await sendReviewReplyEmail(reviewer.email, cafe.name, reply.reply, cafeLink, reviewer.name || reviewer.username);
+      }
+
+      res.status(201).json(reply);
+    } catch (error) {
+      console.error("Error creating review reply:", error);
+      res.status(500).json({ error: "An error occurred while posting the reply" });
+    }
+  });
+
+  app.patch("/api/cafes/:id/reviews/:reviewId/reply", async (req, res) => {
+    try {
+      const review = await loadReviewForOwner(req, res);
+      if (!review) return;
+
+      const result = reviewReplySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid reply", details: result.error.format() });
+      }
+
+      const existingReply = await storage.getReviewReply(review.id);
+      if (!existingReply) {
+        return res.status(404).json({ error: "Reply not found" });
+      }
+
+      const reply = await storage.updateReviewReply(existingReply.id, result.data.reply);
+      res.json(reply);
+    } catch (error) {
+      console.error("Error updating review reply:", error);
+      res.status(500).json({ error: "An error occurred while updating the reply" });
+    }
+  });
+
+  app.delete("/api/cafes/:id/reviews/:reviewId/reply", async (req, res) => {
+    try {
+      const review = await loadReviewForOwner(req, res);
+      if (!review) return;
+
+      const existingReply = await storage.getReviewReply(review.id);
+      if (!existingReply) {
+        return res.status(404).json({ error: "Reply not found" });
+      }
+
+      await storage.deleteReviewReply(existingReply.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting review reply:", error);
+      res.status(500).json({ error: "An error occurred while deleting the reply" });
+    }
+  });
+
+  // Flag a review for the moderation queue
+  app.post("/api/cafes/:id/reviews/:reviewId/report", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      const reviewId = parseInt(req.params.reviewId, 10);
+      if (isNaN(cafeId) || isNaN(reviewId)) {
+        return res.status(400).json({ error: "Invalid cafe or review ID" });
+      }
+
+      const result = reviewReportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid report", details: result.error.format() });
+      }
+
+      const review = await storage.getRating(reviewId);
+      if (!review || review.cafeId !== cafeId || review.isHidden) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      if (review.userId === req.user.id) {
+        return res.status(400).json({ error: "You cannot report your own review" });
+      }
+
+      if (await storage.getUserReviewReport(reviewId, req.user.id)) {
+        return res.status(409).json({ error: "You have already reported this review" });
+      }
+
+      const report = await storage.createReviewReport({
+        ratingId: reviewId,
+        reporterId: req.user.id,
+        reason: result.data.reason,
+        details: result.data.details || null,
+      });
+
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error reporting review:", error);
+      res.status(500).json({ error: "An error occurred while reporting the review" });
+    }
+  });
+
+  app.get("/api/user/ratings", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const cafeId = req.query.cafeId ? parseInt(req.query.cafeId as string, 10) : undefined;
+      
+      if (cafeId) {
+        const rating = await storage.getUserRatingForCafe(req.user.id, cafeId);
+        return res.json(rating || null);
+      }
+
+      // Without a cafeId, list all of the user's ratings
+      const queryResult = userRatingListQuerySchema.safeParse({
+        sort: req.query.sort || undefined,
+        rating: req.query.rating ? parseInt(req.query.rating as string, 10) : undefined,
+        withReview: req.query.withReview !== undefined ? req.query.withReview === "true" : undefined,
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      if (!queryResult.success) {
+        return res.status(400).json({ error: "Invalid rating query parameters" });
+      }
+
+      const userRatings = await storage.listUserRatings(req.user.id, queryResult.data);
+      res.json(userRatings);
+    } catch (error) {
+      console.error("Error fetching user ratings:", error);
+      res.status(500).json({ error: "An error occurred while fetching user ratings" });
+    }
+  });
+
+  // Favorite routes
+  app.post("/api/favorites", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const favoriteData = {
+        ...req.body,
+        userId: req.user.id
+      };
+
+      const validationResult = insertFavoriteSchema.safeParse(favoriteData);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid favorite data", details: validationResult.error });
+      }
+
+      const favorite = await storage.createFavorite(validationResult.data);
+      res.status(201).json(favorite);
+    } catch (error) {
+      res.status(500).json({ error: "An error occurred while creating the favorite" });
+    }
+  });
+
+  app.delete("/api/favorites/:cafeId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const cafeId = parseInt(req.params.cafeId, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const success = await storage.deleteFavorite(req.user.id, cafeId);
+      if (success) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ error: "Favorite not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "An error occurred while removing the favorite" });
+    }
+  });
+
+  app.get("/api/favorites", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const favorites = await storage.getUserFavorites(req.user.id);
+      res.json(favorites);
+    } catch (error) {
+      res.status(500).json({ error: "An error occurred while fetching favorites" });
+    }
+  });
+
+  // Ownership claim routes
+  app.post("/api/cafes/:id/claims", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const cafe = await storage.getCafe(cafeId);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+
+      const result = insertCafeClaimSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid claim data", details: result.error.format() });
+      }
+
+      if (await storage.isCafeOwner(req.user.id, cafeId)) {
+        return res.status(409).json({ error: "You already manage this cafe" });
+      }
+
+      const existingClaims = await storage.getUserCafeClaims(req.user.id, cafeId);
+      if (existingClaims.some((claim) => claim.status === "pending")) {
+        return res.status(409).json({ error: "You already have a pending claim for this cafe" });
+      }
+
+      const { verificationMethod, businessEmail, message } = result.data;
+
+      // Evidence must point back to contact details already on the listing
+      if (verificationMethod === "business_email") {
+        const domain = getWebsiteDomain(cafe.website);
+        if (!domain) {
+          return res.status(400).json({ error: "This cafe has no website to verify an email against" });
+        }
+        if (!isEmailOnDomain(businessEmail!, domain)) {
+          return res.status(400).json({ error: `Business email must be on the ${domain} domain` });
+        }
+      } else if (!cafe.phone || cafe.phone.trim() === "") {
+        return res.status(400).json({ error: "This cafe has no phone number for a callback" });
+      }
+
+      const verificationCode = generateClaimCode();
+      const claimEmail = verificationMethod === "business_email" ? businessEmail!.trim() : null;
+
+      // The code is emailed before the claim is saved, so a failed send
+      // doesn't leave a pending claim blocking another try. Phone codes are
+      // read out by an admin on the callback instead.
+      if (claimEmail && !(await sendClaimVerificationEmail(claimEmail, cafe.name, verificationCode))) {
+        return res.status(502).json({ error: "We couldn't send the verification email. Please try again later." });
+      }
+
+      const claim = await storage.createCafeClaim({
+        cafeId,
+        userId: req.user.id,
+        verificationMethod,
+        businessEmail: claimEmail,
+        verificationCode,
+        message: message || null,
+      });
+
+      res.status(201).json(toPublicClaim(claim));
+    } catch (error) {
+      console.error("Error creating cafe claim:", error);
+      res.status(500).json({ error: "An error occurred while submitting the claim" });
+    }
+  });
+
+  app.post("/api/claims/:id/verify", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const claimId = parseInt(req.params.id, 10);
+      if (isNaN(claimId)) {
+        return res.status(400).json({ error: "Invalid claim ID" });
+      }
+
+      const result = verifyCafeClaimSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Verification code is required" });
+      }
+
+      const claim = await storage.getCafeClaim(claimId);
+      if (!claim || claim.userId !== req.user.id) {
+        return res.status(404).json({ error: "Claim not found" });
+      }
+
+      if (claim.status !== "pending") {
+        return res.status(400).json({ error: "This claim has already been reviewed" });
+      }
+
+      if (claim.verifiedAt) {
+        return res.status(400).json({ error: "This claim has already been verified" });
+      }
+
+      // The attempt is counted before the code is compared, so parallel
+      // guesses can't get past the limit
+      const attempt = await storage.recordClaimVerificationAttempt(claimId, MAX_VERIFICATION_ATTEMPTS);
+      if (!attempt) {
+        return res.status(429).json({ error: "Too many incorrect verification codes. Submit a new claim to get a new code." });
+      }
+
+      if (!isClaimCodeMatch(result.data.code, attempt.verificationCode)) {
+        const attemptsLeft = MAX_VERIFICATION_ATTEMPTS - attempt.verificationAttempts;
+        if (attemptsLeft > 0) {
+          return res.status(400).json({
+            error: `Invalid verification code. ${attemptsLeft} ${attemptsLeft === 1 ? "attempt" : "attempts"} left.`,
+          });
+        }
+
+        // Out of attempts: close the claim so its code can't be guessed
+        await storage.updateCafeClaim(claimId, {
+          status: "denied",
+          reviewNote: "Too many incorrect verification codes. Submit a new claim to get a new code.",
+          reviewedAt: new Date(),
+        });
+        return res.status(429).json({ error: "Too many incorrect verification codes. Submit a new claim to get a new code." });
+      }
+
+      const updatedClaim = await storage.updateCafeClaim(claimId, { verifiedAt: new Date() });
+      res.json(toPublicClaim(updatedClaim!));
+    } catch (error) {
+      console.error("Error verifying cafe claim:", error);
+      res.status(500).json({ error: "An error occurred while verifying the claim" });
+    }
+  });
+
+  app.get("/api/user/claims", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const cafeId = req.query.cafeId ? parseInt(req.query.cafeId as string, 10) : undefined;
+      if (cafeId !== undefined && isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const claims = await storage.getUserCafeClaims(req.user.id, cafeId);
+      res.json(claims.map(toPublicClaim));
+    } catch (error) {
+      console.error("Error fetching user claims:", error);
+      res.status(500).json({ error: "An error occurred while fetching claims" });
+    }
+  });
+
+  // Cafes the current owner manages
+  app.get("/api/owner/cafes", requireCafeOwnerOrAdmin, async (req, res) => {
+    try {
+      const cafes = await storage.getOwnedCafes(req.user!.id);
+      res.json(cafes);
+    } catch (error) {
+      console.error("Error fetching owned cafes:", error);
+      res.status(500).json({ error: "An error occurred while fetching your cafes" });
+    }
+  });
+
+  app.get("/api/owner/cafes/:id", requireCafeOwnerOrAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      if (!(await canManageCafe(req.user!, cafeId))) {
+        return res.status(403).json({ error: "You do not manage this cafe" });
+      }
+
+      const cafe = await storage.getCafeWithDetails(cafeId, req.user!.id);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+
+      res.json(cafe);
+    } catch (error) {
+      console.error("Error fetching owned cafe:", error);
+      res.status(500).json({ error: "An error occurred while fetching the cafe" });
+    }
+  });
+
+  // Owner edits become change proposals for an admin to review
+  app.get("/api/owner/cafes/:id/proposals", requireCafeOwnerOrAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      if (!(await canManageCafe(req.user!, cafeId))) {
+        return res.status(403).json({ error: "You do not manage this cafe" });
+      }
+
+      const proposals = await storage.getCafeChangeProposals(cafeId, req.user!.id);
+      res.json(proposals);
+    } catch (error) {
+      console.error("Error fetching change proposals:", error);
+      res.status(500).json({ error: "An error occurred while fetching change proposals" });
+    }
+  });
+
+  app.post("/api/owner/cafes/:id/proposals", requireCafeOwnerOrAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      if (!(await canManageCafe(req.user!, cafeId))) {
+        return res.status(403).json({ error: "You do not manage this cafe" });
+      }
+
+      const result = cafeChangeSetSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid changes", details: result.error.format() });
+      }
+
+      const cafe = await storage.getCafeWithDetails(cafeId);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+
+      const changes = diffCafeChanges(cafe, result.data);
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: "No changes to propose" });
+      }
+
+      const proposal = await storage.createCafeChangeProposal({
+        cafeId,
+        userId: req.user!.id,
+        changes,
+      });
+      res.status(201).json(proposal);
+    } catch (error) {
+      console.error("Error creating change proposal:", error);
+      res.status(500).json({ error: "An error occurred while submitting your changes" });
+    }
+  });
+
+  // Admin endpoints for staged cafe imports. Candidates are fetched into a
+  // batch, reviewed with duplicate flags, then committed as draft cafes.
+  app.post("/api/admin/imports/places", requireAdmin, async (req, res) => {
+    try {
+      const result = importPlacesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid location", details: result.error.format() });
+      }
+
+      const { location } = result.data;
+      log(`Fetching Google Places candidates for location: ${location}`, "routes");
+      const candidates = await searchGooglePlaces(location);
+
+      const batch = await storage.createImportBatch({ source: "google_places", label: location }, candidates);
+      res.status(201).json(batch);
+    } catch (error) {
+      console.error("Error fetching Google Places candidates:", error);
+      res.status(500).json({ error: "Failed to fetch cafes from Google Places" });
+    }
+  });
+
+  app.post("/api/admin/imports/file", requireAdmin, async (req, res) => {
+    try {
+      const file = await receiveUploadedImportFile(req, res);
+      if (!file) {
+        return;
+      }
+
+      const parsed = readImportFile(file);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const { cafes, errors } = parseStagedCafes(parsed.rows);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid cafes in file", rows: errors });
+      }
+
+      const batch = await storage.createImportBatch({ source: "file", label: file.originalname }, cafes);
+      res.status(201).json(batch);
+    } catch (error) {
+      console.error("Error staging cafe file:", error);
+      res.status(500).json({ error: "Failed to stage cafes from file" });
+    }
+  });
+
+  // Bulk import a curators' CSV or JSON file straight into draft cafes.
+  // Invalid rows are reported and skipped; "upsert" updates the cafes whose
+  // externalId matches a row.
+  app.post("/api/admin/imports/bulk", requireAdmin, async (req, res) => {
+    try {
+      const file = await receiveUploadedImportFile(req, res);
+      if (!file) {
+        return;
+      }
+
+      const parsed = readImportFile(file);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const report = await importBulkCafes(parsed.rows, req.body.upsert === "true");
+      log(`Bulk import of ${file.originalname}: ${report.created} created, ${report.updated} updated, ${report.errors.length} rows refused`, "routes");
+
+      res.json(report);
+    } catch (error) {
+      console.error("Error in bulk cafe import:", error);
+      res.status(500).json({ error: "Failed to import cafes" });
+    }
+  });
+
+  app.get("/api/admin/imports", requireAdmin, async (req, res) => {
+    try {
+      const batches = await storage.listImportBatches();
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching import batches:", error);
+      res.status(500).json({ error: "Failed to fetch import batches" });
+    }
+  });
+
+  app.get("/api/admin/imports/:id", requireAdmin, async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import ID" });
+      }
+
+      const batch = await storage.getImportBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+
+      const candidates = await flagDuplicates(await storage.getImportCandidates(batchId));
+      res.json({ ...batch, candidates });
+    } catch (error) {
+      console.error("Error fetching import batch:", error);
+      res.status(500).json({ error: "Failed to fetch import batch" });
+    }
+  });
+
+  app.post("/api/admin/imports/:id/commit", requireAdmin, async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import ID" });
+      }
+
+      const result = commitImportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid import selection", details: result.error.format() });
+      }
+
+      const batch = await storage.getImportBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+
+      if (batch.committedAt) {
+        return res.status(400).json({ error: "This import has already been committed" });
+      }
+
+      const { candidateIds, photosPerCafe } = result.data;
+      const report = await commitImportBatch(batchId, candidateIds, photosPerCafe);
+      log(`Import ${batchId} committed: ${report.created} created, ${report.skipped} skipped, ${report.failed} failed`, "routes");
+
+      res.json(report);
+    } catch (error) {
+      console.error("Error committing import batch:", error);
+      res.status(500).json({ error: "Failed to commit import" });
+    }
+  });
+
+  // Undo a committed import by deleting the cafes it created that are
+  // still drafts
+  app.post("/api/admin/imports/:id/rollback", requireAdmin, async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import ID" });
+      }
+
+      const batch = await storage.getImportBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+
+      if (!batch.committedAt) {
+        return res.status(400).json({ error: "This import has not been committed" });
+      }
+
+      const result = await rollBackImportBatch(batchId);
+      log(`Import ${batchId} rolled back: ${result.deleted} cafes deleted, ${result.kept} kept`, "routes");
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error rolling back import batch:", error);
+      res.status(500).json({ error: "Failed to roll back import" });
+    }
+  });
+
+  // Discard a batch; cafes it already created are kept
+  app.delete("/api/admin/imports/:id", requireAdmin, async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import ID" });
+      }
+
+      const deleted = await storage.deleteImportBatch(batchId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import batch:", error);
+      res.status(500).json({ error: "Failed to delete import" });
+    }
+  });
+  
+  // Admin routes for managing cafes
+  // Add endpoint for creating a single cafe manually
+  app.post("/api/admin/cafes", requireAdmin, async (req, res) => {
+    try {
+      // Validate cafe data
       const validatedData = insertCafeSchema.parse(req.body);
       
       // Check if a cafe with this name and address already exists
@@ -879,6 +1649,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: "Failed to fetch cafes" });
     }
   });
+
+  // Download cafes of every status, or those matching the listing filters
+  // plus "status" and a "q" search, as CSV, GeoJSON or KML
+  app.get("/api/admin/cafes/export/:format", requireAdmin, async (req, res) => {
+    try {
+      const format = req.params.format as CafeExportFormat;
+      if (!cafeExportFormats.includes(format)) {
+        return res.status(400).json({ error: `Export format must be one of ${cafeExportFormats.join(", ")}` });
+      }
+
+      const filterResult = cafeFilterSchema.safeParse({
+        ...cafeFilterParams(req.query),
+        status: req.query.status || undefined,
+      });
+      if (!filterResult.success) {
+        return res.status(400).json({ error: "Invalid filter parameters", details: filterResult.error.format() });
+      }
+
+      // An explicit undefined status includes every status
+      const cafes = await storage.listCafes({ ...filterResult.data, status: filterResult.data.status });
+      sendCafeExport(res, cafes, format, { admin: true });
+    } catch (error) {
+      console.error("Error exporting cafes:", error);
+      res.status(500).json({ error: "Failed to export cafes" });
+    }
+  });
   
   app.get("/api/admin/cafes/:id", requireAdmin, async (req, res) => {
     try {
@@ -1016,6 +1812,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.put("/api/admin/cafes/:id/hours", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+      
+      // First check if cafe exists
+      const cafe = await storage.getCafe(cafeId);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+      
+      const validationResult = cafeScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid opening hours", details: validationResult.error });
+      }
+      
+      // Replace the weekly hours and the date exceptions together
+      const schedule = await storage.replaceCafeSchedule(cafeId, validationResult.data);
+      
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error updating cafe hours:", error);
+      res.status(500).json({ error: "Failed to update cafe hours" });
+    }
+  });
+  
   app.put("/api/admin/cafes/:id/status", requireAdmin, async (req, res) => {
     try {
       const cafeId = parseInt(req.params.id, 10);
@@ -1071,6 +1895,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin endpoints for a cafe's photo gallery
+  app.post("/api/admin/cafes/:id/photos", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const cafe = await storage.getCafe(cafeId);
+      if (!cafe) {
+        return res.status(404).json({ error: "Cafe not found" });
+      }
+
+      const processed = await receiveProcessedPhotos(req, res, MAX_CAFE_PHOTOS);
+      if (!processed) {
+        return;
+      }
+
+      const existingPhotos = await storage.getCafePhotos(cafeId);
+      if (existingPhotos.length + processed.length > MAX_CAFE_PHOTOS) {
+        return res.status(400).json({
+          error: `A cafe can have at most ${MAX_CAFE_PHOTOS} photos (${existingPhotos.length} already added)`,
+        });
+      }
+
+      // Optional multipart text fields, applied to every photo in the upload
+      const result = updateCafePhotoSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid photo details", details: result.error.format() });
+      }
+      const { caption, attribution } = result.data;
+
+      const photos = [];
+      for (const photo of processed) {
+        photos.push(await saveCafePhoto(cafeId, photo, {
+          caption: caption || null,
+          attribution: attribution || null,
+        }));
+      }
+
+      res.status(201).json(photos);
+    } catch (error) {
+      console.error("Error uploading cafe photos:", error);
+      res.status(500).json({ error: "Failed to upload photos" });
+    }
+  });
+
+  app.patch("/api/admin/cafes/:id/photos/:photoId", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      const photoId = parseInt(req.params.photoId, 10);
+      if (isNaN(cafeId) || isNaN(photoId)) {
+        return res.status(400).json({ error: "Invalid cafe or photo ID" });
+      }
+
+      const photo = await storage.getCafePhoto(photoId);
+      if (!photo || photo.cafeId !== cafeId) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      const result = updateCafePhotoSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid photo details", details: result.error.format() });
+      }
+
+      const { caption, attribution } = result.data;
+      const updatedPhoto = await storage.updateCafePhoto(photoId, {
+        // Empty strings clear the field
+        ...(caption !== undefined && { caption: caption || null }),
+        ...(attribution !== undefined && { attribution: attribution || null }),
+      });
+      res.json(updatedPhoto);
+    } catch (error) {
+      console.error("Error updating cafe photo:", error);
+      res.status(500).json({ error: "Failed to update photo" });
+    }
+  });
+
+  app.put("/api/admin/cafes/:id/photos/order", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      if (isNaN(cafeId)) {
+        return res.status(400).json({ error: "Invalid cafe ID" });
+      }
+
+      const result = cafePhotoOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid photo order", details: result.error.format() });
+      }
+      const { photoIds } = result.data;
+
+      // The new order must list each of the cafe's photos exactly once
+      const currentIds = (await storage.getCafePhotos(cafeId)).map((photo) => photo.id);
+      const isPermutation =
+        photoIds.length === currentIds.length &&
+        new Set(photoIds).size === photoIds.length &&
+        photoIds.every((id) => currentIds.includes(id));
+      if (!isPermutation) {
+        return res.status(400).json({ error: "The order must include every photo of this cafe once" });
+      }
+
+      const photos = await storage.reorderCafePhotos(cafeId, photoIds);
+      res.json(photos);
+    } catch (error) {
+      console.error("Error reordering cafe photos:", error);
+      res.status(500).json({ error: "Failed to reorder photos" });
+    }
+  });
+
+  app.put("/api/admin/cafes/:id/photos/:photoId/cover", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      const photoId = parseInt(req.params.photoId, 10);
+      if (isNaN(cafeId) || isNaN(photoId)) {
+        return res.status(400).json({ error: "Invalid cafe or photo ID" });
+      }
+
+      const photo = await storage.setCafeCoverPhoto(cafeId, photoId);
+      if (!photo) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      res.json(photo);
+    } catch (error) {
+      console.error("Error setting cover photo:", error);
+      res.status(500).json({ error: "Failed to set cover photo" });
+    }
+  });
+
+  app.delete("/api/admin/cafes/:id/photos/:photoId", requireAdmin, async (req, res) => {
+    try {
+      const cafeId = parseInt(req.params.id, 10);
+      const photoId = parseInt(req.params.photoId, 10);
+      if (isNaN(cafeId) || isNaN(photoId)) {
+        return res.status(400).json({ error: "Invalid cafe or photo ID" });
+      }
+
+      const photo = await storage.getCafePhoto(photoId);
+      if (!photo || photo.cafeId !== cafeId) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      await storage.deleteCafePhoto(photoId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting cafe photo:", error);
+      res.status(500).json({ error: "Failed to delete photo" });
+    }
+  });
+
   // Endpoint to publish all cafes - for admin use to fix existing data
   app.post("/api/admin/publish-all-cafes", requireAdmin, async (req, res) => {
     try {
@@ -1245,6 +2219,273 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   })
   
+  // Admin review of ownership claims
+  app.get("/api/admin/claims", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(claimStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid claim status" });
+      }
+
+      const claims = await storage.listCafeClaims(status as (typeof claimStatusEnum.enumValues)[number] | undefined);
+      res.json(claims);
+    } catch (error) {
+      console.error("Error listing cafe claims:", error);
+      res.status(500).json({ error: "Failed to list claims" });
+    }
+  });
+
+  app.post("/api/admin/claims/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const claimId = parseInt(req.params.id, 10);
+      if (isNaN(claimId)) {
+        return res.status(400).json({ error: "Invalid claim ID" });
+      }
+
+      const result = reviewDecisionSchema.safeParse(req.body || {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid review note" });
+      }
+
+      const claim = await storage.getCafeClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ error: "Claim not found" });
+      }
+
+      if (claim.status !== "pending") {
+        return res.status(400).json({ error: "This claim has already been reviewed" });
+      }
+
+      if (!claim.verifiedAt) {
+        return res.status(400).json({ error: "The claimant has not entered their verification code yet" });
+      }
+
+      const approvedClaim = await storage.approveCafeClaim(claimId, req.user!.id, result.data.note);
+      res.json(approvedClaim);
+    } catch (error) {
+      console.error("Error approving cafe claim:", error);
+      res.status(500).json({ error: "Failed to approve claim" });
+    }
+  });
+
+  app.post("/api/admin/claims/:id/deny", requireAdmin, async (req, res) => {
+    try {
+      const claimId = parseInt(req.params.id, 10);
+      if (isNaN(claimId)) {
+        return res.status(400).json({ error: "Invalid claim ID" });
+      }
+
+      const result = reviewDecisionSchema.safeParse(req.body || {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid review note" });
+      }
+
+      const claim = await storage.getCafeClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ error: "Claim not found" });
+      }
+
+      if (claim.status !== "pending") {
+        return res.status(400).json({ error: "This claim has already been reviewed" });
+      }
+
+      const deniedClaim = await storage.updateCafeClaim(claimId, {
+        status: "denied",
+        reviewedBy: req.user!.id,
+        reviewNote: result.data.note || null,
+        reviewedAt: new Date(),
+      });
+      res.json(deniedClaim);
+    } catch (error) {
+      console.error("Error denying cafe claim:", error);
+      res.status(500).json({ error: "Failed to deny claim" });
+    }
+  });
+
+  // Admin review of owner change proposals
+  app.get("/api/admin/proposals", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(proposalStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid proposal status" });
+      }
+
+      const proposals = await storage.listCafeChangeProposals(
+        status as (typeof proposalStatusEnum.enumValues)[number] | undefined,
+      );
+
+      // Attach the live values so admins can diff each proposal
+      const cafeIds = Array.from(new Set(proposals.map((proposal) => proposal.cafeId)));
+      const cafesById = new Map((await storage.getCafesWithDetails(cafeIds)).map((cafe) => [cafe.id, cafe]));
+      const withCurrent = proposals.map((proposal) => {
+        const cafe = cafesById.get(proposal.cafeId);
+        return {
+          ...proposal,
+          current: cafe ? pickCurrentValues(cafe, proposal.changes) : {},
+        };
+      });
+
+      res.json(withCurrent);
+    } catch (error) {
+      console.error("Error listing change proposals:", error);
+      res.status(500).json({ error: "Failed to list change proposals" });
+    }
+  });
+
+  app.post("/api/admin/proposals/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const proposalId = parseInt(req.params.id, 10);
+      if (isNaN(proposalId)) {
+        return res.status(400).json({ error: "Invalid proposal ID" });
+      }
+
+      const result = reviewDecisionSchema.safeParse(req.body || {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid review note" });
+      }
+
+      const proposal = await storage.getCafeChangeProposal(proposalId);
+      if (!proposal) {
+        return res.status(404).json({ error: "Proposal not found" });
+      }
+
+      if (proposal.status !== "pending") {
+        return res.status(400).json({ error: "This proposal has already been reviewed" });
+      }
+
+      const approvedProposal = await storage.approveCafeChangeProposal(proposalId, req.user!.id, result.data.note);
+      res.json(approvedProposal);
+    } catch (error) {
+      console.error("Error approving change proposal:", error);
+      res.status(500).json({ error: "Failed to approve change proposal" });
+    }
+  });
+
+  app.post("/api/admin/proposals/:id/reject", requireAdmin, async (req, res) => {
+    try {
+      const proposalId = parseInt(req.params.id, 10);
+      if (isNaN(proposalId)) {
+        return res.status(400).json({ error: "Invalid proposal ID" });
+      }
+
+      const result = reviewDecisionSchema.safeParse(req.body || {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid review note" });
+      }
+
+      const proposal = await storage.getCafeChangeProposal(proposalId);
+      if (!proposal) {
+        return res.status(404).json({ error: "Proposal not found" });
+      }
+
+      if (proposal.status !== "pending") {
+        return res.status(400).json({ error: "This proposal has already been reviewed" });
+      }
+
+      const rejectedProposal = await storage.updateCafeChangeProposal(proposalId, {
+        status: "rejected",
+        reviewedBy: req.user!.id,
+        reviewNote: result.data.note || null,
+        reviewedAt: new Date(),
+      });
+      res.json(rejectedProposal);
+    } catch (error) {
+      console.error("Error rejecting change proposal:", error);
+      res.status(500).json({ error: "Failed to reject change proposal" });
+    }
+  });
+
+  // Review moderation queue
+  app.get("/api/admin/reports", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(reportStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid report status" });
+      }
+
+      const queue = await storage.listReviewReports(
+        status as (typeof reportStatusEnum.enumValues)[number] | undefined,
+      );
+      res.json(queue);
+    } catch (error) {
+      console.error("Error listing review reports:", error);
+      res.status(500).json({ error: "Failed to list review reports" });
+    }
+  });
+
+  app.delete("/api/admin/review-photos/:id", requireAdmin, async (req, res) => {
+    try {
+      const photoId = parseInt(req.params.id, 10);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ error: "Invalid photo ID" });
+      }
+
+      const deleted = await storage.deleteReviewPhoto(photoId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      res.status(500).json({ error: "Failed to delete photo" });
+    }
+  });
+
+  app.post("/api/admin/reviews/:id/moderate", requireAdmin, async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id, 10);
+      if (isNaN(reviewId)) {
+        return res.status(400).json({ error: "Invalid review ID" });
+      }
+
+      const result = moderateReviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid moderation action", details: result.error.format() });
+      }
+
+      const review = await storage.getRating(reviewId);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      const { action, warnAuthor, note } = result.data;
+
+      // Look these up before a delete removes the review
+      const [author, cafe] = await Promise.all([
+        storage.getUser(review.userId),
+        storage.getCafe(review.cafeId),
+      ]);
+
+      if (action === "delete") {
+        await storage.deleteRating(reviewId);
+      } else {
+        await storage.setRatingHidden(reviewId, action === "hide");
+        await storage.resolveReviewReports(reviewId, req.user!.id, action === "hide" ? "hidden" : "restored");
+      }
+
+      // Restoring a review means the reports were unfounded, so there is nothing to warn about
+      if (warnAuthor && action !== "restore" && author?.email && cafe) {
+        await sendReviewWarningEmail(
+          author.email,
+          cafe.name,
+          action === "hide" ? "hidden" : "removed",
+          note,
+          author.name || author.username,
+        );
+      }
+
+      if (action === "delete") {
+        return res.status(204).send();
+      }
+
+      res.json(await storage.getRating(reviewId));
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      res.status(500).json({ error: "Failed to moderate review" });
+    }
+  });
+
   // List all users - admin only
   app.get('/api/admin/users', requireAdmin, async (req, res) => {
     try {
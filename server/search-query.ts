@@ -0,0 +1,181 @@
+import type { CafeFilter, SearchInterpretation, SearchQueryTerm } from "@shared/schema";
+import { brewingMethodLabels, facetAliases, normalizeSearchText, roastLevelLabels } from "./cafe-search";
+
+// Reads filters out of what people type in the search bar, so "light roast
+// pour over in Somerville open now" searches for nothing but filters on a
+// roast level, a brewing method, an area and the opening hours. Phrases are
+// matched longest first; whatever is not recognized stays as free text.
+
+type TermValue = Pick<SearchQueryTerm, "field" | "value" | "label">;
+
+// Words that only link a filter to the rest of the query, dropped along
+// with the filter they come before
+const connectorWords: Partial<Record<keyof CafeFilter, string[]>> = {
+  area: ["in", "near", "around"],
+  hasWifi: ["with"],
+  hasPower: ["with"],
+  hasFood: ["with"],
+  hasOutdoorSeating: ["with"],
+  hasRestroom: ["with"],
+  isPetFriendly: ["with"],
+  sellsCoffeeBeans: ["with", "that", "sells"],
+};
+
+const amenityPhrases: Record<string, TermValue> = {
+  "wifi": { field: "hasWifi", value: true, label: "Wi-Fi" },
+  "wi fi": { field: "hasWifi", value: true, label: "Wi-Fi" },
+  "internet": { field: "hasWifi", value: true, label: "Wi-Fi" },
+  "outlets": { field: "hasPower", value: true, label: "Power Outlets" },
+  "power outlets": { field: "hasPower", value: true, label: "Power Outlets" },
+  "plugs": { field: "hasPower", value: true, label: "Power Outlets" },
+  "food": { field: "hasFood", value: true, label: "Food" },
+  "outdoor seating": { field: "hasOutdoorSeating", value: true, label: "Outdoor Seating" },
+  "patio": { field: "hasOutdoorSeating", value: true, label: "Outdoor Seating" },
+  "outside seating": { field: "hasOutdoorSeating", value: true, label: "Outdoor Seating" },
+  "restroom": { field: "hasRestroom", value: true, label: "Restroom" },
+  "bathroom": { field: "hasRestroom", value: true, label: "Restroom" },
+  "wheelchair accessible": { field: "isWheelchairAccessible", value: true, label: "Wheelchair Accessible" },
+  "accessible": { field: "isWheelchairAccessible", value: true, label: "Wheelchair Accessible" },
+  "pet friendly": { field: "isPetFriendly", value: true, label: "Pet Friendly" },
+  "dog friendly": { field: "isPetFriendly", value: true, label: "Pet Friendly" },
+  "beans": { field: "sellsCoffeeBeans", value: true, label: "Sells Beans" },
+  "coffee beans": { field: "sellsCoffeeBeans", value: true, label: "Sells Beans" },
+  "open now": { field: "openNow", value: true, label: "Open Now" },
+};
+
+const priceLabels = ["$", "$$", "$$$", "$$$$"];
+
+const pricePhrases: Record<string, TermValue> = {
+  "cheap": { field: "priceLevel", value: 1, label: "$" },
+  "inexpensive": { field: "priceLevel", value: 1, label: "$" },
+  "affordable": { field: "priceLevel", value: 1, label: "$" },
+  "budget": { field: "priceLevel", value: 1, label: "$" },
+};
+
+// Phrases known regardless of the cafes listed: roast levels with or
+// without "roast", brewing methods with their aliases, prices and amenities
+function fixedPhrases(): Map<string, TermValue> {
+  const phrases = new Map<string, TermValue>();
+
+  for (const [value, label] of Object.entries(roastLevelLabels)) {
+    const term = { field: "roastLevels" as const, value, label };
+    phrases.set(normalizeSearchText(label), term);
+    phrases.set(normalizeSearchText(value), term);
+  }
+
+  for (const [value, label] of Object.entries(brewingMethodLabels)) {
+    const term = { field: "brewingMethods" as const, value, label };
+    for (const phrase of [label, value, ...(facetAliases[value] || [])]) {
+      phrases.set(normalizeSearchText(phrase), term);
+    }
+  }
+
+  Object.entries({ ...pricePhrases, ...amenityPhrases }).forEach(([phrase, term]) => phrases.set(phrase, term));
+  return phrases;
+}
+
+const knownPhrases = fixedPhrases();
+
+interface Token {
+  word: string; // Normalized; "$" signs are kept as they are
+  start: number;
+  end: number;
+}
+
+// Words are split at spaces and ASCII punctuation other than "$", so
+// "pour-over" is two words
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/\$+|[^\s$!-#%-/:-@[-`{-~]+/g)).map((match) => ({
+    word: match[0].startsWith("$") ? match[0] : normalizeSearchText(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// Read the filters in a search. Areas are matched against the given list.
+// A field that takes one value (area, price) keeps the first one found;
+// later mentions stay in the free text.
+export function interpretSearchQuery(text: string, areas: string[]): SearchInterpretation {
+  const phrases = new Map(knownPhrases);
+  for (const area of areas) {
+    phrases.set(normalizeSearchText(area), { field: "area", value: area, label: area });
+  }
+  const longestPhrase = Math.max(...Array.from(phrases.keys()).map((phrase) => phrase.split(" ").length));
+
+  const tokens = tokenize(text);
+  const filters: Record<string, unknown> = {};
+  const terms: SearchQueryTerm[] = [];
+  const leftover: string[] = [];
+
+  const readTerm = (from: number): { term: TermValue; length: number } | null => {
+    const word = tokens[from].word;
+    if (/^\$+$/.test(word)) {
+      return word.length <= 4 ? { term: { field: "priceLevel", value: word.length, label: priceLabels[word.length - 1] }, length: 1 } : null;
+    }
+    for (let length = Math.min(longestPhrase, tokens.length - from); length > 0; length--) {
+      const phrase = tokens.slice(from, from + length).map((token) => token.word).join(" ");
+      const term = phrases.get(phrase);
+      if (term) {
+        // "light roast" and "light roasts" read the same as "light"
+        const next = tokens[from + length]?.word;
+        const roastSuffix = term.field === "roastLevels" && (next === "roast" || next === "roasts") && !phrase.endsWith("roast");
+        return { term, length: roastSuffix ? length + 1 : length };
+      }
+    }
+    return null;
+  };
+
+  const addTerm = (term: TermValue): boolean => {
+    if (term.field === "roastLevels" || term.field === "brewingMethods") {
+      const values = (filters[term.field] as string[] | undefined) || [];
+      if (!values.includes(term.value as string)) {
+        filters[term.field] = [...values, term.value];
+      }
+      return true;
+    }
+    if (filters[term.field] !== undefined) {
+      return filters[term.field] === term.value;
+    }
+    filters[term.field] = term.value;
+    return true;
+  };
+
+  for (let i = 0; i < tokens.length; ) {
+    // A connector word counts only when a filter it links follows it
+    const connector = i + 1 < tokens.length ? readTerm(i + 1) : null;
+    const isConnector = !!connector && (connectorWords[connector.term.field] || []).includes(tokens[i].word);
+    const start = isConnector ? i + 1 : i;
+    const match = isConnector ? connector : readTerm(i);
+
+    if (match && addTerm(match.term)) {
+      const end = start + match.length - 1;
+      terms.push({ ...match.term, text: text.slice(tokens[i].start, tokens[end].end) });
+      i = end + 1;
+    } else {
+      leftover.push(text.slice(tokens[i].start, tokens[i].end));
+      i++;
+    }
+  }
+
+  return { filters: filters as CafeFilter, terms, query: leftover.join(" ") };
+}
+
+// Add the filters read from a search to those given explicitly, which win
+// where both set the same field. Roast levels and brewing methods are
+// combined. The search itself is replaced by the leftover words.
+export function applySearchInterpretation(
+  filterParams: Record<string, any>,
+  interpretation: SearchInterpretation,
+): Record<string, any> {
+  const merged: Record<string, any> = { ...interpretation.filters, ...filterParams };
+
+  for (const field of ["roastLevels", "brewingMethods"] as const) {
+    const values = [...(filterParams[field] || []), ...(interpretation.filters[field] || [])];
+    if (values.length > 0) {
+      merged[field] = Array.from(new Set(values));
+    }
+  }
+
+  merged.query = interpretation.query || undefined;
+  return merged;
+}
@@ -0,0 +1,157 @@
+import {
+  type SearchSuggestQuery,
+  type SearchSuggestion,
+  type SearchSuggestions,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { brewingMethodLabels, facetAliases, normalizeSearchText, roastLevelLabels } from "./cafe-search";
+
+// Search-as-you-type suggestions. Suggestions come from an in-memory prefix
+// index of published cafe names, areas, roast levels and brewing methods,
+// so answering a keystroke is a binary search rather than a database query.
+// The index is rebuilt in the background once it is a minute old; until the
+// rebuild finishes, the previous index keeps answering.
+
+const INDEX_MAX_AGE_MS = 60 * 1000;
+
+type SuggestionGroup = keyof SearchSuggestions;
+
+interface IndexEntry {
+  key: string; // Normalized text, starting at one word of the phrase
+  leading: boolean; // Whether the key is the start of the suggestion's label
+  group: SuggestionGroup;
+  suggestion: SearchSuggestion;
+}
+
+interface SuggestionIndex {
+  entries: IndexEntry[]; // Sorted by key
+  builtAt: number;
+}
+
+let currentIndex: SuggestionIndex | null = null;
+let pendingBuild: Promise<SuggestionIndex> | null = null;
+
+// Index a phrase under every word it contains, so "bot" finds
+// "Blue Bottle Coffee" as well as "blue" does
+function addEntries(entries: IndexEntry[], phrase: string, group: SuggestionGroup, suggestion: SearchSuggestion) {
+  const phraseWords = normalizeSearchText(phrase).split(" ").filter(Boolean);
+  for (let i = 0; i < phraseWords.length; i++) {
+    entries.push({
+      key: phraseWords.slice(i).join(" "),
+      leading: i === 0 && phrase === suggestion.label,
+      group,
+      suggestion,
+    });
+  }
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
+
+async function buildIndex(): Promise<SuggestionIndex> {
+  const [cafes, areas] = await Promise.all([storage.listCafes(), storage.listAreas()]);
+  const entries: IndexEntry[] = [];
+
+  // Chains share a name, so a name counts every cafe that has it
+  countBy(cafes.map((cafe) => cafe.name)).forEach((count, name) => {
+    addEntries(entries, name, "cafes", { label: name, value: name, count });
+  });
+
+  const areaCounts = countBy(cafes.map((cafe) => cafe.area));
+  for (const area of areas) {
+    const count = areaCounts.get(area) || 0;
+    if (count > 0) {
+      addEntries(entries, area, "areas", { label: area, value: area, count });
+    }
+  }
+
+  const facets = [
+    { group: "roastLevels" as const, labels: roastLevelLabels as Record<string, string>, counts: countBy(cafes.flatMap((cafe) => cafe.roastLevels)) },
+    { group: "brewingMethods" as const, labels: brewingMethodLabels as Record<string, string>, counts: countBy(cafes.flatMap((cafe) => cafe.brewingMethods)) },
+  ];
+  for (const { group, labels, counts } of facets) {
+    counts.forEach((count, value) => {
+      const suggestion = { label: labels[value] || value, value, count };
+      for (const phrase of [suggestion.label, ...(facetAliases[value] || [])]) {
+        addEntries(entries, phrase, group, suggestion);
+      }
+    });
+  }
+
+  entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  return { entries, builtAt: Date.now() };
+}
+
+function rebuildIndex(): Promise<SuggestionIndex> {
+  if (!pendingBuild) {
+    pendingBuild = buildIndex()
+      .then((index) => {
+        currentIndex = index;
+        return index;
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+  return pendingBuild;
+}
+
+async function getIndex(): Promise<SuggestionIndex> {
+  if (!currentIndex) {
+    return rebuildIndex();
+  }
+  if (Date.now() - currentIndex.builtAt > INDEX_MAX_AGE_MS) {
+    rebuildIndex().catch((error) => console.error("Error rebuilding search suggestions:", error));
+  }
+  return currentIndex;
+}
+
+// Position of the first entry whose key is not less than the prefix
+function lowerBound(entries: IndexEntry[], prefix: string): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].key < prefix) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Suggestions whose text has a word starting with the query. Within each
+// group, those that start with the query come first, then the ones
+// matching the most cafes.
+export async function suggestSearch({ q, limit }: SearchSuggestQuery): Promise<SearchSuggestions> {
+  const suggestions: SearchSuggestions = { cafes: [], areas: [], roastLevels: [], brewingMethods: [] };
+  const prefix = normalizeSearchText(q);
+  if (!prefix) {
+    return suggestions;
+  }
+
+  const { entries } = await getIndex();
+  const matches = new Map<SearchSuggestion, { group: SuggestionGroup; leading: boolean }>();
+
+  for (let i = lowerBound(entries, prefix); i < entries.length && entries[i].key.startsWith(prefix); i++) {
+    const { leading, group, suggestion } = entries[i];
+    const match = matches.get(suggestion);
+    matches.set(suggestion, { group, leading: leading || (match?.leading ?? false) });
+  }
+
+  const ranked = Array.from(matches.entries()).sort(([a, matchA], [b, matchB]) =>
+    Number(matchB.leading) - Number(matchA.leading) || b.count - a.count || a.label.localeCompare(b.label),
+  );
+  for (const [suggestion, { group }] of ranked) {
+    if (suggestions[group].length < limit) {
+      suggestions[group].push(suggestion);
+    }
+  }
+  return suggestions;
+}
@@ -11,34 +11,240 @@ import {
   cafeBrewingMethods,
   type CafeBrewingMethod,
   type InsertCafeBrewingMethod,
+  cafeHours,
+  type CafeHours,
+  type InsertCafeHours,
+  cafeHoursExceptions,
+  type CafeHoursException,
+  type InsertCafeHoursException,
   ratings,
   type Rating,
+  reviewReplies,
+  type ReviewReply,
+  reviewReports,
+  type ReviewReport,
+  reviewPhotos,
+  type ReviewPhoto,
+  type ReviewGalleryPhoto,
+  type ReviewPhotoSummary,
+  cafePhotos,
+  type CafePhoto,
+  type CafeCoverPhoto,
+  type UpdateCafePhoto,
   type InsertRating,
   favorites,
   type Favorite,
   type InsertFavorite,
+  cafeClaims,
+  type CafeClaim,
+  type CafeClaimWithDetails,
+  cafeOwners,
+  cafeChangeProposals,
+  type CafeChangeProposal,
+  importBatches,
+  type ImportBatch,
+  type ImportBatchSummary,
+  importCandidates,
+  type ImportCandidate,
+  type StagedCafe,
   CafeWithDetails,
   CafeFilter,
+  CafePagination,
+  CafePage,
+  CafeFacets,
+  type CafeSchedule,
+  type CafeMapPin,
+  toCafeMapPin,
+  ReviewListQuery,
+  CafeReviewPage,
+  UserRatingListQuery,
+  UserRatingPage,
+  ModerationQueueItem,
+  type RatingSubScores,
+  ratingSubScoreKeys,
+  subScoreFilterKeys,
+  cafeAmenityKeys,
+  cafeSearchDocument,
   roastLevelEnum,
   brewingMethodEnum,
 } from "@shared/schema";
+import { isOpenAt } from "@shared/opening-hours";
+import { applyDistances, decodeCafeCursor, encodeCafeCursor, getSortKey, paginateCafes, sortCafes, type CafeSortKey } from "./cafe-sorting";
+import { searchTerms } from "./cafe-search";
+import { PRICE_LEVELS, RATING_BUCKETS, facetCounts, facetFilters, withoutFacetFilters } from "./cafe-facets";
+import { bayesianScore, rankingConfig, type RatingStats } from "./cafe-ranking";
+import { deletePhotoFiles } from "./photo-storage";
 import { db } from "./db";
 import {
   eq,
   and,
-  ilike,
   or,
   count,
   avg,
   desc,
+  asc,
   sql,
   not,
   inArray,
+  isNull,
+  lt,
+  getTableColumns,
+  type SQL,
 } from "drizzle-orm";
-import { IStorage } from "./storage";
+import type { BatchItem } from "drizzle-orm/batch";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+  IStorage,
+  type NewCafeClaim,
+  type NewReviewReply,
+  type NewReviewReport,
+  type NewReviewPhoto,
+  type NewCafePhoto,
+  type NewCafeChangeProposal,
+  type CafeChangeProposalSummary,
+  type NewImportBatch,
+  type BulkCafeWrite,
+} from "./storage";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
+// Drizzle leaves column names unqualified in single-table selects, so the
+// correlated subqueries below refer to the outer cafe id explicitly
+const outerCafeId = sql`${sql.identifier("cafes")}.${sql.identifier("id")}`;
+const outerRatingId = sql`${sql.identifier("ratings")}.${sql.identifier("id")}`;
+
+// Text search over the weighted cafe document (see cafeSearchDocument).
+// Every term must match as a word, after English stemming, or, for typos,
+// through pg_trgm word similarity with one of the fields. Terms Postgres
+// treats as stop words are skipped. Relevance is the full-text rank plus
+// how closely the whole query resembles the cafe's name.
+function cafeTextSearch(terms: string[]): { where: SQL; relevance: SQL<number> } {
+  const document = cafeSearchDocument(cafes);
+  const fuzzyColumns = [cafes.name, cafes.area, cafes.address, cafes.description];
+
+  const termConditions = terms.map((term) => {
+    const termQuery = sql`plainto_tsquery('english', ${term})`;
+    return sql`(
+      numnode(${termQuery}) = 0
+      or ${document} @@ ${termQuery}
+      or ${sql.join(fuzzyColumns.map((column) => sql`${term} <% ${column}`), sql` or `)}
+    )`;
+  });
+
+  const anyTerm = sql.join(terms.map((term) => sql`plainto_tsquery('english', ${term})`), sql` || `);
+  return {
+    where: and(...termConditions)!,
+    relevance: sql<number>`ts_rank(${document}, ${anyTerm}) + word_similarity(${terms.join(" ")}, ${cafes.name})`,
+  };
+}
+
+// Columns returned to clients for a review photo
+const photoSummaryColumns = {
+  id: reviewPhotos.id,
+  imageUrl: reviewPhotos.imageUrl,
+  thumbnailUrl: reviewPhotos.thumbnailUrl,
+  width: reviewPhotos.width,
+  height: reviewPhotos.height,
+};
+
+// Storage keys of deleted photo rows, for removing their files
+const photoKeyColumns = {
+  imageKey: reviewPhotos.imageKey,
+  thumbnailKey: reviewPhotos.thumbnailKey,
+};
+
+const cafePhotoKeyColumns = {
+  imageKey: cafePhotos.imageKey,
+  thumbnailKey: cafePhotos.thumbnailKey,
+};
+
+function photoFileKeys(photos: { imageKey: string; thumbnailKey: string }[]): string[] {
+  return photos.flatMap((photo) => [photo.imageKey, photo.thumbnailKey]);
+}
+
+// Average of a ratings column over the outer cafe's visible ratings,
+// rounded the way it is displayed; null when nobody has filled it in
+function visibleRatingAverage(column: AnyPgColumn) {
+  return sql<string | null>`(
+    select round(avg(${column}), 1)
+    from ${ratings}
+    where ${ratings.cafeId} = ${outerCafeId} and not ${ratings.isHidden}
+  )`;
+}
+
+// Number of the outer cafe's visible ratings
+function visibleRatingCount() {
+  return sql<number>`(
+    select count(*)::int
+    from ${ratings}
+    where ${ratings.cafeId} = ${outerCafeId} and not ${ratings.isHidden}
+  )`;
+}
+
+// One element of a cafe sort key in SQL: the expression, its direction,
+// and the type a cursor value is cast to for comparing with it
+interface SqlSortColumn {
+  expression: SQL;
+  descending: boolean;
+  type: "int" | "real" | "numeric";
+}
+
+// SQL counterparts of getSortKey in cafe-sorting.ts, for the sort options
+// that need nothing computed in-process; null for the others
+function sqlSortColumns(sortBy: CafeFilter["sortBy"], relevance?: SQL<number>): SqlSortColumn[] | null {
+  const id: SqlSortColumn = { expression: sql`${cafes.id}`, descending: false, type: "int" };
+  switch (sortBy) {
+    case undefined:
+    case "default":
+      return relevance ? [{ expression: relevance, descending: true, type: "real" }, id] : [id];
+    case "reviews_count":
+      return [
+        { expression: visibleRatingCount(), descending: true, type: "int" },
+        { expression: sql`coalesce(${visibleRatingAverage(ratings.rating)}, 0)`, descending: true, type: "numeric" },
+        id,
+      ];
+    default:
+      return null;
+  }
+}
+
+// Rows after a cursor's sort key. Descending key elements are stored
+// negated (see getSortKey), so they are negated back before comparing.
+function keysetCondition(columns: SqlSortColumn[], after: CafeSortKey): SQL {
+  const values = columns.map((column, i) => {
+    const value = column.descending ? -after[i]! : after[i]!;
+    return sql`${value}::${sql.raw(column.type)}`;
+  });
+  const beyond = columns.map((column, i) => {
+    const equalBefore = columns.slice(0, i).map((earlier, j) => sql`${earlier.expression} = ${values[j]}`);
+    const past = column.descending
+      ? sql`${column.expression} < ${values[i]}`
+      : sql`${column.expression} > ${values[i]}`;
+    return and(...equalBefore, past)!;
+  });
+  return or(...beyond)!;
+}
+
+// Queries replacing a cafe's weekly hours and date exceptions, for a batch
+function scheduleQueries(cafeId: number, schedule: CafeSchedule): BatchItem<"pg">[] {
+  const queries: BatchItem<"pg">[] = [db.delete(cafeHours).where(eq(cafeHours.cafeId, cafeId))];
+  if (schedule.hours.length > 0) {
+    queries.push(db.insert(cafeHours).values(schedule.hours.map((interval) => ({ ...interval, cafeId }))));
+  }
+  queries.push(db.delete(cafeHoursExceptions).where(eq(cafeHoursExceptions.cafeId, cafeId)));
+  if (schedule.exceptions.length > 0) {
+    queries.push(db.insert(cafeHoursExceptions).values(schedule.exceptions.map((exception) => ({ ...exception, cafeId }))));
+  }
+  return queries;
+}
+
+// SQL counterpart of recencyWeight in cafe-ranking.ts
+function recencyWeightSql() {
+  return rankingConfig.halfLifeDays
+    ? sql`power(0.5, extract(epoch from (now() - ${ratings.createdAt})) / 86400 / ${rankingConfig.halfLifeDays})`
+    : sql`1`;
+}
+
 export class DatabaseStorage implements IStorage {
   public sessionStore: any; // Using any to avoid SessionStore type issues
 
@@ -115,18 +321,38 @@ export class DatabaseStorage implements IStorage {
 
   async deleteUser(id: number): Promise<boolean> {
     try {
-      // Begin by deleting related data for this user
-
-      // Delete ratings by this user
-      await db.delete(ratings).where(eq(ratings.userId, id));
-
-      // Delete favorites by this user
-      await db.delete(favorites).where(eq(favorites.userId, id));
-
-      // Finally delete the user
-      const result = await db.delete(users).where(eq(users.id, id));
-
-      return result.rowCount > 0;
+      const userRatingIds = db.select({ id: ratings.id }).from(ratings).where(eq(ratings.userId, id));
+
+      // Delete the user and everything that belongs to them in one
+      // transaction, so a failure part way leaves nothing half removed
+      const [, , deletedPhotos, , , , , , , , , deletedUsers] = await db.batch([
+        // Owner replies written by this user or posted on their ratings
+        db
+          .delete(reviewReplies)
+          .where(or(eq(reviewReplies.userId, id), inArray(reviewReplies.ratingId, userRatingIds))),
+        // Reports filed by this user or against their ratings
+        db
+          .delete(reviewReports)
+          .where(or(eq(reviewReports.reporterId, id), inArray(reviewReports.ratingId, userRatingIds))),
+        // Photos this user attached to their reviews; files are removed below
+        db.delete(reviewPhotos).where(eq(reviewPhotos.userId, id)).returning(photoKeyColumns),
+        db.delete(ratings).where(eq(ratings.userId, id)),
+        db.delete(favorites).where(eq(favorites.userId, id)),
+        // Ownership claims, owner links and change proposals for this user
+        db.delete(cafeOwners).where(eq(cafeOwners.userId, id)),
+        db.delete(cafeClaims).where(eq(cafeClaims.userId, id)),
+        db.delete(cafeChangeProposals).where(eq(cafeChangeProposals.userId, id)),
+        // Reports, claims and proposals this user reviewed as an admin are
+        // kept without the reviewer
+        db.update(reviewReports).set({ resolvedBy: null }).where(eq(reviewReports.resolvedBy, id)),
+        db.update(cafeClaims).set({ reviewedBy: null }).where(eq(cafeClaims.reviewedBy, id)),
+        db.update(cafeChangeProposals).set({ reviewedBy: null }).where(eq(cafeChangeProposals.reviewedBy, id)),
+        // Finally the user
+        db.delete(users).where(eq(users.id, id)).returning({ id: users.id }),
+      ]);
+      await deletePhotoFiles(photoFileKeys(deletedPhotos));
+
+      return deletedUsers.length > 0;
     } catch (error) {
       console.error("Error deleting user:", error);
       return false;
@@ -173,60 +399,152 @@ export class DatabaseStorage implements IStorage {
     return cafe;
   }
 
-  async getCafeWithDetails(
-    id: number,
-    userId?: number,
-  ): Promise<CafeWithDetails | undefined> {
-    // const rows = await db
-    //   .select({
-    //     cafe: cafes,
-    //     roastLevels: sql`array_agg(${cafeRoastLevels.roastLevel})`,
-    //     brewingMethods: cafeBrewingMethods,
-    //   })
-    //   .from(cafes)
-    //   .where(eq(cafes.id, id))
-    //   .leftJoin(cafeRoastLevels, eq(cafes.id, cafeRoastLevels.cafeId))
-    //   .groupBy(cafes)
-    //   .leftJoin(cafeBrewingMethods, eq(cafes.id, cafeBrewingMethods.cafeId));
-    // console.log(rows);
-
-    const [cafe] = await db.select().from(cafes).where(eq(cafes.id, id));
-    if (!cafe) return undefined;
-
-    // Get roast levels
-    const roastLevels = await this.getCafeRoastLevels(id);
-
-    // Get brewing methods
-    const brewingMethods = await this.getCafeBrewingMethods(id);
+  // Columns for a CafeWithDetails row. Related rows are aggregated with
+  // correlated subqueries, so loading any number of cafes is a single round
+  // trip instead of one query per cafe per relation.
+  private cafeDetailsSelection(userId?: number) {
+    return {
+      ...getTableColumns(cafes),
+      roastLevels: sql<string[]>`coalesce((
+        select json_agg(${cafeRoastLevels.roastLevel} order by ${cafeRoastLevels.roastLevel})
+        from ${cafeRoastLevels}
+        where ${cafeRoastLevels.cafeId} = ${outerCafeId}
+      ), '[]'::json)`,
+      brewingMethods: sql<string[]>`coalesce((
+        select json_agg(${cafeBrewingMethods.brewingMethod} order by ${cafeBrewingMethods.brewingMethod})
+        from ${cafeBrewingMethods}
+        where ${cafeBrewingMethods.cafeId} = ${outerCafeId}
+      ), '[]'::json)`,
+      hours: sql<CafeHours[]>`coalesce((
+        select json_agg(json_build_object(
+          'id', ${cafeHours.id},
+          'cafeId', ${cafeHours.cafeId},
+          'dayOfWeek', ${cafeHours.dayOfWeek},
+          'opensAt', ${cafeHours.opensAt},
+          'closesAt', ${cafeHours.closesAt}
+        ) order by ${cafeHours.dayOfWeek}, ${cafeHours.opensAt})
+        from ${cafeHours}
+        where ${cafeHours.cafeId} = ${outerCafeId}
+      ), '[]'::json)`,
+      hoursExceptions: sql<CafeHoursException[]>`coalesce((
+        select json_agg(json_build_object(
+          'id', ${cafeHoursExceptions.id},
+          'cafeId', ${cafeHoursExceptions.cafeId},
+          'date', ${cafeHoursExceptions.date},
+          'isClosed', ${cafeHoursExceptions.isClosed},
+          'opensAt', ${cafeHoursExceptions.opensAt},
+          'closesAt', ${cafeHoursExceptions.closesAt},
+          'note', ${cafeHoursExceptions.note}
+        ) order by ${cafeHoursExceptions.date})
+        from ${cafeHoursExceptions}
+        where ${cafeHoursExceptions.cafeId} = ${outerCafeId}
+      ), '[]'::json)`,
+      averageRating: visibleRatingAverage(ratings.rating),
+      totalRatings: visibleRatingCount(),
+      subScores: sql<RatingSubScores>`(
+        select json_build_object(${sql.join(
+          ratingSubScoreKeys.map((key) => sql`${sql.raw(`'${key}'`)}, round(avg(${ratings[key]}), 1)`),
+          sql`, `,
+        )})
+        from ${ratings}
+        where ${ratings.cafeId} = ${outerCafeId} and not ${ratings.isHidden}
+      )`,
+      // Inputs to the ranking score, which is computed in cafe-ranking.ts
+      rankingStats: sql<RatingStats>`(
+        select json_build_object(
+          'weightedSum', coalesce(sum(${ratings.rating} * ${recencyWeightSql()}), 0),
+          'totalWeight', coalesce(sum(${recencyWeightSql()}), 0)
+        )
+        from ${ratings}
+        where ${ratings.cafeId} = ${outerCafeId} and not ${ratings.isHidden}
+      )`,
+      ratingPriorMean: sql<string | null>`(
+        select avg(${ratings.rating})
+        from ${ratings}
+        where not ${ratings.isHidden}
+      )`,
+      coverPhoto: sql<CafeCoverPhoto | null>`(
+        select json_build_object(
+          'id', ${cafePhotos.id},
+          'imageUrl', ${cafePhotos.imageUrl},
+          'thumbnailUrl', ${cafePhotos.thumbnailUrl},
+          'caption', ${cafePhotos.caption},
+          'attribution', ${cafePhotos.attribution}
+        )
+        from ${cafePhotos}
+        where ${cafePhotos.cafeId} = ${outerCafeId} and ${cafePhotos.isCover}
+      )`,
+      isFavorite: userId
+        ? sql<boolean>`exists (
+            select 1 from ${favorites}
+            where ${favorites.cafeId} = ${outerCafeId} and ${favorites.userId} = ${userId}
+          )`
+        : sql<boolean>`false`,
+    };
+  }
 
-    // Get rating info
-    const ratingInfo = await this.getCafeAverageRating(id);
+  // Run the details query with optional conditions and map rows to CafeWithDetails
+  private async queryCafesWithDetails(
+    where: SQL | undefined,
+    userId?: number,
+    relevance?: SQL<number>,
+    order: { orderBy: SQL[]; limit?: number } = { orderBy: [asc(cafes.id)] },
+  ): Promise<CafeWithDetails[]> {
+    const query = db
+      .select({
+        ...this.cafeDetailsSelection(userId),
+        relevance: relevance ?? sql<number | null>`null`,
+      })
+      .from(cafes)
+      .where(where)
+      .orderBy(...order.orderBy)
+      .$dynamic();
+    const rows = await (order.limit === undefined ? query : query.limit(order.limit));
+
+    return rows.map(({ averageRating, totalRatings, rankingStats, ratingPriorMean, isFavorite, relevance, ...cafe }) => {
+      const cafeWithDetails: CafeWithDetails = {
+        ...cafe,
+        averageRating: averageRating === null ? 0 : parseFloat(averageRating),
+        totalRatings: Number(totalRatings),
+        score: bayesianScore(
+          { weightedSum: Number(rankingStats.weightedSum), totalWeight: Number(rankingStats.totalWeight) },
+          ratingPriorMean === null ? null : parseFloat(ratingPriorMean),
+        ),
+      };
 
-    const cafeWithDetails: CafeWithDetails = {
-      ...cafe,
-      roastLevels: roastLevels.map((rl) => rl.roastLevel),
-      brewingMethods: brewingMethods.map((bm) => bm.brewingMethod),
-      averageRating: ratingInfo.average,
-      totalRatings: ratingInfo.count,
-    };
+      // Favorite status is only meaningful for a signed-in user
+      if (userId) {
+        cafeWithDetails.isFavorite = isFavorite;
+      }
 
-    // Check if user has favorited this cafe
-    if (userId) {
-      cafeWithDetails.isFavorite = await this.isUserFavorite(userId, id);
-    }
+      // Only set when the listing was a text search
+      if (relevance !== null) {
+        cafeWithDetails.relevance = Number(relevance);
+      }
 
-    return cafeWithDetails;
+      return cafeWithDetails;
+    });
   }
 
-  async listCafes(
-    filters?: CafeFilter,
+  async getCafeWithDetails(
+    id: number,
     userId?: number,
-  ): Promise<CafeWithDetails[]> {
-    // Base query
-    let query = db.select().from(cafes);
+  ): Promise<CafeWithDetails | undefined> {
+    const [cafe] = await this.queryCafesWithDetails(eq(cafes.id, id), userId);
+    return cafe;
+  }
+
+  async getCafesWithDetails(ids: number[]): Promise<CafeWithDetails[]> {
+    if (ids.length === 0) return [];
+    return this.queryCafesWithDetails(inArray(cafes.id, ids));
+  }
 
+  // Where conditions for a cafe listing's filters, other than opening
+  // hours, and the relevance expression when the listing is a text search
+  private cafeFilterConditions(filters?: CafeFilter): { conditions: SQL[]; relevance?: SQL<number> } {
     // Create where conditions array
-    const whereConditions = [];
+    const whereConditions: SQL[] = [];
+    let relevance: SQL<number> | undefined;
 
     // Status filter - if explicit status is provided, use that
     // Otherwise, default to showing only published cafes for public routes
@@ -239,6 +557,15 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (filters) {
+      // Exact name and address, used to detect duplicates before creating a cafe
+      if (filters.name) {
+        whereConditions.push(eq(cafes.name, filters.name));
+      }
+
+      if (filters.address) {
+        whereConditions.push(eq(cafes.address, filters.address));
+      }
+
       // Area filter
       if (filters.area && filters.area !== "") {
         whereConditions.push(eq(cafes.area, filters.area));
@@ -254,86 +581,235 @@ export class DatabaseStorage implements IStorage {
         whereConditions.push(eq(cafes.sellsCoffeeBeans, filters.sellsCoffeeBeans));
       }
 
-      // Text search filter
-      if (filters.query && filters.query.trim() !== "") {
-        const searchTerm = `%${filters.query.toLowerCase()}%`;
-        whereConditions.push(
-          or(
-            ilike(cafes.name, searchTerm),
-            ilike(cafes.description, searchTerm),
-            ilike(cafes.area, searchTerm),
-            ilike(cafes.address, searchTerm),
-          ),
-        );
+      // Amenity filters - cafe must offer every selected amenity
+      for (const amenity of cafeAmenityKeys) {
+        if (filters[amenity] === true) {
+          whereConditions.push(eq(cafes[amenity], true));
+        }
+      }
+
+      // Text search filter, ranked for the default sort
+      const terms = searchTerms(filters.query || "");
+      if (terms.length > 0) {
+        const search = cafeTextSearch(terms);
+        whereConditions.push(search.where);
+        relevance = search.relevance;
+      }
+
+      // Roast level filter - café must have ANY (default) or ALL selected roast levels
+      if (filters.roastLevels && filters.roastLevels.length > 0) {
+        const roastLevels = Array.from(new Set(filters.roastLevels));
+        const required = filters.roastLevelsMode === "all" ? roastLevels.length : 1;
+        whereConditions.push(sql`(
+          select count(distinct ${cafeRoastLevels.roastLevel})
+          from ${cafeRoastLevels}
+          where ${cafeRoastLevels.cafeId} = ${outerCafeId}
+            and ${inArray(cafeRoastLevels.roastLevel, roastLevels)}
+        ) >= ${required}`);
       }
-    }
 
-    // Apply all conditions
-    if (whereConditions.length > 0) {
-      query = query.where(and(...whereConditions));
+      // Brewing method filter - café must have ANY (default) or ALL selected brewing methods
+      if (filters.brewingMethods && filters.brewingMethods.length > 0) {
+        const brewingMethods = Array.from(new Set(filters.brewingMethods));
+        const required = filters.brewingMethodsMode === "all" ? brewingMethods.length : 1;
+        whereConditions.push(sql`(
+          select count(distinct ${cafeBrewingMethods.brewingMethod})
+          from ${cafeBrewingMethods}
+          where ${cafeBrewingMethods.cafeId} = ${outerCafeId}
+            and ${inArray(cafeBrewingMethods.brewingMethod, brewingMethods)}
+        ) >= ${required}`);
+      }
+
+      // Minimum rating filter, compared against the rounded average that is displayed
+      if (filters.minRating && filters.minRating > 0) {
+        whereConditions.push(sql`coalesce(${visibleRatingAverage(ratings.rating)}, 0) >= ${filters.minRating}`);
+      }
+
+      // Sub-score filters; a null average never satisfies the comparison
+      for (const key of ratingSubScoreKeys) {
+        const minScore = filters[subScoreFilterKeys[key]];
+        if (minScore && minScore > 0) {
+          whereConditions.push(sql`${visibleRatingAverage(ratings[key])} >= ${minScore}`);
+        }
+      }
     }
 
-    // Execute query to get filtered cafes
-    const filteredCafes = await query;
+    return { conditions: whereConditions, relevance };
+  }
 
-    // Enhancement: We could optimize further by using JOINs, but this follows
-    // the existing pattern of the memory storage implementation
-    const cafesWithDetails: CafeWithDetails[] = await Promise.all(
-      filteredCafes.map(async (cafe) => {
-        const cafeDetails = await this.getCafeWithDetails(cafe.id, userId);
-        return cafeDetails!;
-      }),
+  async listCafes(
+    filters?: CafeFilter,
+    userId?: number,
+  ): Promise<CafeWithDetails[]> {
+    const { conditions, relevance } = this.cafeFilterConditions(filters);
+    let result = await this.queryCafesWithDetails(
+      conditions.length > 0 ? and(...conditions) : undefined,
+      userId,
+      relevance,
     );
 
-    // Apply post-fetch filters that require the CafeWithDetails info
-    let result = cafesWithDetails;
-
-    // Roast level filter - café must have ALL selected roast levels
-    if (filters?.roastLevels && filters.roastLevels.length > 0) {
-      // Log for debugging
-      console.log("Filtering by roast levels:", filters.roastLevels);
+    // Opening hours filter - evaluated in Boston local time against the
+    // hours loaded with each cafe, since exceptions and overnight intervals
+    // are simpler to get right in one place
+    if (filters?.openAt || filters?.openNow) {
+      const at = filters.openAt || new Date();
+      result = result.filter((cafe) =>
+        isOpenAt(cafe.hours, cafe.hoursExceptions, at),
+      );
+    }
 
-      result = result.filter((cafe) => {
-        // Log for debugging
-        console.log(
-          `Cafe ${cafe.id} (${cafe.name}) has roast levels:`,
-          cafe.roastLevels,
-        );
+    // Distance from the reference point, then the requested sort order
+    result = applyDistances(result, filters);
+    return sortCafes(result, filters?.sortBy);
+  }
 
-        // Check if the cafe has ALL the selected roast levels
-        return filters.roastLevels!.every((level) =>
-          cafe.roastLevels.includes(level),
-        );
-      });
+  // Default and reviews_count pages are read in SQL: the rows after the
+  // cursor's sort key, one more than the page to tell whether another
+  // follows, with the total counted separately. Opening hours, distances
+  // and ranking scores are computed in-process, so those listings are
+  // loaded whole and paged by paginateCafes.
+  async listCafesPage(
+    filters: CafeFilter,
+    pagination: CafePagination,
+    userId?: number,
+  ): Promise<CafePage> {
+    const { conditions, relevance } = this.cafeFilterConditions(filters);
+    const sortColumns = sqlSortColumns(filters.sortBy, relevance);
+    if (!sortColumns || filters.openAt || filters.openNow) {
+      const cafes = await this.listCafes(filters, userId);
+      return paginateCafes(cafes, filters.sortBy, pagination);
     }
 
-    // Brewing method filter - café must have ALL selected brewing methods
-    if (filters?.brewingMethods && filters.brewingMethods.length > 0) {
-      // Log for debugging
-      console.log("Filtering by brewing methods:", filters.brewingMethods);
+    // A cursor for another sort or search is ignored, as in paginateCafes
+    const after = pagination.cursor ? decodeCafeCursor(pagination.cursor, filters.sortBy) : null;
+    const pageConditions = after && after.length === sortColumns.length && after.every((value) => value !== null)
+      ? [...conditions, keysetCondition(sortColumns, after)]
+      : conditions;
+
+    const [[{ total }], rows] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` }).from(cafes).where(and(...conditions)),
+      this.queryCafesWithDetails(and(...pageConditions), userId, relevance, {
+        orderBy: sortColumns.map((column) => (column.descending ? desc(column.expression) : asc(column.expression))),
+        limit: pagination.limit + 1,
+      }),
+    ]);
 
-      result = result.filter((cafe) => {
-        // Log for debugging
-        console.log(
-          `Cafe ${cafe.id} (${cafe.name}) has brewing methods:`,
-          cafe.brewingMethods,
-        );
+    const page = applyDistances(rows.slice(0, pagination.limit), filters);
+    const last = page[page.length - 1];
+    return {
+      cafes: page,
+      nextCursor: rows.length > pagination.limit && last
+        ? encodeCafeCursor(filters.sortBy, getSortKey(last, filters.sortBy))
+        : null,
+      total,
+    };
+  }
 
-        // Check if the cafe has ALL the selected brewing methods
-        return filters.brewingMethods!.every((method) =>
-          cafe.brewingMethods.includes(method),
-        );
-      });
-    }
+  // Each facet is one GROUP BY query over its listing's conditions.
+  // Opening hours are evaluated in-process, so with that filter the open
+  // cafes are listed once and every count is limited to them.
+  async countCafeFacets(filters: CafeFilter): Promise<CafeFacets> {
+    const openCafeIds = filters.openAt || filters.openNow
+      ? (await this.listCafes(withoutFacetFilters(filters))).map((cafe) => cafe.id)
+      : undefined;
+
+    const facetWhere = (facet: keyof CafeFacets) => {
+      const { conditions } = this.cafeFilterConditions(facetFilters(filters, facet));
+      return and(...conditions, openCafeIds && inArray(cafes.id, openCafeIds));
+    };
+    const facetCafeIds = (facet: keyof CafeFacets) =>
+      db.select({ id: cafes.id }).from(cafes).where(facetWhere(facet));
+    const count = sql<number>`count(*)::int`;
+    const stars = sql<number>`floor(coalesce(${visibleRatingAverage(ratings.rating)}, 0))::int`;
+
+    const [roastRows, brewingRows, areaRows, priceRows, ratingRows, areas] = await Promise.all([
+      db
+        .select({ value: cafeRoastLevels.roastLevel, count })
+        .from(cafeRoastLevels)
+        .where(inArray(cafeRoastLevels.cafeId, facetCafeIds("roastLevels")))
+        .groupBy(cafeRoastLevels.roastLevel),
+      db
+        .select({ value: cafeBrewingMethods.brewingMethod, count })
+        .from(cafeBrewingMethods)
+        .where(inArray(cafeBrewingMethods.cafeId, facetCafeIds("brewingMethods")))
+        .groupBy(cafeBrewingMethods.brewingMethod),
+      db.select({ value: cafes.area, count }).from(cafes).where(facetWhere("areas")).groupBy(cafes.area),
+      db.select({ value: cafes.priceLevel, count }).from(cafes).where(facetWhere("priceLevels")).groupBy(cafes.priceLevel),
+      // Cafes by whole stars of their displayed average; a rating bucket
+      // counts every cafe at or above it
+      db.select({ value: stars, count }).from(cafes).where(facetWhere("ratings")).groupBy(stars),
+      this.listAreas(),
+    ]);
+
+    const countsOf = <T>(rows: { value: T; count: number }[]) => new Map(rows.map((row) => [row.value, row.count]));
+    const roastCounts = countsOf(roastRows);
+    const brewingCounts = countsOf(brewingRows);
+    const areaCounts = countsOf(areaRows);
+    const priceCounts = countsOf(priceRows);
 
-    // Minimum rating filter
-    if (filters?.minRating && filters.minRating > 0) {
-      result = result.filter(
-        (cafe) => (cafe.averageRating || 0) >= filters.minRating!,
-      );
+    return {
+      roastLevels: facetCounts(roastLevelEnum.enumValues, (level) => roastCounts.get(level) ?? 0),
+      brewingMethods: facetCounts(brewingMethodEnum.enumValues, (method) => brewingCounts.get(method) ?? 0),
+      areas: facetCounts(areas, (area) => areaCounts.get(area) ?? 0),
+      priceLevels: facetCounts(PRICE_LEVELS, (level) => priceCounts.get(level) ?? 0),
+      ratings: facetCounts(RATING_BUCKETS, (bucket) =>
+        ratingRows.reduce((total, row) => (row.value >= bucket ? total + row.count : total), 0),
+      ),
+    };
+  }
+
+  // Only the pin columns are selected, skipping the hours, photos and
+  // ranking stats of a full listing. Opening hours are evaluated
+  // in-process, so with that filter the cafes are listed whole instead.
+  async listCafeMapPins(filters: CafeFilter, userId?: number): Promise<CafeMapPin[]> {
+    if (filters.openAt || filters.openNow) {
+      const cafes = await this.listCafes(filters, userId);
+      return cafes.map(toCafeMapPin);
     }
 
-    return result;
+    const { roastLevels, brewingMethods, averageRating, totalRatings, isFavorite } = this.cafeDetailsSelection(userId);
+    const { conditions } = this.cafeFilterConditions(filters);
+    const rows = await db
+      .select({
+        id: cafes.id,
+        name: cafes.name,
+        area: cafes.area,
+        address: cafes.address,
+        latitude: cafes.latitude,
+        longitude: cafes.longitude,
+        roastLevels,
+        brewingMethods,
+        averageRating,
+        totalRatings,
+        isFavorite,
+      })
+      .from(cafes)
+      .where(and(...conditions));
+
+    return rows.map(({ averageRating, totalRatings, isFavorite, ...cafe }) => {
+      const pin: CafeMapPin = {
+        ...cafe,
+        averageRating: averageRating === null ? 0 : parseFloat(averageRating),
+        totalRatings: Number(totalRatings),
+      };
+
+      // Favorite status is only meaningful for a signed-in user
+      if (userId) {
+        pin.isFavorite = isFavorite;
+      }
+
+      return pin;
+    });
+  }
+
+  async getCafeByGooglePlaceId(placeId: string): Promise<Cafe | undefined> {
+    const [cafe] = await db.select().from(cafes).where(eq(cafes.googlePlaceId, placeId));
+    return cafe;
+  }
+
+  async getCafesByExternalIds(externalIds: string[]): Promise<Cafe[]> {
+    if (externalIds.length === 0) return [];
+    return db.select().from(cafes).where(inArray(cafes.externalId, externalIds));
   }
 
   async createCafe(insertCafe: InsertCafe): Promise<Cafe> {
@@ -354,6 +830,58 @@ export class DatabaseStorage implements IStorage {
     return updatedCafe;
   }
 
+  async bulkSaveCafes(writes: BulkCafeWrite[]): Promise<{ created: number; updated: number }> {
+    if (writes.length === 0) return { created: 0, updated: 0 };
+    const newCount = writes.filter((write) => write.cafeId === null).length;
+
+    // Reserve ids for the new cafes up front, so their roast levels and
+    // brewing methods can be inserted in the same batch
+    const reserved = newCount > 0
+      ? await db.execute<{ id: number }>(
+          sql`select nextval(pg_get_serial_sequence('cafes', 'id'))::int as id from generate_series(1, ${newCount})`,
+        )
+      : { rows: [] };
+    const newIds = reserved.rows.map((row) => row.id);
+
+    const queries: BatchItem<"pg">[] = [];
+    const roastLevelRows: InsertCafeRoastLevel[] = [];
+    const brewingMethodRows: InsertCafeBrewingMethod[] = [];
+
+    for (const { cafeId, row } of writes) {
+      const { roastLevels, brewingMethods, ...cafeData } = row;
+      let id = cafeId;
+      if (id === null) {
+        id = newIds.shift()!;
+        queries.push(db.insert(cafes).values({ ...cafeData, id, status: "draft" }));
+      } else {
+        queries.push(db.update(cafes).set(cafeData).where(eq(cafes.id, id)));
+      }
+
+      if (roastLevels) {
+        if (cafeId !== null) {
+          queries.push(db.delete(cafeRoastLevels).where(eq(cafeRoastLevels.cafeId, id)));
+        }
+        roastLevelRows.push(...roastLevels.map((roastLevel) => ({ cafeId: id!, roastLevel })));
+      }
+      if (brewingMethods) {
+        if (cafeId !== null) {
+          queries.push(db.delete(cafeBrewingMethods).where(eq(cafeBrewingMethods.cafeId, id)));
+        }
+        brewingMethodRows.push(...brewingMethods.map((brewingMethod) => ({ cafeId: id!, brewingMethod })));
+      }
+    }
+
+    if (roastLevelRows.length > 0) {
+      queries.push(db.insert(cafeRoastLevels).values(roastLevelRows));
+    }
+    if (brewingMethodRows.length > 0) {
+      queries.push(db.insert(cafeBrewingMethods).values(brewingMethodRows));
+    }
+
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    return { created: newCount, updated: writes.length - newCount };
+  }
+
   async deleteCafe(id: number): Promise<boolean> {
     try {
       // Use a transaction to ensure all related data is deleted
@@ -365,13 +893,60 @@ export class DatabaseStorage implements IStorage {
         .delete(cafeBrewingMethods)
         .where(eq(cafeBrewingMethods.cafeId, id));
 
-      // Step 3: Delete ratings
+      // Step 3: Delete opening hours and exceptions
+      await db.delete(cafeHours).where(eq(cafeHours.cafeId, id));
+      await db
+        .delete(cafeHoursExceptions)
+        .where(eq(cafeHoursExceptions.cafeId, id));
+
+      // Step 4: Delete review photos with their files, then owner replies,
+      // reports and ratings
+      const deletedPhotos = await db
+        .delete(reviewPhotos)
+        .where(eq(reviewPhotos.cafeId, id))
+        .returning(photoKeyColumns);
+      await deletePhotoFiles(photoFileKeys(deletedPhotos));
+
+      await db
+        .delete(reviewReplies)
+        .where(
+          inArray(
+            reviewReplies.ratingId,
+            db.select({ id: ratings.id }).from(ratings).where(eq(ratings.cafeId, id)),
+          ),
+        );
+      await db
+        .delete(reviewReports)
+        .where(
+          inArray(
+            reviewReports.ratingId,
+            db.select({ id: ratings.id }).from(ratings).where(eq(ratings.cafeId, id)),
+          ),
+        );
       await db.delete(ratings).where(eq(ratings.cafeId, id));
 
-      // Step 4: Delete favorites
+      // Step 5: Delete favorites
       await db.delete(favorites).where(eq(favorites.cafeId, id));
 
-      // Step 5: Delete the cafe itself
+      // Step 6: Delete the cafe's own gallery with its files
+      const deletedCafePhotos = await db
+        .delete(cafePhotos)
+        .where(eq(cafePhotos.cafeId, id))
+        .returning(cafePhotoKeyColumns);
+      await deletePhotoFiles(photoFileKeys(deletedCafePhotos));
+
+      // Step 7: Delete owner links, ownership claims and change proposals
+      await db.delete(cafeOwners).where(eq(cafeOwners.cafeId, id));
+      await db.delete(cafeClaims).where(eq(cafeClaims.cafeId, id));
+      await db.delete(cafeChangeProposals).where(eq(cafeChangeProposals.cafeId, id));
+
+      // Step 8: Keep import candidates that created the cafe, without the link
+      await db
+        .update(importCandidates)
+        .set({ cafeId: null })
+        .where(eq(importCandidates.cafeId, id));
+
+      // Step 9: Delete the cafe itself
       await db.delete(cafes).where(eq(cafes.id, id));
 
       return true;
@@ -381,18 +956,6 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async searchCafes(
-    query: string,
-    userId?: number,
-  ): Promise<CafeWithDetails[]> {
-    if (!query || query.trim() === "") {
-      return this.listCafes(undefined, userId);
-    }
-
-    // Make sure we only return published cafes for the public search
-    return this.listCafes({ query, status: "published" }, userId);
-  }
-
   async listAreas(): Promise<string[]> {
     const results = await db
       .selectDistinct({ area: cafes.area })
@@ -550,6 +1113,74 @@ export class DatabaseStorage implements IStorage {
     return newBrewingMethods;
   }
 
+  // Cafe opening hours methods
+  async getCafeHours(cafeId: number): Promise<CafeHours[]> {
+    return db
+      .select()
+      .from(cafeHours)
+      .where(eq(cafeHours.cafeId, cafeId))
+      .orderBy(cafeHours.dayOfWeek, cafeHours.opensAt);
+  }
+
+  async updateCafeHours(
+    cafeId: number,
+    hours: Omit<InsertCafeHours, "cafeId">[],
+  ): Promise<CafeHours[]> {
+    // Replace the whole weekly schedule for this cafe
+    await db.delete(cafeHours).where(eq(cafeHours.cafeId, cafeId));
+
+    if (hours.length > 0) {
+      await db
+        .insert(cafeHours)
+        .values(hours.map((interval) => ({ ...interval, cafeId })));
+    }
+
+    return this.getCafeHours(cafeId);
+  }
+
+  async getCafeHoursExceptions(cafeId: number): Promise<CafeHoursException[]> {
+    return db
+      .select()
+      .from(cafeHoursExceptions)
+      .where(eq(cafeHoursExceptions.cafeId, cafeId))
+      .orderBy(cafeHoursExceptions.date);
+  }
+
+  async updateCafeHoursExceptions(
+    cafeId: number,
+    exceptions: Omit<InsertCafeHoursException, "cafeId">[],
+  ): Promise<CafeHoursException[]> {
+    // Replace all date-specific exceptions for this cafe
+    await db
+      .delete(cafeHoursExceptions)
+      .where(eq(cafeHoursExceptions.cafeId, cafeId));
+
+    if (exceptions.length > 0) {
+      await db
+        .insert(cafeHoursExceptions)
+        .values(exceptions.map((exception) => ({ ...exception, cafeId })));
+    }
+
+    return this.getCafeHoursExceptions(cafeId);
+  }
+  async replaceCafeSchedule(
+    cafeId: number,
+    schedule: CafeSchedule,
+  ): Promise<{ hours: CafeHours[]; exceptions: CafeHoursException[] }> {
+    const queries = scheduleQueries(cafeId, schedule);
+    queries.push(
+      db.select().from(cafeHours).where(eq(cafeHours.cafeId, cafeId)).orderBy(cafeHours.dayOfWeek, cafeHours.opensAt),
+      db.select().from(cafeHoursExceptions).where(eq(cafeHoursExceptions.cafeId, cafeId)).orderBy(cafeHoursExceptions.date),
+    );
+
+    const results = await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    return {
+      hours: results[results.length - 2] as CafeHours[],
+      exceptions: results[results.length - 1] as CafeHoursException[],
+    };
+  }
+
+
   // Rating methods
   async getRating(id: number): Promise<Rating | undefined> {
     const [rating] = await db.select().from(ratings).where(eq(ratings.id, id));
@@ -574,19 +1205,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createRating(insertRating: InsertRating): Promise<Rating> {
-    // Check if the user has already rated this cafe
-    const existingRating = await this.getUserRatingForCafe(
-      insertRating.userId,
-      insertRating.cafeId,
-    );
-
-    if (existingRating) {
-      // Update the existing rating
-      return (await this.updateRating(existingRating.id, insertRating))!;
-    }
-
-    // Create a new rating
-    const [rating] = await db.insert(ratings).values(insertRating).returning();
+    // Upsert on the (userId, cafeId) unique index so a repeat submission
+    // replaces the existing rating instead of failing. Fields it leaves out
+    // are cleared rather than kept from the earlier rating.
+    const [rating] = await db
+      .insert(ratings)
+      .values(insertRating)
+      .onConflictDoUpdate({
+        target: [ratings.userId, ratings.cafeId],
+        set: {
+          rating: insertRating.rating,
+          review: insertRating.review ?? null,
+          coffeeScore: insertRating.coffeeScore ?? null,
+          atmosphereScore: insertRating.atmosphereScore ?? null,
+          workScore: insertRating.workScore ?? null,
+          serviceScore: insertRating.serviceScore ?? null,
+          valueScore: insertRating.valueScore ?? null,
+          editedAt: new Date(),
+        },
+      })
+      .returning();
 
     return rating;
   }
@@ -597,13 +1235,26 @@ export class DatabaseStorage implements IStorage {
   ): Promise<Rating | undefined> {
     const [updatedRating] = await db
       .update(ratings)
-      .set(ratingUpdate)
+      .set({ ...ratingUpdate, editedAt: new Date() })
       .where(eq(ratings.id, id))
       .returning();
 
     return updatedRating;
   }
 
+  async deleteRating(id: number): Promise<boolean> {
+    // The owner reply, any reports and the photos go with the review
+    const [, , deletedPhotos, deleted] = await db.batch([
+      db.delete(reviewReplies).where(eq(reviewReplies.ratingId, id)),
+      db.delete(reviewReports).where(eq(reviewReports.ratingId, id)),
+      db.delete(reviewPhotos).where(eq(reviewPhotos.ratingId, id)).returning(photoKeyColumns),
+      db.delete(ratings).where(eq(ratings.id, id)).returning({ id: ratings.id }),
+    ]);
+
+    await deletePhotoFiles(photoFileKeys(deletedPhotos));
+    return deleted.length > 0;
+  }
+
   async getCafeAverageRating(
     cafeId: number,
   ): Promise<{ average: number; count: number }> {
@@ -613,7 +1264,7 @@ export class DatabaseStorage implements IStorage {
         count: count(),
       })
       .from(ratings)
-      .where(eq(ratings.cafeId, cafeId));
+      .where(and(eq(ratings.cafeId, cafeId), eq(ratings.isHidden, false)));
 
     return {
       average: result.average
@@ -623,6 +1274,466 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async listCafeReviews(
+    cafeId: number,
+    query: ReviewListQuery,
+  ): Promise<CafeReviewPage> {
+    // Newest first breaks ties for the rating-based sorts
+    const orderBy =
+      query.sort === "highest"
+        ? [desc(ratings.rating), desc(ratings.createdAt), desc(ratings.id)]
+        : query.sort === "lowest"
+          ? [asc(ratings.rating), desc(ratings.createdAt), desc(ratings.id)]
+          : [desc(ratings.createdAt), desc(ratings.id)];
+
+    const offset = (query.page - 1) * query.limit;
+    const visibleRatings = and(eq(ratings.cafeId, cafeId), eq(ratings.isHidden, false));
+
+    // Page and histogram in a single round trip
+    const [rows, histogramRows] = await db.batch([
+      db
+        .select({
+          id: ratings.id,
+          rating: ratings.rating,
+          review: ratings.review,
+          createdAt: ratings.createdAt,
+          editedAt: ratings.editedAt,
+          authorId: users.id,
+          authorName: users.name,
+          authorPhotoUrl: users.photoUrl,
+          ownerReply: {
+            id: reviewReplies.id,
+            reply: reviewReplies.reply,
+            createdAt: reviewReplies.createdAt,
+            editedAt: reviewReplies.editedAt,
+          },
+          photos: sql<ReviewPhotoSummary[]>`coalesce((
+            select json_agg(json_build_object(
+              'id', ${reviewPhotos.id},
+              'imageUrl', ${reviewPhotos.imageUrl},
+              'thumbnailUrl', ${reviewPhotos.thumbnailUrl},
+              'width', ${reviewPhotos.width},
+              'height', ${reviewPhotos.height}
+            ) order by ${reviewPhotos.id})
+            from ${reviewPhotos}
+            where ${reviewPhotos.ratingId} = ${outerRatingId}
+          ), '[]'::json)`,
+        })
+        .from(ratings)
+        .innerJoin(users, eq(ratings.userId, users.id))
+        .leftJoin(reviewReplies, eq(reviewReplies.ratingId, ratings.id))
+        .where(visibleRatings)
+        .orderBy(...orderBy)
+        .limit(query.limit)
+        .offset(offset),
+      db
+        .select({ rating: ratings.rating, count: count() })
+        .from(ratings)
+        .where(visibleRatings)
+        .groupBy(ratings.rating),
+    ]);
+
+    const histogram: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let total = 0;
+    for (const row of histogramRows) {
+      histogram[row.rating] = row.count;
+      total += row.count;
+    }
+
+    return {
+      reviews: rows.map((row) => ({
+        id: row.id,
+        rating: row.rating,
+        review: row.review,
+        createdAt: row.createdAt,
+        editedAt: row.editedAt,
+        author: {
+          id: row.authorId,
+          name: row.authorName,
+          photoUrl: row.authorPhotoUrl,
+        },
+        ownerReply: row.ownerReply,
+        photos: row.photos,
+      })),
+      page: query.page,
+      total,
+      hasMore: offset + rows.length < total,
+      histogram,
+    };
+  }
+
+  // Review reply methods
+  async getReviewReply(ratingId: number): Promise<ReviewReply | undefined> {
+    const [reply] = await db
+      .select()
+      .from(reviewReplies)
+      .where(eq(reviewReplies.ratingId, ratingId));
+    return reply;
+  }
+
+  async createReviewReply(newReply: NewReviewReply): Promise<ReviewReply> {
+    const [reply] = await db.insert(reviewReplies).values(newReply).returning();
+    return reply;
+  }
+
+  async updateReviewReply(id: number, replyText: string): Promise<ReviewReply | undefined> {
+    const [reply] = await db
+      .update(reviewReplies)
+      .set({ reply: replyText, editedAt: new Date() })
+      .where(eq(reviewReplies.id, id))
+      .returning();
+    return reply;
+  }
+
+  async deleteReviewReply(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(reviewReplies)
+      .where(eq(reviewReplies.id, id))
+      .returning({ id: reviewReplies.id });
+
+    return deleted.length > 0;
+  }
+
+  // Review moderation methods
+  async getUserReviewReport(ratingId: number, reporterId: number): Promise<ReviewReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(reviewReports)
+      .where(and(eq(reviewReports.ratingId, ratingId), eq(reviewReports.reporterId, reporterId)));
+    return report;
+  }
+
+  async createReviewReport(newReport: NewReviewReport): Promise<ReviewReport> {
+    const [report] = await db.insert(reviewReports).values(newReport).returning();
+    return report;
+  }
+
+  async listReviewReports(status?: ReviewReport["status"]): Promise<ModerationQueueItem[]> {
+    // Review authors and reporters both come from the users table
+    const authors = alias(users, "authors");
+    const rows = await db
+      .select({
+        report: reviewReports,
+        rating: ratings,
+        cafe: {
+          id: cafes.id,
+          name: cafes.name,
+        },
+        author: {
+          id: authors.id,
+          name: authors.name,
+          email: authors.email,
+        },
+        reporter: {
+          id: users.id,
+          name: users.name,
+        },
+      })
+      .from(reviewReports)
+      .innerJoin(ratings, eq(reviewReports.ratingId, ratings.id))
+      .innerJoin(cafes, eq(ratings.cafeId, cafes.id))
+      .innerJoin(authors, eq(ratings.userId, authors.id))
+      .innerJoin(users, eq(reviewReports.reporterId, users.id))
+      .where(status ? eq(reviewReports.status, status) : undefined)
+      .orderBy(desc(reviewReports.createdAt), desc(reviewReports.id));
+
+    // Group by review, ordered by each review's most recent report
+    const items = new Map<number, ModerationQueueItem>();
+    for (const row of rows) {
+      let item = items.get(row.rating.id);
+      if (!item) {
+        item = {
+          review: {
+            id: row.rating.id,
+            rating: row.rating.rating,
+            review: row.rating.review,
+            createdAt: row.rating.createdAt,
+            isHidden: row.rating.isHidden,
+            cafe: row.cafe,
+            author: row.author,
+          },
+          reports: [],
+        };
+        items.set(row.rating.id, item);
+      }
+
+      item.reports.push({
+        id: row.report.id,
+        reason: row.report.reason,
+        details: row.report.details,
+        status: row.report.status,
+        resolution: row.report.resolution,
+        createdAt: row.report.createdAt,
+        reporter: row.reporter,
+      });
+    }
+
+    return Array.from(items.values());
+  }
+
+  async resolveReviewReports(ratingId: number, resolverId: number, resolution: string): Promise<number> {
+    const resolved = await db
+      .update(reviewReports)
+      .set({ status: "resolved", resolution, resolvedBy: resolverId, resolvedAt: new Date() })
+      .where(and(eq(reviewReports.ratingId, ratingId), eq(reviewReports.status, "open")))
+      .returning({ id: reviewReports.id });
+
+    return resolved.length;
+  }
+
+  // Review photo methods
+  async getReviewPhoto(id: number): Promise<ReviewPhoto | undefined> {
+    const [photo] = await db.select().from(reviewPhotos).where(eq(reviewPhotos.id, id));
+    return photo;
+  }
+
+  async getReviewPhotos(ratingId: number): Promise<ReviewPhoto[]> {
+    return db
+      .select()
+      .from(reviewPhotos)
+      .where(eq(reviewPhotos.ratingId, ratingId))
+      .orderBy(asc(reviewPhotos.id));
+  }
+
+  async listCafeReviewPhotos(cafeId: number): Promise<ReviewGalleryPhoto[]> {
+    // Photos on hidden reviews are hidden with them
+    return db
+      .select({
+        ...photoSummaryColumns,
+        ratingId: reviewPhotos.ratingId,
+        createdAt: reviewPhotos.createdAt,
+        author: {
+          id: users.id,
+          name: users.name,
+        },
+      })
+      .from(reviewPhotos)
+      .innerJoin(ratings, eq(reviewPhotos.ratingId, ratings.id))
+      .innerJoin(users, eq(reviewPhotos.userId, users.id))
+      .where(and(eq(reviewPhotos.cafeId, cafeId), eq(ratings.isHidden, false)))
+      .orderBy(desc(reviewPhotos.createdAt), desc(reviewPhotos.id));
+  }
+
+  // The rating row is locked first, so concurrent uploads to one review
+  // wait for each other and count each other's photos. The photos are
+  // only inserted while the review's count stays within maxPhotos.
+  async createReviewPhotos(newPhotos: NewReviewPhoto[], maxPhotos: number): Promise<ReviewPhoto[] | undefined> {
+    if (newPhotos.length === 0) return [];
+    const ratingId = newPhotos[0].ratingId;
+
+    const columns = getTableColumns(reviewPhotos);
+    const records = newPhotos.map((photo) =>
+      Object.fromEntries(Object.entries(photo).map(([key, value]) => [columns[key as keyof NewReviewPhoto].name, value])),
+    );
+
+    const [, photos] = await db.batch([
+      db.select({ id: ratings.id }).from(ratings).where(eq(ratings.id, ratingId)).for("update"),
+      db
+        .insert(reviewPhotos)
+        .select(sql`
+          select nextval(pg_get_serial_sequence('review_photos', 'id')), rating_id, cafe_id, user_id,
+            image_key, image_url, thumbnail_key, thumbnail_url, width, height, now()
+          from json_populate_recordset(null::${reviewPhotos}, ${JSON.stringify(records)})
+          where (
+            select count(*) from ${reviewPhotos} where ${reviewPhotos.ratingId} = ${ratingId}
+          ) + ${newPhotos.length} <= ${maxPhotos}
+        `)
+        .returning(),
+    ]);
+    return photos.length > 0 ? photos : undefined;
+  }
+
+  async deleteReviewPhoto(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(reviewPhotos)
+      .where(eq(reviewPhotos.id, id))
+      .returning(photoKeyColumns);
+
+    await deletePhotoFiles(photoFileKeys(deleted));
+    return deleted.length > 0;
+  }
+
+  // Cafe gallery methods
+  async getCafePhoto(id: number): Promise<CafePhoto | undefined> {
+    const [photo] = await db.select().from(cafePhotos).where(eq(cafePhotos.id, id));
+    return photo;
+  }
+
+  async getCafePhotos(cafeId: number): Promise<CafePhoto[]> {
+    return db
+      .select()
+      .from(cafePhotos)
+      .where(eq(cafePhotos.cafeId, cafeId))
+      .orderBy(asc(cafePhotos.position), asc(cafePhotos.id));
+  }
+
+  async createCafePhoto(newPhoto: NewCafePhoto): Promise<CafePhoto> {
+    const [photo] = await db
+      .insert(cafePhotos)
+      .values({
+        ...newPhoto,
+        position: sql`(
+          select coalesce(max(${cafePhotos.position}) + 1, 0)
+          from ${cafePhotos}
+          where ${cafePhotos.cafeId} = ${newPhoto.cafeId}
+        )`,
+        isCover: sql`not exists (
+          select 1 from ${cafePhotos}
+          where ${cafePhotos.cafeId} = ${newPhoto.cafeId} and ${cafePhotos.isCover}
+        )`,
+      })
+      .returning();
+    return photo;
+  }
+
+  async updateCafePhoto(id: number, photoData: UpdateCafePhoto): Promise<CafePhoto | undefined> {
+    const [photo] = await db
+      .update(cafePhotos)
+      .set(photoData)
+      .where(eq(cafePhotos.id, id))
+      .returning();
+    return photo;
+  }
+
+  async reorderCafePhotos(cafeId: number, photoIds: number[]): Promise<CafePhoto[]> {
+    // Each photo's new position is its index in photoIds
+    const orderedIds = sql`array[${sql.join(photoIds.map((id) => sql`${id}`), sql`, `)}]::int[]`;
+    await db
+      .update(cafePhotos)
+      .set({ position: sql`array_position(${orderedIds}, ${cafePhotos.id}) - 1` })
+      .where(and(eq(cafePhotos.cafeId, cafeId), inArray(cafePhotos.id, photoIds)));
+
+    return this.getCafePhotos(cafeId);
+  }
+
+  async setCafeCoverPhoto(cafeId: number, photoId: number): Promise<CafePhoto | undefined> {
+    const cover = await this.getCafePhoto(photoId);
+    if (!cover || cover.cafeId !== cafeId) {
+      return undefined;
+    }
+
+    // Unset the old cover first; the unique cover index is checked row by row
+    const [, [photo]] = await db.batch([
+      db
+        .update(cafePhotos)
+        .set({ isCover: false })
+        .where(and(eq(cafePhotos.cafeId, cafeId), eq(cafePhotos.isCover, true), not(eq(cafePhotos.id, photoId)))),
+      db
+        .update(cafePhotos)
+        .set({ isCover: true })
+        .where(and(eq(cafePhotos.cafeId, cafeId), eq(cafePhotos.id, photoId)))
+        .returning(),
+    ]);
+    return photo;
+  }
+
+  async deleteCafePhoto(id: number): Promise<boolean> {
+    const [deleted] = await db.delete(cafePhotos).where(eq(cafePhotos.id, id)).returning();
+    if (!deleted) {
+      return false;
+    }
+
+    await deletePhotoFiles(photoFileKeys([deleted]));
+
+    if (deleted.isCover) {
+      await db
+        .update(cafePhotos)
+        .set({ isCover: true })
+        .where(
+          inArray(
+            cafePhotos.id,
+            db
+              .select({ id: cafePhotos.id })
+              .from(cafePhotos)
+              .where(eq(cafePhotos.cafeId, deleted.cafeId))
+              .orderBy(asc(cafePhotos.position), asc(cafePhotos.id))
+              .limit(1),
+          ),
+        );
+    }
+    return true;
+  }
+
+  async setRatingHidden(id: number, isHidden: boolean): Promise<Rating | undefined> {
+    // Moderation is not an edit by the author, so editedAt is left alone
+    const [rating] = await db
+      .update(ratings)
+      .set({ isHidden })
+      .where(eq(ratings.id, id))
+      .returning();
+    return rating;
+  }
+
+  async listUserRatings(userId: number, query: UserRatingListQuery): Promise<UserRatingPage> {
+    const conditions = [eq(ratings.userId, userId)];
+    if (query.rating !== undefined) {
+      conditions.push(eq(ratings.rating, query.rating));
+    }
+    if (query.withReview !== undefined) {
+      const hasReview = sql`coalesce(trim(${ratings.review}), '') <> ''`;
+      conditions.push(query.withReview ? hasReview : not(hasReview));
+    }
+    const where = and(...conditions);
+
+    // Newest first breaks ties for the rating-based sorts
+    const orderBy =
+      query.sort === "oldest"
+        ? [asc(ratings.createdAt), asc(ratings.id)]
+        : query.sort === "highest"
+          ? [desc(ratings.rating), desc(ratings.createdAt), desc(ratings.id)]
+          : query.sort === "lowest"
+            ? [asc(ratings.rating), desc(ratings.createdAt), desc(ratings.id)]
+            : [desc(ratings.createdAt), desc(ratings.id)];
+
+    const offset = (query.page - 1) * query.limit;
+
+    // Page and total in a single round trip
+    const [rows, [{ total }]] = await db.batch([
+      db
+        .select({
+          id: ratings.id,
+          rating: ratings.rating,
+          review: ratings.review,
+          createdAt: ratings.createdAt,
+          editedAt: ratings.editedAt,
+          cafeId: cafes.id,
+          cafeName: cafes.name,
+          cafeImageUrl: cafes.imageUrl,
+          cafeArea: cafes.area,
+        })
+        .from(ratings)
+        .innerJoin(cafes, eq(ratings.cafeId, cafes.id))
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(query.limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(ratings)
+        .innerJoin(cafes, eq(ratings.cafeId, cafes.id))
+        .where(where),
+    ]);
+
+    return {
+      ratings: rows.map((row) => ({
+        id: row.id,
+        rating: row.rating,
+        review: row.review,
+        createdAt: row.createdAt,
+        editedAt: row.editedAt,
+        cafe: {
+          id: row.cafeId,
+          name: row.cafeName,
+          imageUrl: row.cafeImageUrl,
+          area: row.cafeArea,
+        },
+      })),
+      page: query.page,
+      total,
+      hasMore: offset + rows.length < total,
+    };
+  }
+
   // Favorite methods
   async getFavorite(id: number): Promise<Favorite | undefined> {
     const [favorite] = await db
@@ -696,4 +1807,318 @@ export class DatabaseStorage implements IStorage {
 
     return result.length > 0;
   }
+
+  // Ownership claim methods
+  async getCafeClaim(id: number): Promise<CafeClaim | undefined> {
+    const [claim] = await db.select().from(cafeClaims).where(eq(cafeClaims.id, id));
+    return claim;
+  }
+
+  async getUserCafeClaims(userId: number, cafeId?: number): Promise<CafeClaim[]> {
+    const conditions = [eq(cafeClaims.userId, userId)];
+    if (cafeId !== undefined) {
+      conditions.push(eq(cafeClaims.cafeId, cafeId));
+    }
+
+    return db
+      .select()
+      .from(cafeClaims)
+      .where(and(...conditions))
+      .orderBy(desc(cafeClaims.createdAt), desc(cafeClaims.id));
+  }
+
+  async listCafeClaims(status?: CafeClaim["status"]): Promise<CafeClaimWithDetails[]> {
+    const rows = await db
+      .select({
+        claim: cafeClaims,
+        cafe: {
+          id: cafes.id,
+          name: cafes.name,
+          website: cafes.website,
+          phone: cafes.phone,
+        },
+        claimant: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(cafeClaims)
+      .innerJoin(cafes, eq(cafeClaims.cafeId, cafes.id))
+      .innerJoin(users, eq(cafeClaims.userId, users.id))
+      .where(status ? eq(cafeClaims.status, status) : undefined)
+      .orderBy(desc(cafeClaims.createdAt), desc(cafeClaims.id));
+
+    return rows.map((row) => ({ ...row.claim, cafe: row.cafe, claimant: row.claimant }));
+  }
+
+  async createCafeClaim(newClaim: NewCafeClaim): Promise<CafeClaim> {
+    const [claim] = await db.insert(cafeClaims).values(newClaim).returning();
+    return claim;
+  }
+
+  async updateCafeClaim(id: number, claimData: Partial<CafeClaim>): Promise<CafeClaim | undefined> {
+    const { id: _id, ...changes } = claimData;
+    const [claim] = await db
+      .update(cafeClaims)
+      .set(changes)
+      .where(eq(cafeClaims.id, id))
+      .returning();
+    return claim;
+  }
+
+  // Checked and incremented in one statement, so simultaneous guesses
+  // can't get past the limit
+  async recordClaimVerificationAttempt(id: number, maxAttempts: number): Promise<CafeClaim | undefined> {
+    const [claim] = await db
+      .update(cafeClaims)
+      .set({ verificationAttempts: sql`${cafeClaims.verificationAttempts} + 1` })
+      .where(
+        and(
+          eq(cafeClaims.id, id),
+          eq(cafeClaims.status, "pending"),
+          isNull(cafeClaims.verifiedAt),
+          lt(cafeClaims.verificationAttempts, maxAttempts),
+        ),
+      )
+      .returning();
+    return claim;
+  }
+
+  async approveCafeClaim(id: number, reviewerId: number, note?: string): Promise<CafeClaim | undefined> {
+    const [claim] = await db
+      .update(cafeClaims)
+      .set({
+        status: "approved",
+        reviewedBy: reviewerId,
+        reviewNote: note || null,
+        reviewedAt: new Date(),
+      })
+      .where(eq(cafeClaims.id, id))
+      .returning();
+    if (!claim) return undefined;
+
+    // Link the owner and grant the role in one round trip; admins keep
+    // their role
+    await db.batch([
+      db
+        .insert(cafeOwners)
+        .values({ cafeId: claim.cafeId, userId: claim.userId, claimId: claim.id })
+        .onConflictDoNothing({ target: [cafeOwners.userId, cafeOwners.cafeId] }),
+      db
+        .update(users)
+        .set({ role: "cafe_owner" })
+        .where(and(eq(users.id, claim.userId), eq(users.role, "user"))),
+    ]);
+
+    return claim;
+  }
+
+  async isCafeOwner(userId: number, cafeId: number): Promise<boolean> {
+    const result = await db
+      .select({ id: cafeOwners.id })
+      .from(cafeOwners)
+      .where(and(eq(cafeOwners.userId, userId), eq(cafeOwners.cafeId, cafeId)));
+
+    return result.length > 0;
+  }
+
+  async getOwnedCafes(userId: number): Promise<CafeWithDetails[]> {
+    return this.queryCafesWithDetails(
+      inArray(
+        cafes.id,
+        db.select({ cafeId: cafeOwners.cafeId }).from(cafeOwners).where(eq(cafeOwners.userId, userId)),
+      ),
+      userId,
+    );
+  }
+
+  // Change proposal methods
+  async getCafeChangeProposal(id: number): Promise<CafeChangeProposal | undefined> {
+    const [proposal] = await db
+      .select()
+      .from(cafeChangeProposals)
+      .where(eq(cafeChangeProposals.id, id));
+    return proposal;
+  }
+
+  async getCafeChangeProposals(cafeId: number, userId?: number): Promise<CafeChangeProposal[]> {
+    const conditions = [eq(cafeChangeProposals.cafeId, cafeId)];
+    if (userId !== undefined) {
+      conditions.push(eq(cafeChangeProposals.userId, userId));
+    }
+
+    return db
+      .select()
+      .from(cafeChangeProposals)
+      .where(and(...conditions))
+      .orderBy(desc(cafeChangeProposals.createdAt), desc(cafeChangeProposals.id));
+  }
+
+  async listCafeChangeProposals(status?: CafeChangeProposal["status"]): Promise<CafeChangeProposalSummary[]> {
+    const rows = await db
+      .select({
+        proposal: cafeChangeProposals,
+        cafe: {
+          id: cafes.id,
+          name: cafes.name,
+        },
+        proposer: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(cafeChangeProposals)
+      .innerJoin(cafes, eq(cafeChangeProposals.cafeId, cafes.id))
+      .innerJoin(users, eq(cafeChangeProposals.userId, users.id))
+      .where(status ? eq(cafeChangeProposals.status, status) : undefined)
+      .orderBy(desc(cafeChangeProposals.createdAt), desc(cafeChangeProposals.id));
+
+    return rows.map((row) => ({ ...row.proposal, cafe: row.cafe, proposer: row.proposer }));
+  }
+
+  async createCafeChangeProposal(newProposal: NewCafeChangeProposal): Promise<CafeChangeProposal> {
+    const [proposal] = await db.insert(cafeChangeProposals).values(newProposal).returning();
+    return proposal;
+  }
+
+  async updateCafeChangeProposal(
+    id: number,
+    proposalData: Partial<CafeChangeProposal>,
+  ): Promise<CafeChangeProposal | undefined> {
+    const { id: _id, ...changes } = proposalData;
+    const [proposal] = await db
+      .update(cafeChangeProposals)
+      .set(changes)
+      .where(eq(cafeChangeProposals.id, id))
+      .returning();
+    return proposal;
+  }
+
+  async approveCafeChangeProposal(id: number, reviewerId: number, note?: string): Promise<CafeChangeProposal | undefined> {
+    const proposal = await this.getCafeChangeProposal(id);
+    if (!proposal) return undefined;
+
+    // Lists and the schedule are replaced outright, as in their update methods
+    const { cafeId } = proposal;
+    const { roastLevels, brewingMethods, schedule, ...cafeUpdate } = proposal.changes;
+    const queries: BatchItem<"pg">[] = [];
+
+    if (Object.keys(cafeUpdate).length > 0) {
+      queries.push(db.update(cafes).set(cafeUpdate).where(eq(cafes.id, cafeId)));
+    }
+    if (roastLevels) {
+      queries.push(db.delete(cafeRoastLevels).where(eq(cafeRoastLevels.cafeId, cafeId)));
+      if (roastLevels.length > 0) {
+        queries.push(db.insert(cafeRoastLevels).values(roastLevels.map((roastLevel) => ({ cafeId, roastLevel }))));
+      }
+    }
+    if (brewingMethods) {
+      queries.push(db.delete(cafeBrewingMethods).where(eq(cafeBrewingMethods.cafeId, cafeId)));
+      if (brewingMethods.length > 0) {
+        queries.push(db.insert(cafeBrewingMethods).values(brewingMethods.map((brewingMethod) => ({ cafeId, brewingMethod }))));
+      }
+    }
+    if (schedule) {
+      queries.push(...scheduleQueries(cafeId, schedule));
+    }
+
+    queries.push(
+      db
+        .update(cafeChangeProposals)
+        .set({
+          status: "approved",
+          reviewedBy: reviewerId,
+          reviewNote: note || null,
+          reviewedAt: new Date(),
+        })
+        .where(eq(cafeChangeProposals.id, id))
+        .returning(),
+    );
+
+    const results = await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    const [approved] = results[results.length - 1] as CafeChangeProposal[];
+    return approved;
+  }
+
+  // Import staging methods
+  async createImportBatch(newBatch: NewImportBatch, candidates: StagedCafe[]): Promise<ImportBatch> {
+    const [batch] = await db.insert(importBatches).values(newBatch).returning();
+    if (candidates.length > 0) {
+      await db
+        .insert(importCandidates)
+        .values(candidates.map((data) => ({ batchId: batch.id, data })));
+    }
+    return batch;
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, id));
+    return batch;
+  }
+
+  async listImportBatches(): Promise<ImportBatchSummary[]> {
+    const [batches, countRows] = await db.batch([
+      db
+        .select()
+        .from(importBatches)
+        .orderBy(desc(importBatches.createdAt), desc(importBatches.id)),
+      db
+        .select({
+          batchId: importCandidates.batchId,
+          status: importCandidates.status,
+          count: count(),
+        })
+        .from(importCandidates)
+        .groupBy(importCandidates.batchId, importCandidates.status),
+    ]);
+
+    return batches.map((batch) => {
+      const counts = { pending: 0, accepted: 0, rejected: 0 };
+      countRows
+        .filter((row) => row.batchId === batch.id)
+        .forEach((row) => {
+          counts[row.status] = row.count;
+        });
+      return { ...batch, counts };
+    });
+  }
+
+  async getImportCandidates(batchId: number): Promise<ImportCandidate[]> {
+    return db
+      .select()
+      .from(importCandidates)
+      .where(eq(importCandidates.batchId, batchId))
+      .orderBy(asc(importCandidates.id));
+  }
+
+  async updateImportCandidate(
+    id: number,
+    candidateData: Partial<Pick<ImportCandidate, "status" | "cafeId" | "error">>,
+  ): Promise<ImportCandidate | undefined> {
+    const [candidate] = await db
+      .update(importCandidates)
+      .set(candidateData)
+      .where(eq(importCandidates.id, id))
+      .returning();
+    return candidate;
+  }
+
+  async markImportBatchCommitted(id: number): Promise<ImportBatch | undefined> {
+    const [batch] = await db
+      .update(importBatches)
+      .set({ committedAt: new Date() })
+      .where(eq(importBatches.id, id))
+      .returning();
+    return batch;
+  }
+
+  async deleteImportBatch(id: number): Promise<boolean> {
+    const [, deleted] = await db.batch([
+      db.delete(importCandidates).where(eq(importCandidates.batchId, id)),
+      db.delete(importBatches).where(eq(importBatches.id, id)).returning({ id: importBatches.id }),
+    ]);
+    return deleted.length > 0;
+  }
 }
@@ -3,14 +3,63 @@ import {
   cafes, type Cafe, type InsertCafe,
   cafeRoastLevels, type CafeRoastLevel, type InsertCafeRoastLevel,
   cafeBrewingMethods, type CafeBrewingMethod, type InsertCafeBrewingMethod,
+  cafeHours, type CafeHours, type InsertCafeHours,
+  cafeHoursExceptions, type CafeHoursException, type InsertCafeHoursException,
   ratings, type Rating, type InsertRating,
+  reviewReplies, type ReviewReply,
+  reviewReports, type ReviewReport,
+  reviewPhotos, type ReviewPhoto, type ReviewGalleryPhoto,
+  cafePhotos, type CafePhoto, type CafeCoverPhoto, type UpdateCafePhoto,
   favorites, type Favorite, type InsertFavorite,
-  CafeWithDetails, CafeFilter,
+  cafeClaims, type CafeClaim, type CafeClaimWithDetails,
+  cafeOwners, type CafeOwner,
+  cafeChangeProposals, type CafeChangeProposal, type CafeChangeProposalWithDetails,
+  importBatches, type ImportBatch, type ImportBatchSummary,
+  importCandidates, type ImportCandidate, type StagedCafe, type BulkCafeRow,
+  CafeWithDetails, CafeFilter, CafePagination, CafePage, CafeFacets, CafeSchedule, CafeMapPin, cafeAmenityKeys, toCafeMapPin,
+  RatingSubScores, ratingSubScoreKeys, subScoreFilterKeys,
+  ReviewListQuery, CafeReviewPage, UserRatingListQuery, UserRatingPage, ModerationQueueItem,
 } from "@shared/schema";
+import { isOpenAt } from "@shared/opening-hours";
+import { applyDistances, paginateCafes, sortCafes } from "./cafe-sorting";
+import { countListedFacets } from "./cafe-facets";
+import { cafeSearchRelevance, searchTerms } from "./cafe-search";
+import { bayesianScore, getRatingStats } from "./cafe-ranking";
+import { deletePhotoFiles } from "./photo-storage";
 import createMemoryStore from "memorystore";
 import session from "express-session";
 
 // Modify the interface with CRUD methods
+// Fields the server sets when a claim is submitted
+export type NewCafeClaim = Pick<
+  CafeClaim,
+  "cafeId" | "userId" | "verificationMethod" | "businessEmail" | "verificationCode" | "message"
+>;
+
+export type NewReviewReply = Pick<ReviewReply, "ratingId" | "userId" | "reply">;
+
+export type NewReviewReport = Pick<ReviewReport, "ratingId" | "reporterId" | "reason" | "details">;
+
+export type NewReviewPhoto = Omit<ReviewPhoto, "id" | "createdAt">;
+
+// Fields of a cafe gallery photo set when its files are stored; position
+// and cover are managed by the storage
+export type NewCafePhoto = Omit<CafePhoto, "id" | "createdAt" | "position" | "isCover">;
+
+export type NewCafeChangeProposal = Pick<CafeChangeProposal, "cafeId" | "userId" | "changes">;
+
+export type NewImportBatch = Pick<ImportBatch, "source" | "label">;
+
+// A bulk import row to save, as a new cafe or over the cafe with cafeId
+export interface BulkCafeWrite {
+  cafeId: number | null;
+  row: BulkCafeRow;
+}
+
+// Proposals as listed for admins; the live values to diff against are
+// added by the route
+export type CafeChangeProposalSummary = Omit<CafeChangeProposalWithDetails, "current">;
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -27,11 +76,21 @@ export interface IStorage {
   // Cafe methods
   getCafe(id: number): Promise<Cafe | undefined>;
   getCafeWithDetails(id: number, userId?: number): Promise<CafeWithDetails | undefined>;
+  getCafesWithDetails(ids: number[]): Promise<CafeWithDetails[]>;
+  getCafeByGooglePlaceId(placeId: string): Promise<Cafe | undefined>;
+  getCafesByExternalIds(externalIds: string[]): Promise<Cafe[]>;
   listCafes(filters?: CafeFilter, userId?: number): Promise<CafeWithDetails[]>;
+  listCafesPage(filters: CafeFilter, pagination: CafePagination, userId?: number): Promise<CafePage>;
+  countCafeFacets(filters: CafeFilter): Promise<CafeFacets>;
+  // Every cafe matching the filters, in no particular order, with only the
+  // fields the map shows
+  listCafeMapPins(filters: CafeFilter, userId?: number): Promise<CafeMapPin[]>;
   createCafe(cafe: InsertCafe): Promise<Cafe>;
   updateCafe(id: number, cafeData: Partial<Cafe>): Promise<Cafe | undefined>;
   deleteCafe(id: number): Promise<boolean>;
-  searchCafes(query: string, userId?: number): Promise<CafeWithDetails[]>;
+  // Save a bulk import in one transaction. New cafes are drafts; updated
+  // ones keep their status.
+  bulkSaveCafes(writes: BulkCafeWrite[]): Promise<{ created: number; updated: number }>;
   listAreas(): Promise<string[]>;
 
   // Cafe roast level methods
@@ -44,13 +103,58 @@ export interface IStorage {
   getCafeBrewingMethods(cafeId: number): Promise<CafeBrewingMethod[]>;
   updateCafeBrewingMethods(cafeId: number, brewingMethods: string[]): Promise<CafeBrewingMethod[]>;
 
+  // Cafe opening hours methods
+  getCafeHours(cafeId: number): Promise<CafeHours[]>;
+  updateCafeHours(cafeId: number, hours: Omit<InsertCafeHours, 'cafeId'>[]): Promise<CafeHours[]>;
+  getCafeHoursExceptions(cafeId: number): Promise<CafeHoursException[]>;
+  updateCafeHoursExceptions(cafeId: number, exceptions: Omit<InsertCafeHoursException, 'cafeId'>[]): Promise<CafeHoursException[]>;
+  // Replace the weekly hours and the date exceptions together, in one
+  // transaction
+  replaceCafeSchedule(cafeId: number, schedule: CafeSchedule): Promise<{ hours: CafeHours[]; exceptions: CafeHoursException[] }>;
+
   // Rating methods
   getRating(id: number): Promise<Rating | undefined>;
   getUserRatingForCafe(userId: number, cafeId: number): Promise<Rating | undefined>;
   getCafeRatings(cafeId: number): Promise<Rating[]>;
   createRating(rating: InsertRating): Promise<Rating>;
   updateRating(id: number, rating: Partial<InsertRating>): Promise<Rating | undefined>;
+  deleteRating(id: number): Promise<boolean>;
   getCafeAverageRating(cafeId: number): Promise<{ average: number; count: number }>;
+  listCafeReviews(cafeId: number, query: ReviewListQuery): Promise<CafeReviewPage>;
+  listUserRatings(userId: number, query: UserRatingListQuery): Promise<UserRatingPage>;
+
+  // Review reply methods
+  getReviewReply(ratingId: number): Promise<ReviewReply | undefined>;
+  createReviewReply(reply: NewReviewReply): Promise<ReviewReply>;
+  updateReviewReply(id: number, reply: string): Promise<ReviewReply | undefined>;
+  deleteReviewReply(id: number): Promise<boolean>;
+
+  // Review moderation methods
+  getUserReviewReport(ratingId: number, reporterId: number): Promise<ReviewReport | undefined>;
+  createReviewReport(report: NewReviewReport): Promise<ReviewReport>;
+  listReviewReports(status?: ReviewReport["status"]): Promise<ModerationQueueItem[]>;
+  resolveReviewReports(ratingId: number, resolverId: number, resolution: string): Promise<number>;
+  setRatingHidden(id: number, isHidden: boolean): Promise<Rating | undefined>;
+
+  // Review photo methods; deleting a photo also removes its files
+  getReviewPhoto(id: number): Promise<ReviewPhoto | undefined>;
+  getReviewPhotos(ratingId: number): Promise<ReviewPhoto[]>;
+  listCafeReviewPhotos(cafeId: number): Promise<ReviewGalleryPhoto[]>;
+  // Attach photos to one review, all or none: undefined when they would
+  // take it past maxPhotos
+  createReviewPhotos(photos: NewReviewPhoto[], maxPhotos: number): Promise<ReviewPhoto[] | undefined>;
+  deleteReviewPhoto(id: number): Promise<boolean>;
+
+  // Cafe gallery methods. New photos go last and the first one becomes the
+  // cover; deleting the cover promotes the next photo, and deleting any
+  // photo also removes its files.
+  getCafePhoto(id: number): Promise<CafePhoto | undefined>;
+  getCafePhotos(cafeId: number): Promise<CafePhoto[]>;
+  createCafePhoto(photo: NewCafePhoto): Promise<CafePhoto>;
+  updateCafePhoto(id: number, photoData: UpdateCafePhoto): Promise<CafePhoto | undefined>;
+  reorderCafePhotos(cafeId: number, photoIds: number[]): Promise<CafePhoto[]>;
+  setCafeCoverPhoto(cafeId: number, photoId: number): Promise<CafePhoto | undefined>;
+  deleteCafePhoto(id: number): Promise<boolean>;
 
   // Favorite methods
   getFavorite(id: number): Promise<Favorite | undefined>;
@@ -59,6 +163,39 @@ export interface IStorage {
   deleteFavorite(userId: number, cafeId: number): Promise<boolean>;
   isUserFavorite(userId: number, cafeId: number): Promise<boolean>;
 
+  // Ownership claim methods
+  getCafeClaim(id: number): Promise<CafeClaim | undefined>;
+  getUserCafeClaims(userId: number, cafeId?: number): Promise<CafeClaim[]>;
+  listCafeClaims(status?: CafeClaim["status"]): Promise<CafeClaimWithDetails[]>;
+  createCafeClaim(claim: NewCafeClaim): Promise<CafeClaim>;
+  updateCafeClaim(id: number, claimData: Partial<CafeClaim>): Promise<CafeClaim | undefined>;
+  // Count a code entered for a pending, unverified claim. Undefined once the
+  // claim has used maxAttempts, is verified or is no longer pending.
+  recordClaimVerificationAttempt(id: number, maxAttempts: number): Promise<CafeClaim | undefined>;
+  approveCafeClaim(id: number, reviewerId: number, note?: string): Promise<CafeClaim | undefined>;
+  isCafeOwner(userId: number, cafeId: number): Promise<boolean>;
+  getOwnedCafes(userId: number): Promise<CafeWithDetails[]>;
+
+  // Change proposal methods
+  getCafeChangeProposal(id: number): Promise<CafeChangeProposal | undefined>;
+  getCafeChangeProposals(cafeId: number, userId?: number): Promise<CafeChangeProposal[]>;
+  listCafeChangeProposals(status?: CafeChangeProposal["status"]): Promise<CafeChangeProposalSummary[]>;
+  createCafeChangeProposal(proposal: NewCafeChangeProposal): Promise<CafeChangeProposal>;
+  updateCafeChangeProposal(id: number, proposalData: Partial<CafeChangeProposal>): Promise<CafeChangeProposal | undefined>;
+  // Apply a proposal's changes to its cafe and mark it approved, in one
+  // transaction
+  approveCafeChangeProposal(id: number, reviewerId: number, note?: string): Promise<CafeChangeProposal | undefined>;
+
+  // Import staging methods. A batch and its candidates are created together;
+  // deleting a batch drops its candidates but not the cafes they created.
+  createImportBatch(batch: NewImportBatch, candidates: StagedCafe[]): Promise<ImportBatch>;
+  getImportBatch(id: number): Promise<ImportBatch | undefined>;
+  listImportBatches(): Promise<ImportBatchSummary[]>;
+  getImportCandidates(batchId: number): Promise<ImportCandidate[]>;
+  updateImportCandidate(id: number, candidateData: Partial<Pick<ImportCandidate, "status" | "cafeId" | "error">>): Promise<ImportCandidate | undefined>;
+  markImportBatchCommitted(id: number): Promise<ImportBatch | undefined>;
+  deleteImportBatch(id: number): Promise<boolean>;
+
   // Session store
   sessionStore: any; // Using any to avoid TypeScript errors with session store
 }
@@ -68,15 +205,37 @@ export class MemStorage implements IStorage {
   private cafesMap: Map<number, Cafe>;
   private cafeRoastLevelsMap: Map<number, CafeRoastLevel>;
   private cafeBrewingMethodsMap: Map<number, CafeBrewingMethod>;
+  private cafeHoursMap: Map<number, CafeHours>;
+  private cafeHoursExceptionsMap: Map<number, CafeHoursException>;
   private ratingsMap: Map<number, Rating>;
+  private reviewRepliesMap: Map<number, ReviewReply>;
+  private reviewReportsMap: Map<number, ReviewReport>;
+  private reviewPhotosMap: Map<number, ReviewPhoto>;
+  private cafePhotosMap: Map<number, CafePhoto>;
   private favoritesMap: Map<number, Favorite>;
+  private cafeClaimsMap: Map<number, CafeClaim>;
+  private cafeOwnersMap: Map<number, CafeOwner>;
+  private cafeChangeProposalsMap: Map<number, CafeChangeProposal>;
+  private importBatchesMap: Map<number, ImportBatch>;
+  private importCandidatesMap: Map<number, ImportCandidate>;
   
   private userIdCounter: number;
   private cafeIdCounter: number;
   private cafeRoastLevelIdCounter: number;
   private cafeBrewingMethodIdCounter: number;
+  private cafeHoursIdCounter: number;
+  private cafeHoursExceptionIdCounter: number;
   private ratingIdCounter: number;
+  private reviewReplyIdCounter: number;
+  private reviewReportIdCounter: number;
+  private reviewPhotoIdCounter: number;
+  private cafePhotoIdCounter: number;
   private favoriteIdCounter: number;
+  private cafeClaimIdCounter: number;
+  private cafeOwnerIdCounter: number;
+  private cafeChangeProposalIdCounter: number;
+  private importBatchIdCounter: number;
+  private importCandidateIdCounter: number;
   
   public sessionStore: any; // Using any to avoid SessionStore type issues
 
@@ -85,15 +244,37 @@ export class MemStorage implements IStorage {
     this.cafesMap = new Map();
     this.cafeRoastLevelsMap = new Map();
     this.cafeBrewingMethodsMap = new Map();
+    this.cafeHoursMap = new Map();
+    this.cafeHoursExceptionsMap = new Map();
     this.ratingsMap = new Map();
+    this.reviewRepliesMap = new Map();
+    this.reviewReportsMap = new Map();
+    this.reviewPhotosMap = new Map();
+    this.cafePhotosMap = new Map();
     this.favoritesMap = new Map();
+    this.cafeClaimsMap = new Map();
+    this.cafeOwnersMap = new Map();
+    this.cafeChangeProposalsMap = new Map();
+    this.importBatchesMap = new Map();
+    this.importCandidatesMap = new Map();
     
     this.userIdCounter = 1;
     this.cafeIdCounter = 1;
     this.cafeRoastLevelIdCounter = 1;
     this.cafeBrewingMethodIdCounter = 1;
+    this.cafeHoursIdCounter = 1;
+    this.cafeHoursExceptionIdCounter = 1;
     this.ratingIdCounter = 1;
+    this.reviewReplyIdCounter = 1;
+    this.reviewReportIdCounter = 1;
+    this.reviewPhotoIdCounter = 1;
+    this.cafePhotoIdCounter = 1;
     this.favoriteIdCounter = 1;
+    this.cafeClaimIdCounter = 1;
+    this.cafeOwnerIdCounter = 1;
+    this.cafeChangeProposalIdCounter = 1;
+    this.importBatchIdCounter = 1;
+    this.importCandidateIdCounter = 1;
 
     // Setup session store
     const MemoryStore = createMemoryStore(session);
@@ -181,7 +362,16 @@ export class MemStorage implements IStorage {
     
     // Delete related data
     
-    // 1. Delete user's ratings
+    // 1. Delete user's ratings, their replies and reports, and replies and
+    // reports the user wrote
+    Array.from(this.reviewRepliesMap.values())
+      .filter(reply => reply.userId === id || this.ratingsMap.get(reply.ratingId)?.userId === id)
+      .forEach(reply => this.reviewRepliesMap.delete(reply.id));
+    Array.from(this.reviewReportsMap.values())
+      .filter(report => report.reporterId === id || this.ratingsMap.get(report.ratingId)?.userId === id)
+      .forEach(report => this.reviewReportsMap.delete(report.id));
+    this.deletePhotos(photo => photo.userId === id);
+    
     const ratingsToDelete = Array.from(this.ratingsMap.entries())
       .filter(([_, rating]) => rating.userId === id)
       .map(([id, _]) => id);
@@ -198,6 +388,29 @@ export class MemStorage implements IStorage {
     for (const favoriteId of favoritesToDelete) {
       this.favoritesMap.delete(favoriteId);
     }
+
+    // 3. Delete user's ownership claims, owner links and change proposals
+    Array.from(this.cafeClaimsMap.values())
+      .filter(claim => claim.userId === id)
+      .forEach(claim => this.cafeClaimsMap.delete(claim.id));
+    Array.from(this.cafeOwnersMap.values())
+      .filter(owner => owner.userId === id)
+      .forEach(owner => this.cafeOwnersMap.delete(owner.id));
+    Array.from(this.cafeChangeProposalsMap.values())
+      .filter(proposal => proposal.userId === id)
+      .forEach(proposal => this.cafeChangeProposalsMap.delete(proposal.id));
+
+    // 4. Keep reports, claims and proposals the user reviewed as an admin,
+    // without the reviewer
+    Array.from(this.reviewReportsMap.values())
+      .filter(report => report.resolvedBy === id)
+      .forEach(report => this.reviewReportsMap.set(report.id, { ...report, resolvedBy: null }));
+    Array.from(this.cafeClaimsMap.values())
+      .filter(claim => claim.reviewedBy === id)
+      .forEach(claim => this.cafeClaimsMap.set(claim.id, { ...claim, reviewedBy: null }));
+    Array.from(this.cafeChangeProposalsMap.values())
+      .filter(proposal => proposal.reviewedBy === id)
+      .forEach(proposal => this.cafeChangeProposalsMap.set(proposal.id, { ...proposal, reviewedBy: null }));
     
     // Finally, delete the user itself
     return this.usersMap.delete(id);
@@ -225,14 +438,21 @@ export class MemStorage implements IStorage {
 
     const roastLevels = await this.getCafeRoastLevels(id);
     const brewingMethods = await this.getCafeBrewingMethods(id);
+    const hours = await this.getCafeHours(id);
+    const hoursExceptions = await this.getCafeHoursExceptions(id);
     const ratingInfo = await this.getCafeAverageRating(id);
     
     const cafeWithDetails: CafeWithDetails = {
       ...cafe,
       roastLevels: roastLevels.map(rl => rl.roastLevel),
       brewingMethods: brewingMethods.map(bm => bm.brewingMethod),
+      hours,
+      hoursExceptions,
       averageRating: ratingInfo.average,
       totalRatings: ratingInfo.count,
+      subScores: this.getCafeSubScores(id),
+      score: this.getCafeScore(id),
+      coverPhoto: this.getCafeCoverPhoto(id),
     };
 
     if (userId) {
@@ -241,9 +461,21 @@ export class MemStorage implements IStorage {
 
     return cafeWithDetails;
   }
+  async getCafesWithDetails(ids: number[]): Promise<CafeWithDetails[]> {
+    const result: CafeWithDetails[] = [];
+    for (const id of ids) {
+      const cafe = await this.getCafeWithDetails(id);
+      if (cafe) {
+        result.push(cafe);
+      }
+    }
+    return result;
+  }
+
 
   async listCafes(filters?: CafeFilter, userId?: number): Promise<CafeWithDetails[]> {
     let cafes = Array.from(this.cafesMap.values());
+    const relevanceByCafe = new Map<number, number>();
     
     // Filter by status
     // If status is explicitly provided in filters, use that
@@ -269,17 +501,27 @@ export class MemStorage implements IStorage {
         cafes = cafes.filter(cafe => cafe.priceLevel <= filters.priceLevel!);
       }
 
+      // Apply coffee beans filter
+      if (filters.sellsCoffeeBeans !== undefined) {
+        cafes = cafes.filter(cafe => (cafe.sellsCoffeeBeans === true) === filters.sellsCoffeeBeans);
+      }
 
+      // Apply amenity filters - cafe must offer every selected amenity
+      for (const amenity of cafeAmenityKeys) {
+        if (filters[amenity] === true) {
+          cafes = cafes.filter(cafe => cafe[amenity] === true);
+        }
+      }
 
-      // Apply text search
-      if (filters.query && filters.query.trim() !== '') {
-        const query = filters.query.toLowerCase();
-        cafes = cafes.filter(cafe => 
-          cafe.name.toLowerCase().includes(query) || 
-          cafe.description.toLowerCase().includes(query) ||
-          cafe.area.toLowerCase().includes(query) ||
-          cafe.address.toLowerCase().includes(query)
-        );
+      // Apply text search, keeping each match's relevance for sorting
+      const terms = searchTerms(filters.query || '');
+      if (terms.length > 0) {
+        cafes = cafes.filter(cafe => {
+          const relevance = cafeSearchRelevance(cafe, terms);
+          if (relevance === null) return false;
+          relevanceByCafe.set(cafe.id, relevance);
+          return true;
+        });
       }
     }
 
@@ -288,46 +530,108 @@ export class MemStorage implements IStorage {
       cafes.map(async (cafe) => {
         const roastLevels = await this.getCafeRoastLevels(cafe.id);
         const brewingMethods = await this.getCafeBrewingMethods(cafe.id);
+        const hours = await this.getCafeHours(cafe.id);
+        const hoursExceptions = await this.getCafeHoursExceptions(cafe.id);
         const ratingInfo = await this.getCafeAverageRating(cafe.id);
         
         const cafeWithDetails: CafeWithDetails = {
           ...cafe,
           roastLevels: roastLevels.map(rl => rl.roastLevel),
           brewingMethods: brewingMethods.map(bm => bm.brewingMethod),
+          hours,
+          hoursExceptions,
           averageRating: ratingInfo.average,
           totalRatings: ratingInfo.count,
+          subScores: this.getCafeSubScores(cafe.id),
+          score: this.getCafeScore(cafe.id),
+          coverPhoto: this.getCafeCoverPhoto(cafe.id),
         };
 
         if (userId) {
           cafeWithDetails.isFavorite = await this.isUserFavorite(userId, cafe.id);
         }
 
+        if (relevanceByCafe.has(cafe.id)) {
+          cafeWithDetails.relevance = relevanceByCafe.get(cafe.id);
+        }
+
         return cafeWithDetails;
       })
     );
 
-    // Apply roast level filters
+    let result = cafesWithDetails;
+
+    // Apply roast level filters - cafe must have ANY (default) or ALL selected roast levels
     if (filters?.roastLevels && filters.roastLevels.length > 0) {
-      return cafesWithDetails.filter(cafe => 
-        filters.roastLevels!.some(level => cafe.roastLevels.includes(level))
+      const roastLevels = filters.roastLevels;
+      result = result.filter(cafe => filters.roastLevelsMode === 'all'
+        ? roastLevels.every(level => cafe.roastLevels.includes(level))
+        : roastLevels.some(level => cafe.roastLevels.includes(level))
       );
     }
 
-    // Apply brewing method filters
+    // Apply brewing method filters - cafe must have ANY (default) or ALL selected brewing methods
     if (filters?.brewingMethods && filters.brewingMethods.length > 0) {
-      return cafesWithDetails.filter(cafe => 
-        filters.brewingMethods!.some(method => cafe.brewingMethods.includes(method))
+      const brewingMethods = filters.brewingMethods;
+      result = result.filter(cafe => filters.brewingMethodsMode === 'all'
+        ? brewingMethods.every(method => cafe.brewingMethods.includes(method))
+        : brewingMethods.some(method => cafe.brewingMethods.includes(method))
       );
     }
 
     // Apply minimum rating filter
     if (filters?.minRating && filters.minRating > 0) {
-      return cafesWithDetails.filter(cafe => 
+      result = result.filter(cafe => 
         (cafe.averageRating || 0) >= filters.minRating!
       );
     }
 
-    return cafesWithDetails;
+    // Apply sub-score filters; cafes without scores for a dimension never match
+    ratingSubScoreKeys.forEach(key => {
+      const minScore = filters?.[subScoreFilterKeys[key]];
+      if (minScore && minScore > 0) {
+        result = result.filter(cafe => {
+          const score = cafe.subScores?.[key];
+          return score !== null && score !== undefined && score >= minScore;
+        });
+      }
+    });
+
+    // Apply opening hours filter, evaluated in Boston local time
+    if (filters?.openAt || filters?.openNow) {
+      const at = filters.openAt || new Date();
+      result = result.filter(cafe =>
+        isOpenAt(cafe.hours, cafe.hoursExceptions, at)
+      );
+    }
+
+    // Apply distance from the reference point, then the requested sort order
+    result = applyDistances(result, filters);
+    return sortCafes(result, filters?.sortBy);
+  }
+
+  async listCafesPage(filters: CafeFilter, pagination: CafePagination, userId?: number): Promise<CafePage> {
+    const cafes = await this.listCafes(filters, userId);
+    return paginateCafes(cafes, filters.sortBy, pagination);
+  }
+
+  async countCafeFacets(filters: CafeFilter): Promise<CafeFacets> {
+    return countListedFacets(filters, (facetFilters) => this.listCafes(facetFilters), await this.listAreas());
+  }
+
+  async listCafeMapPins(filters: CafeFilter, userId?: number): Promise<CafeMapPin[]> {
+    const cafes = await this.listCafes(filters, userId);
+    return cafes.map(toCafeMapPin);
+  }
+
+  async getCafeByGooglePlaceId(placeId: string): Promise<Cafe | undefined> {
+    return Array.from(this.cafesMap.values()).find(cafe => cafe.googlePlaceId === placeId);
+  }
+
+  async getCafesByExternalIds(externalIds: string[]): Promise<Cafe[]> {
+    const wanted = new Set(externalIds);
+    return Array.from(this.cafesMap.values())
+      .filter(cafe => cafe.externalId !== null && wanted.has(cafe.externalId));
   }
 
   async createCafe(insertCafe: InsertCafe): Promise<Cafe> {
@@ -353,6 +657,32 @@ export class MemStorage implements IStorage {
     return updatedCafe;
   }
   
+  async bulkSaveCafes(writes: BulkCafeWrite[]): Promise<{ created: number; updated: number }> {
+    let created = 0;
+    let updated = 0;
+
+    for (const { cafeId, row } of writes) {
+      const { roastLevels, brewingMethods, ...cafeData } = row;
+      let id = cafeId;
+      if (id === null) {
+        id = (await this.createCafe({ ...cafeData, status: 'draft' })).id;
+        created++;
+      } else {
+        await this.updateCafe(id, cafeData);
+        updated++;
+      }
+
+      if (roastLevels) {
+        await this.updateCafeRoastLevels(id, roastLevels);
+      }
+      if (brewingMethods) {
+        await this.updateCafeBrewingMethods(id, brewingMethods);
+      }
+    }
+
+    return { created, updated };
+  }
+  
   async deleteCafe(id: number): Promise<boolean> {
     // First check if the cafe exists
     if (!this.cafesMap.has(id)) {
@@ -372,31 +702,56 @@ export class MemStorage implements IStorage {
       this.cafeBrewingMethodsMap.delete(bm.id);
     }
     
-    // 3. Delete ratings
+    // 3. Delete opening hours and exceptions
+    const hours = await this.getCafeHours(id);
+    for (const interval of hours) {
+      this.cafeHoursMap.delete(interval.id);
+    }
+    
+    const hoursExceptions = await this.getCafeHoursExceptions(id);
+    for (const exception of hoursExceptions) {
+      this.cafeHoursExceptionsMap.delete(exception.id);
+    }
+    
+    // 4. Delete ratings with their owner replies and reports
     const ratings = await this.getCafeRatings(id);
     for (const rating of ratings) {
+      this.deleteRatingReplies(rating.id);
+      this.deleteRatingReports(rating.id);
+      this.deletePhotos(photo => photo.ratingId === rating.id);
       this.ratingsMap.delete(rating.id);
     }
     
-    // 4. Delete favorites
+    // 5. Delete favorites
     for (const [favId, fav] of this.favoritesMap.entries()) {
       if (fav.cafeId === id) {
         this.favoritesMap.delete(favId);
       }
     }
     
+    // 6. Delete the cafe's own gallery
+    this.deleteCafePhotos(photo => photo.cafeId === id);
+    
+    // 7. Delete owner links, ownership claims and change proposals
+    Array.from(this.cafeOwnersMap.values())
+      .filter(owner => owner.cafeId === id)
+      .forEach(owner => this.cafeOwnersMap.delete(owner.id));
+    Array.from(this.cafeClaimsMap.values())
+      .filter(claim => claim.cafeId === id)
+      .forEach(claim => this.cafeClaimsMap.delete(claim.id));
+    Array.from(this.cafeChangeProposalsMap.values())
+      .filter(proposal => proposal.cafeId === id)
+      .forEach(proposal => this.cafeChangeProposalsMap.delete(proposal.id));
+    
+    // 8. Keep import candidates that created the cafe, without the link
+    Array.from(this.importCandidatesMap.values())
+      .filter(candidate => candidate.cafeId === id)
+      .forEach(candidate => this.importCandidatesMap.set(candidate.id, { ...candidate, cafeId: null }));
+    
     // Finally, delete the cafe itself
     return this.cafesMap.delete(id);
   }
 
-  async searchCafes(query: string, userId?: number): Promise<CafeWithDetails[]> {
-    if (!query || query.trim() === '') {
-      return this.listCafes(undefined, userId);
-    }
-    
-    return this.listCafes({ query }, userId);
-  }
-
   async listAreas(): Promise<string[]> {
     const areas = new Set<string>();
     for (const cafe of this.cafesMap.values()) {
@@ -483,6 +838,75 @@ export class MemStorage implements IStorage {
     return newBrewingMethods;
   }
 
+  // Cafe opening hours methods
+  async getCafeHours(cafeId: number): Promise<CafeHours[]> {
+    return Array.from(this.cafeHoursMap.values())
+      .filter(interval => interval.cafeId === cafeId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.opensAt.localeCompare(b.opensAt));
+  }
+
+  async updateCafeHours(cafeId: number, hours: Omit<InsertCafeHours, 'cafeId'>[]): Promise<CafeHours[]> {
+    // Remove the existing schedule for this cafe
+    const existingIds = Array.from(this.cafeHoursMap.entries())
+      .filter(([_, interval]) => interval.cafeId === cafeId)
+      .map(([id, _]) => id);
+    
+    for (const id of existingIds) {
+      this.cafeHoursMap.delete(id);
+    }
+    
+    for (const interval of hours) {
+      const id = this.cafeHoursIdCounter++;
+      this.cafeHoursMap.set(id, { ...interval, id, cafeId });
+    }
+    
+    return this.getCafeHours(cafeId);
+  }
+
+  async getCafeHoursExceptions(cafeId: number): Promise<CafeHoursException[]> {
+    return Array.from(this.cafeHoursExceptionsMap.values())
+      .filter(exception => exception.cafeId === cafeId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async updateCafeHoursExceptions(
+    cafeId: number,
+    exceptions: Omit<InsertCafeHoursException, 'cafeId'>[]
+  ): Promise<CafeHoursException[]> {
+    // Remove the existing exceptions for this cafe
+    const existingIds = Array.from(this.cafeHoursExceptionsMap.entries())
+      .filter(([_, exception]) => exception.cafeId === cafeId)
+      .map(([id, _]) => id);
+    
+    for (const id of existingIds) {
+      this.cafeHoursExceptionsMap.delete(id);
+    }
+    
+    for (const exception of exceptions) {
+      const id = this.cafeHoursExceptionIdCounter++;
+      this.cafeHoursExceptionsMap.set(id, {
+        id,
+        cafeId,
+        date: exception.date,
+        isClosed: exception.isClosed ?? true,
+        opensAt: exception.opensAt ?? null,
+        closesAt: exception.closesAt ?? null,
+        note: exception.note ?? null,
+      });
+    }
+    
+    return this.getCafeHoursExceptions(cafeId);
+  }
+  async replaceCafeSchedule(
+    cafeId: number,
+    schedule: CafeSchedule,
+  ): Promise<{ hours: CafeHours[]; exceptions: CafeHoursException[] }> {
+    const hours = await this.updateCafeHours(cafeId, schedule.hours);
+    const exceptions = await this.updateCafeHoursExceptions(cafeId, schedule.exceptions);
+    return { hours, exceptions };
+  }
+
+
   // Rating methods
   async getRating(id: number): Promise<Rating | undefined> {
     return this.ratingsMap.get(id);
@@ -503,15 +927,27 @@ export class MemStorage implements IStorage {
   }
 
   async createRating(insertRating: InsertRating): Promise<Rating> {
+    // A repeat submission replaces the whole rating, clearing fields it
+    // leaves out
+    const fields = {
+      ...insertRating,
+      review: insertRating.review ?? null,
+      coffeeScore: insertRating.coffeeScore ?? null,
+      atmosphereScore: insertRating.atmosphereScore ?? null,
+      workScore: insertRating.workScore ?? null,
+      serviceScore: insertRating.serviceScore ?? null,
+      valueScore: insertRating.valueScore ?? null,
+    };
+
     // Check if user has already rated this cafe
     const existingRating = await this.getUserRatingForCafe(insertRating.userId, insertRating.cafeId);
     if (existingRating) {
-      return this.updateRating(existingRating.id, insertRating) as Promise<Rating>;
+      return this.updateRating(existingRating.id, fields) as Promise<Rating>;
     }
 
     const id = this.ratingIdCounter++;
     const createdAt = new Date();
-    const rating: Rating = { ...insertRating, id, createdAt };
+    const rating: Rating = { ...fields, id, createdAt, editedAt: null, isHidden: false };
     this.ratingsMap.set(id, rating);
     return rating;
   }
@@ -523,14 +959,82 @@ export class MemStorage implements IStorage {
     const updatedRating: Rating = {
       ...existingRating,
       ...ratingUpdate,
+      editedAt: new Date(),
     };
 
     this.ratingsMap.set(id, updatedRating);
     return updatedRating;
   }
 
+  async deleteRating(id: number): Promise<boolean> {
+    this.deleteRatingReplies(id);
+    this.deleteRatingReports(id);
+    this.deletePhotos(photo => photo.ratingId === id);
+    return this.ratingsMap.delete(id);
+  }
+
+  private deleteRatingReplies(ratingId: number) {
+    Array.from(this.reviewRepliesMap.values())
+      .filter(reply => reply.ratingId === ratingId)
+      .forEach(reply => this.reviewRepliesMap.delete(reply.id));
+  }
+
+  private deleteRatingReports(ratingId: number) {
+    Array.from(this.reviewReportsMap.values())
+      .filter(report => report.ratingId === ratingId)
+      .forEach(report => this.reviewReportsMap.delete(report.id));
+  }
+
+  // Drop matching photo rows, then their files
+  private deletePhotos(predicate: (photo: ReviewPhoto) => boolean) {
+    const photos = Array.from(this.reviewPhotosMap.values()).filter(predicate);
+    photos.forEach(photo => this.reviewPhotosMap.delete(photo.id));
+    if (photos.length > 0) {
+      void deletePhotoFiles(photos.flatMap(photo => [photo.imageKey, photo.thumbnailKey]));
+    }
+  }
+
+  // Drop matching cafe gallery rows, then their files
+  private deleteCafePhotos(predicate: (photo: CafePhoto) => boolean) {
+    const photos = Array.from(this.cafePhotosMap.values()).filter(predicate);
+    photos.forEach(photo => this.cafePhotosMap.delete(photo.id));
+    if (photos.length > 0) {
+      void deletePhotoFiles(photos.flatMap(photo => [photo.imageKey, photo.thumbnailKey]));
+    }
+  }
+
+  private getCafeCoverPhoto(cafeId: number): CafeCoverPhoto | null {
+    const cover = Array.from(this.cafePhotosMap.values())
+      .find(photo => photo.cafeId === cafeId && photo.isCover);
+    if (!cover) return null;
+
+    return {
+      id: cover.id,
+      imageUrl: cover.imageUrl,
+      thumbnailUrl: cover.thumbnailUrl,
+      caption: cover.caption,
+      attribution: cover.attribution,
+    };
+  }
+
+  private toPhotoSummary(photo: ReviewPhoto) {
+    return {
+      id: photo.id,
+      imageUrl: photo.imageUrl,
+      thumbnailUrl: photo.thumbnailUrl,
+      width: photo.width,
+      height: photo.height,
+    };
+  }
+
+  // Ratings that count towards a cafe's score; moderators can hide abusive ones
+  private getVisibleCafeRatings(cafeId: number): Rating[] {
+    return Array.from(this.ratingsMap.values())
+      .filter(rating => rating.cafeId === cafeId && !rating.isHidden);
+  }
+
   async getCafeAverageRating(cafeId: number): Promise<{ average: number; count: number }> {
-    const ratings = await this.getCafeRatings(cafeId);
+    const ratings = this.getVisibleCafeRatings(cafeId);
     if (ratings.length === 0) {
       return { average: 0, count: 0 };
     }
@@ -542,6 +1046,376 @@ export class MemStorage implements IStorage {
     };
   }
 
+  // Ranking score against the mean of every visible rating on the site
+  private getCafeScore(cafeId: number): number {
+    const visibleRatings = Array.from(this.ratingsMap.values()).filter(rating => !rating.isHidden);
+    const priorMean = visibleRatings.length > 0
+      ? visibleRatings.reduce((acc, rating) => acc + rating.rating, 0) / visibleRatings.length
+      : null;
+    return bayesianScore(getRatingStats(this.getVisibleCafeRatings(cafeId)), priorMean);
+  }
+
+  // Average of each sub-score over the ratings that filled it in
+  private getCafeSubScores(cafeId: number): RatingSubScores {
+    const ratings = this.getVisibleCafeRatings(cafeId);
+    const subScores = {} as RatingSubScores;
+    ratingSubScoreKeys.forEach(key => {
+      const scores = ratings
+        .map(rating => rating[key])
+        .filter((score): score is number => typeof score === "number");
+      subScores[key] = scores.length > 0
+        ? parseFloat((scores.reduce((acc, score) => acc + score, 0) / scores.length).toFixed(1))
+        : null;
+    });
+    return subScores;
+  }
+
+  async listCafeReviews(cafeId: number, query: ReviewListQuery): Promise<CafeReviewPage> {
+    const ratings = this.getVisibleCafeRatings(cafeId);
+
+    // Count ratings per star value
+    const histogram: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    ratings.forEach(rating => {
+      histogram[rating.rating] = (histogram[rating.rating] || 0) + 1;
+    });
+
+    // Newest first breaks ties for the rating-based sorts
+    const newestFirst = (a: Rating, b: Rating) =>
+      b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+
+    const sorted = [...ratings].sort((a, b) => {
+      if (query.sort === "highest") return b.rating - a.rating || newestFirst(a, b);
+      if (query.sort === "lowest") return a.rating - b.rating || newestFirst(a, b);
+      return newestFirst(a, b);
+    });
+
+    const offset = (query.page - 1) * query.limit;
+    const reviews = sorted.slice(offset, offset + query.limit).map(rating => {
+      const author = this.usersMap.get(rating.userId);
+      const ownerReply = Array.from(this.reviewRepliesMap.values()).find(reply => reply.ratingId === rating.id);
+      return {
+        id: rating.id,
+        rating: rating.rating,
+        review: rating.review,
+        createdAt: rating.createdAt,
+        editedAt: rating.editedAt,
+        author: {
+          id: rating.userId,
+          name: author?.name || "Unknown",
+          photoUrl: author?.photoUrl || null,
+        },
+        ownerReply: ownerReply
+          ? {
+              id: ownerReply.id,
+              reply: ownerReply.reply,
+              createdAt: ownerReply.createdAt,
+              editedAt: ownerReply.editedAt,
+            }
+          : null,
+        photos: Array.from(this.reviewPhotosMap.values())
+          .filter(photo => photo.ratingId === rating.id)
+          .sort((a, b) => a.id - b.id)
+          .map(photo => this.toPhotoSummary(photo)),
+      };
+    });
+
+    return {
+      reviews,
+      page: query.page,
+      total: ratings.length,
+      hasMore: offset + reviews.length < ratings.length,
+      histogram,
+    };
+  }
+
+  // Review reply methods
+  async getReviewReply(ratingId: number): Promise<ReviewReply | undefined> {
+    return Array.from(this.reviewRepliesMap.values()).find(reply => reply.ratingId === ratingId);
+  }
+
+  async createReviewReply(newReply: NewReviewReply): Promise<ReviewReply> {
+    const id = this.reviewReplyIdCounter++;
+    const reply: ReviewReply = {
+      ...newReply,
+      id,
+      createdAt: new Date(),
+      editedAt: null,
+    };
+    this.reviewRepliesMap.set(id, reply);
+    return reply;
+  }
+
+  async updateReviewReply(id: number, replyText: string): Promise<ReviewReply | undefined> {
+    const reply = this.reviewRepliesMap.get(id);
+    if (!reply) return undefined;
+
+    const updatedReply = { ...reply, reply: replyText, editedAt: new Date() };
+    this.reviewRepliesMap.set(id, updatedReply);
+    return updatedReply;
+  }
+
+  async deleteReviewReply(id: number): Promise<boolean> {
+    return this.reviewRepliesMap.delete(id);
+  }
+
+  // Review moderation methods
+  async getUserReviewReport(ratingId: number, reporterId: number): Promise<ReviewReport | undefined> {
+    return Array.from(this.reviewReportsMap.values())
+      .find(report => report.ratingId === ratingId && report.reporterId === reporterId);
+  }
+
+  async createReviewReport(newReport: NewReviewReport): Promise<ReviewReport> {
+    const id = this.reviewReportIdCounter++;
+    const report: ReviewReport = {
+      ...newReport,
+      id,
+      status: 'open',
+      resolution: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+    };
+    this.reviewReportsMap.set(id, report);
+    return report;
+  }
+
+  async listReviewReports(status?: ReviewReport["status"]): Promise<ModerationQueueItem[]> {
+    const reports = Array.from(this.reviewReportsMap.values())
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    // Group by review, ordered by each review's most recent report
+    const items = new Map<number, ModerationQueueItem>();
+    reports.forEach(report => {
+      const rating = this.ratingsMap.get(report.ratingId);
+      const cafe = rating && this.cafesMap.get(rating.cafeId);
+      const author = rating && this.usersMap.get(rating.userId);
+      if (!rating || !cafe || !author) return;
+
+      let item = items.get(rating.id);
+      if (!item) {
+        item = {
+          review: {
+            id: rating.id,
+            rating: rating.rating,
+            review: rating.review,
+            createdAt: rating.createdAt,
+            isHidden: rating.isHidden,
+            cafe: { id: cafe.id, name: cafe.name },
+            author: { id: author.id, name: author.name, email: author.email },
+          },
+          reports: [],
+        };
+        items.set(rating.id, item);
+      }
+
+      const reporter = this.usersMap.get(report.reporterId);
+      item.reports.push({
+        id: report.id,
+        reason: report.reason,
+        details: report.details,
+        status: report.status,
+        resolution: report.resolution,
+        createdAt: report.createdAt,
+        reporter: { id: report.reporterId, name: reporter?.name || "Unknown" },
+      });
+    });
+
+    return Array.from(items.values());
+  }
+
+  async resolveReviewReports(ratingId: number, resolverId: number, resolution: string): Promise<number> {
+    const openReports = Array.from(this.reviewReportsMap.values())
+      .filter(report => report.ratingId === ratingId && report.status === 'open');
+
+    const resolvedAt = new Date();
+    openReports.forEach(report => {
+      this.reviewReportsMap.set(report.id, {
+        ...report,
+        status: 'resolved',
+        resolution,
+        resolvedBy: resolverId,
+        resolvedAt,
+      });
+    });
+    return openReports.length;
+  }
+
+  // Review photo methods
+  async getReviewPhoto(id: number): Promise<ReviewPhoto | undefined> {
+    return this.reviewPhotosMap.get(id);
+  }
+
+  async getReviewPhotos(ratingId: number): Promise<ReviewPhoto[]> {
+    return Array.from(this.reviewPhotosMap.values())
+      .filter(photo => photo.ratingId === ratingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async listCafeReviewPhotos(cafeId: number): Promise<ReviewGalleryPhoto[]> {
+    const result: ReviewGalleryPhoto[] = [];
+    Array.from(this.reviewPhotosMap.values())
+      .filter(photo => photo.cafeId === cafeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .forEach(photo => {
+        // Photos on hidden reviews are hidden with them
+        if (this.ratingsMap.get(photo.ratingId)?.isHidden !== false) return;
+
+        const author = this.usersMap.get(photo.userId);
+        result.push({
+          ...this.toPhotoSummary(photo),
+          ratingId: photo.ratingId,
+          createdAt: photo.createdAt,
+          author: { id: photo.userId, name: author?.name || "Unknown" },
+        });
+      });
+    return result;
+  }
+
+  async createReviewPhotos(newPhotos: NewReviewPhoto[], maxPhotos: number): Promise<ReviewPhoto[] | undefined> {
+    if (newPhotos.length === 0) return [];
+    const existing = await this.getReviewPhotos(newPhotos[0].ratingId);
+    if (existing.length + newPhotos.length > maxPhotos) return undefined;
+
+    return newPhotos.map((newPhoto) => {
+      const id = this.reviewPhotoIdCounter++;
+      const photo: ReviewPhoto = { ...newPhoto, id, createdAt: new Date() };
+      this.reviewPhotosMap.set(id, photo);
+      return photo;
+    });
+  }
+
+  async deleteReviewPhoto(id: number): Promise<boolean> {
+    if (!this.reviewPhotosMap.has(id)) return false;
+    this.deletePhotos(photo => photo.id === id);
+    return true;
+  }
+
+  // Cafe gallery methods
+  async getCafePhoto(id: number): Promise<CafePhoto | undefined> {
+    return this.cafePhotosMap.get(id);
+  }
+
+  async getCafePhotos(cafeId: number): Promise<CafePhoto[]> {
+    return Array.from(this.cafePhotosMap.values())
+      .filter(photo => photo.cafeId === cafeId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async createCafePhoto(newPhoto: NewCafePhoto): Promise<CafePhoto> {
+    const existing = await this.getCafePhotos(newPhoto.cafeId);
+    const id = this.cafePhotoIdCounter++;
+    const photo: CafePhoto = {
+      ...newPhoto,
+      id,
+      position: existing.length > 0 ? existing[existing.length - 1].position + 1 : 0,
+      isCover: existing.length === 0,
+      createdAt: new Date(),
+    };
+    this.cafePhotosMap.set(id, photo);
+    return photo;
+  }
+
+  async updateCafePhoto(id: number, photoData: UpdateCafePhoto): Promise<CafePhoto | undefined> {
+    const photo = this.cafePhotosMap.get(id);
+    if (!photo) return undefined;
+
+    const updatedPhoto = { ...photo, ...photoData };
+    this.cafePhotosMap.set(id, updatedPhoto);
+    return updatedPhoto;
+  }
+
+  async reorderCafePhotos(cafeId: number, photoIds: number[]): Promise<CafePhoto[]> {
+    photoIds.forEach((photoId, position) => {
+      const photo = this.cafePhotosMap.get(photoId);
+      if (photo && photo.cafeId === cafeId) {
+        this.cafePhotosMap.set(photoId, { ...photo, position });
+      }
+    });
+    return this.getCafePhotos(cafeId);
+  }
+
+  async setCafeCoverPhoto(cafeId: number, photoId: number): Promise<CafePhoto | undefined> {
+    const cover = this.cafePhotosMap.get(photoId);
+    if (!cover || cover.cafeId !== cafeId) return undefined;
+
+    const photos = await this.getCafePhotos(cafeId);
+    photos.forEach(photo => {
+      this.cafePhotosMap.set(photo.id, { ...photo, isCover: photo.id === photoId });
+    });
+    return this.cafePhotosMap.get(photoId);
+  }
+
+  async deleteCafePhoto(id: number): Promise<boolean> {
+    const photo = this.cafePhotosMap.get(id);
+    if (!photo) return false;
+
+    this.deleteCafePhotos(other => other.id === id);
+    if (photo.isCover) {
+      const [next] = await this.getCafePhotos(photo.cafeId);
+      if (next) {
+        this.cafePhotosMap.set(next.id, { ...next, isCover: true });
+      }
+    }
+    return true;
+  }
+
+  async setRatingHidden(id: number, isHidden: boolean): Promise<Rating | undefined> {
+    const rating = this.ratingsMap.get(id);
+    if (!rating) return undefined;
+
+    // Moderation is not an edit by the author, so editedAt is left alone
+    const updatedRating = { ...rating, isHidden };
+    this.ratingsMap.set(id, updatedRating);
+    return updatedRating;
+  }
+
+  async listUserRatings(userId: number, query: UserRatingListQuery): Promise<UserRatingPage> {
+    const matching = Array.from(this.ratingsMap.values()).filter(rating => {
+      if (rating.userId !== userId) return false;
+      if (query.rating !== undefined && rating.rating !== query.rating) return false;
+      if (query.withReview !== undefined && !!rating.review?.trim() !== query.withReview) return false;
+      // Skip ratings whose cafe has since been removed
+      return this.cafesMap.has(rating.cafeId);
+    });
+
+    // Newest first breaks ties for the rating-based sorts
+    const newestFirst = (a: Rating, b: Rating) =>
+      b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+
+    const sorted = matching.sort((a, b) => {
+      if (query.sort === "oldest") return -newestFirst(a, b);
+      if (query.sort === "highest") return b.rating - a.rating || newestFirst(a, b);
+      if (query.sort === "lowest") return a.rating - b.rating || newestFirst(a, b);
+      return newestFirst(a, b);
+    });
+
+    const offset = (query.page - 1) * query.limit;
+    const page = sorted.slice(offset, offset + query.limit).map(rating => {
+      const cafe = this.cafesMap.get(rating.cafeId)!;
+      return {
+        id: rating.id,
+        rating: rating.rating,
+        review: rating.review,
+        createdAt: rating.createdAt,
+        editedAt: rating.editedAt,
+        cafe: {
+          id: cafe.id,
+          name: cafe.name,
+          imageUrl: cafe.imageUrl,
+          area: cafe.area,
+        },
+      };
+    });
+
+    return {
+      ratings: page,
+      page: query.page,
+      total: sorted.length,
+      hasMore: offset + page.length < sorted.length,
+    };
+  }
+
   // Favorite methods
   async getFavorite(id: number): Promise<Favorite | undefined> {
     return this.favoritesMap.get(id);
@@ -595,6 +1469,277 @@ export class MemStorage implements IStorage {
     return false;
   }
 
+  // Ownership claim methods
+  async getCafeClaim(id: number): Promise<CafeClaim | undefined> {
+    return this.cafeClaimsMap.get(id);
+  }
+
+  async getUserCafeClaims(userId: number, cafeId?: number): Promise<CafeClaim[]> {
+    return Array.from(this.cafeClaimsMap.values())
+      .filter(claim => claim.userId === userId && (cafeId === undefined || claim.cafeId === cafeId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async listCafeClaims(status?: CafeClaim["status"]): Promise<CafeClaimWithDetails[]> {
+    const claims = Array.from(this.cafeClaimsMap.values())
+      .filter(claim => !status || claim.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const result: CafeClaimWithDetails[] = [];
+    claims.forEach(claim => {
+      const cafe = this.cafesMap.get(claim.cafeId);
+      const claimant = this.usersMap.get(claim.userId);
+      if (!cafe || !claimant) return;
+
+      result.push({
+        ...claim,
+        cafe: { id: cafe.id, name: cafe.name, website: cafe.website, phone: cafe.phone },
+        claimant: { id: claimant.id, name: claimant.name, email: claimant.email },
+      });
+    });
+    return result;
+  }
+
+  async createCafeClaim(newClaim: NewCafeClaim): Promise<CafeClaim> {
+    const id = this.cafeClaimIdCounter++;
+    const claim: CafeClaim = {
+      ...newClaim,
+      id,
+      verifiedAt: null,
+      verificationAttempts: 0,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    };
+    this.cafeClaimsMap.set(id, claim);
+    return claim;
+  }
+
+  async updateCafeClaim(id: number, claimData: Partial<CafeClaim>): Promise<CafeClaim | undefined> {
+    const claim = this.cafeClaimsMap.get(id);
+    if (!claim) return undefined;
+
+    const updatedClaim = { ...claim, ...claimData, id };
+    this.cafeClaimsMap.set(id, updatedClaim);
+    return updatedClaim;
+  }
+
+  async recordClaimVerificationAttempt(id: number, maxAttempts: number): Promise<CafeClaim | undefined> {
+    const claim = this.cafeClaimsMap.get(id);
+    if (!claim || claim.status !== 'pending' || claim.verifiedAt || claim.verificationAttempts >= maxAttempts) {
+      return undefined;
+    }
+    return this.updateCafeClaim(id, { verificationAttempts: claim.verificationAttempts + 1 });
+  }
+
+  async approveCafeClaim(id: number, reviewerId: number, note?: string): Promise<CafeClaim | undefined> {
+    const claim = await this.updateCafeClaim(id, {
+      status: 'approved',
+      reviewedBy: reviewerId,
+      reviewNote: note || null,
+      reviewedAt: new Date(),
+    });
+    if (!claim) return undefined;
+
+    if (!(await this.isCafeOwner(claim.userId, claim.cafeId))) {
+      const ownerId = this.cafeOwnerIdCounter++;
+      this.cafeOwnersMap.set(ownerId, {
+        id: ownerId,
+        cafeId: claim.cafeId,
+        userId: claim.userId,
+        claimId: claim.id,
+        createdAt: new Date(),
+      });
+    }
+
+    // Admins keep their role; everyone else becomes a cafe owner
+    const claimant = this.usersMap.get(claim.userId);
+    if (claimant && claimant.role === 'user') {
+      this.usersMap.set(claimant.id, { ...claimant, role: 'cafe_owner' });
+    }
+
+    return claim;
+  }
+
+  async isCafeOwner(userId: number, cafeId: number): Promise<boolean> {
+    return Array.from(this.cafeOwnersMap.values())
+      .some(owner => owner.userId === userId && owner.cafeId === cafeId);
+  }
+
+  async getOwnedCafes(userId: number): Promise<CafeWithDetails[]> {
+    const cafeIds = Array.from(this.cafeOwnersMap.values())
+      .filter(owner => owner.userId === userId)
+      .map(owner => owner.cafeId);
+
+    const owned: CafeWithDetails[] = [];
+    for (const cafeId of cafeIds) {
+      const cafe = await this.getCafeWithDetails(cafeId, userId);
+      if (cafe) {
+        owned.push(cafe);
+      }
+    }
+    return owned;
+  }
+
+  // Change proposal methods
+  async getCafeChangeProposal(id: number): Promise<CafeChangeProposal | undefined> {
+    return this.cafeChangeProposalsMap.get(id);
+  }
+
+  async getCafeChangeProposals(cafeId: number, userId?: number): Promise<CafeChangeProposal[]> {
+    return Array.from(this.cafeChangeProposalsMap.values())
+      .filter(proposal => proposal.cafeId === cafeId && (userId === undefined || proposal.userId === userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async listCafeChangeProposals(status?: CafeChangeProposal["status"]): Promise<CafeChangeProposalSummary[]> {
+    const proposals = Array.from(this.cafeChangeProposalsMap.values())
+      .filter(proposal => !status || proposal.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const result: CafeChangeProposalSummary[] = [];
+    proposals.forEach(proposal => {
+      const cafe = this.cafesMap.get(proposal.cafeId);
+      const proposer = this.usersMap.get(proposal.userId);
+      if (!cafe || !proposer) return;
+
+      result.push({
+        ...proposal,
+        cafe: { id: cafe.id, name: cafe.name },
+        proposer: { id: proposer.id, name: proposer.name, email: proposer.email },
+      });
+    });
+    return result;
+  }
+
+  async createCafeChangeProposal(newProposal: NewCafeChangeProposal): Promise<CafeChangeProposal> {
+    const id = this.cafeChangeProposalIdCounter++;
+    const proposal: CafeChangeProposal = {
+      ...newProposal,
+      id,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    };
+    this.cafeChangeProposalsMap.set(id, proposal);
+    return proposal;
+  }
+
+  async updateCafeChangeProposal(id: number, proposalData: Partial<CafeChangeProposal>): Promise<CafeChangeProposal | undefined> {
+    const proposal = this.cafeChangeProposalsMap.get(id);
+    if (!proposal) return undefined;
+
+    const updatedProposal = { ...proposal, ...proposalData, id };
+    this.cafeChangeProposalsMap.set(id, updatedProposal);
+    return updatedProposal;
+  }
+
+  async approveCafeChangeProposal(id: number, reviewerId: number, note?: string): Promise<CafeChangeProposal | undefined> {
+    const proposal = this.cafeChangeProposalsMap.get(id);
+    if (!proposal) return undefined;
+
+    const { roastLevels, brewingMethods, schedule, ...cafeUpdate } = proposal.changes;
+    if (Object.keys(cafeUpdate).length > 0) {
+      await this.updateCafe(proposal.cafeId, cafeUpdate);
+    }
+    if (roastLevels) {
+      await this.updateCafeRoastLevels(proposal.cafeId, roastLevels);
+    }
+    if (brewingMethods) {
+      await this.updateCafeBrewingMethods(proposal.cafeId, brewingMethods);
+    }
+    if (schedule) {
+      await this.replaceCafeSchedule(proposal.cafeId, schedule);
+    }
+
+    return this.updateCafeChangeProposal(id, {
+      status: 'approved',
+      reviewedBy: reviewerId,
+      reviewNote: note || null,
+      reviewedAt: new Date(),
+    });
+  }
+
+  // Import staging methods
+  async createImportBatch(newBatch: NewImportBatch, candidates: StagedCafe[]): Promise<ImportBatch> {
+    const batch: ImportBatch = {
+      ...newBatch,
+      id: this.importBatchIdCounter++,
+      createdAt: new Date(),
+      committedAt: null,
+    };
+    this.importBatchesMap.set(batch.id, batch);
+
+    candidates.forEach(data => {
+      const id = this.importCandidateIdCounter++;
+      this.importCandidatesMap.set(id, {
+        id,
+        batchId: batch.id,
+        data,
+        status: 'pending',
+        cafeId: null,
+        error: null,
+      });
+    });
+    return batch;
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    return this.importBatchesMap.get(id);
+  }
+
+  async listImportBatches(): Promise<ImportBatchSummary[]> {
+    return Array.from(this.importBatchesMap.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map(batch => {
+        const counts = { pending: 0, accepted: 0, rejected: 0 };
+        this.importCandidatesMap.forEach(candidate => {
+          if (candidate.batchId === batch.id) counts[candidate.status]++;
+        });
+        return { ...batch, counts };
+      });
+  }
+
+  async getImportCandidates(batchId: number): Promise<ImportCandidate[]> {
+    return Array.from(this.importCandidatesMap.values())
+      .filter(candidate => candidate.batchId === batchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateImportCandidate(
+    id: number,
+    candidateData: Partial<Pick<ImportCandidate, "status" | "cafeId" | "error">>,
+  ): Promise<ImportCandidate | undefined> {
+    const candidate = this.importCandidatesMap.get(id);
+    if (!candidate) return undefined;
+
+    const updatedCandidate = { ...candidate, ...candidateData, id };
+    this.importCandidatesMap.set(id, updatedCandidate);
+    return updatedCandidate;
+  }
+
+  async markImportBatchCommitted(id: number): Promise<ImportBatch | undefined> {
+    const batch = this.importBatchesMap.get(id);
+    if (!batch) return undefined;
+
+    const updatedBatch = { ...batch, committedAt: new Date() };
+    this.importBatchesMap.set(id, updatedBatch);
+    return updatedBatch;
+  }
+
+  async deleteImportBatch(id: number): Promise<boolean> {
+    if (!this.importBatchesMap.has(id)) return false;
+
+    Array.from(this.importCandidatesMap.values())
+      .filter(candidate => candidate.batchId === id)
+      .forEach(candidate => this.importCandidatesMap.delete(candidate.id));
+    return this.importBatchesMap.delete(id);
+  }
+
   // Initialize sample data
   private async initSampleData() {
     // Sample cafes
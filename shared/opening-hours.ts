@@ -0,0 +1,250 @@
+// Opening hours evaluation shared by the storage layer (openNow / openAt
+// filters) and the client (status labels on cards and the detail page).
+// All hours are stored as Boston wall-clock times.
+
+export const CAFE_TIMEZONE = "America/New_York";
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Structural types so both database rows and form values can be evaluated
+export interface HoursInterval {
+  dayOfWeek: number;
+  opensAt: string;
+  closesAt: string;
+}
+
+export interface HoursException {
+  date: string;
+  isClosed: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+}
+
+export interface ZonedTime {
+  date: string;      // "YYYY-MM-DD"
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number;   // Minutes since local midnight
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt?: string;  // Set when open
+  opensAt?: string;   // Set when closed and the cafe opens again within a week
+  opensInDays?: number; // 0 = later today, 1 = tomorrow, ...
+}
+
+const zonedFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: CAFE_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Convert an instant to Boston local date, weekday and time of day
+ * @param at Instant to convert
+ * @returns Local calendar date, day of week and minutes since midnight
+ */
+export function toZonedTime(at: Date): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of zonedFormatter.formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    dayOfWeek: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+// Minutes Boston local time is ahead of UTC at an instant (negative)
+function zoneOffsetMinutes(at: Date): number {
+  const { date, minutes } = toZonedTime(at);
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  const localAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  return Math.round((localAsUtc - Math.floor(at.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Parse a date and time as given in an API query. Text with a "Z" or UTC
+ * offset is that instant; text without one is Boston wall-clock time, not
+ * the server's. A missing time means local midnight.
+ * @param text ISO 8601 date, or date and time
+ * @returns The instant, or null when the text is not a date
+ */
+export function parseCafeDateTime(text: string): Date | null {
+  const value = text.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value) && /^\d{4}-\d{2}-\d{2}T/i.test(value)) {
+    const instant = new Date(value);
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour = "0", minute = "0", second = "0"] = match.slice(1);
+  const localAsUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const check = new Date(localAsUtc);
+  if (check.getUTCMonth() !== +month - 1 || check.getUTCDate() !== +day || +hour > 23 || +minute > 59 || +second > 59) {
+    return null;
+  }
+
+  // The offset at the wall-clock time read as UTC is right except within
+  // hours of a DST change, so it is taken again at the first guess
+  const guess = localAsUtc - zoneOffsetMinutes(check) * 60000;
+  return new Date(localAsUtc - zoneOffsetMinutes(new Date(guess)) * 60000);
+}
+
+/**
+ * Parse an "HH:MM" string into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+// Add days to a "YYYY-MM-DD" calendar date
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// Closing time in minutes from the interval's opening day midnight;
+// intervals that close at or before they open run past midnight
+function closingMinutes(interval: { opensAt: string; closesAt: string }): number {
+  const opens = parseTimeOfDay(interval.opensAt);
+  const closes = parseTimeOfDay(interval.closesAt);
+  return closes <= opens ? closes + 24 * 60 : closes;
+}
+
+/**
+ * Get the intervals that apply on a given local date, taking exceptions into account
+ * @param hours Regular weekly hours
+ * @param exceptions Date-specific exceptions
+ * @param date Local calendar date ("YYYY-MM-DD")
+ * @returns Intervals opening on that date, sorted by opening time
+ */
+export function getIntervalsForDate(
+  hours: HoursInterval[],
+  exceptions: HoursException[],
+  date: string,
+): { opensAt: string; closesAt: string }[] {
+  const exception = exceptions.find((e) => e.date === date);
+  if (exception) {
+    if (exception.isClosed || !exception.opensAt || !exception.closesAt) {
+      return [];
+    }
+    return [{ opensAt: exception.opensAt, closesAt: exception.closesAt }];
+  }
+
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return hours
+    .filter((interval) => interval.dayOfWeek === dayOfWeek)
+    .map(({ opensAt, closesAt }) => ({ opensAt, closesAt }))
+    .sort((a, b) => parseTimeOfDay(a.opensAt) - parseTimeOfDay(b.opensAt));
+}
+
+/**
+ * Work out whether a cafe is open at an instant and when that changes
+ * @param hours Regular weekly hours
+ * @param exceptions Date-specific exceptions
+ * @param at Instant to evaluate, defaults to now
+ * @returns Open status with the next closing or opening time
+ */
+export function getOpenStatus(
+  hours: HoursInterval[],
+  exceptions: HoursException[] = [],
+  at: Date = new Date(),
+): OpenStatus {
+  const now = toZonedTime(at);
+
+  // Intervals from yesterday that run past midnight into today
+  for (const interval of getIntervalsForDate(hours, exceptions, addDays(now.date, -1))) {
+    const closes = closingMinutes(interval) - 24 * 60;
+    if (closes > 0 && now.minutes < closes) {
+      return { isOpen: true, closesAt: interval.closesAt };
+    }
+  }
+
+  const today = getIntervalsForDate(hours, exceptions, now.date);
+  for (const interval of today) {
+    const opens = parseTimeOfDay(interval.opensAt);
+    if (now.minutes >= opens && now.minutes < closingMinutes(interval)) {
+      return { isOpen: true, closesAt: interval.closesAt };
+    }
+  }
+
+  const laterToday = today.find((interval) => parseTimeOfDay(interval.opensAt) > now.minutes);
+  if (laterToday) {
+    return { isOpen: false, opensAt: laterToday.opensAt, opensInDays: 0 };
+  }
+
+  for (let days = 1; days <= 7; days++) {
+    const [next] = getIntervalsForDate(hours, exceptions, addDays(now.date, days));
+    if (next) {
+      return { isOpen: false, opensAt: next.opensAt, opensInDays: days };
+    }
+  }
+
+  return { isOpen: false };
+}
+
+/**
+ * Check whether a cafe is open at an instant
+ */
+export function isOpenAt(
+  hours: HoursInterval[],
+  exceptions: HoursException[],
+  at: Date = new Date(),
+): boolean {
+  return getOpenStatus(hours, exceptions, at).isOpen;
+}
+
+/**
+ * Format an "HH:MM" time as a short label, e.g. "7am" or "6:30pm"
+ */
+export function formatTimeOfDay(time: string): string {
+  const total = parseTimeOfDay(time) % (24 * 60);
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  const suffix = hours < 12 ? "am" : "pm";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0
+    ? `${displayHours}${suffix}`
+    : `${displayHours}:${minutes.toString().padStart(2, "0")}${suffix}`;
+}
+
+/**
+ * Describe an open status for display, e.g. "Open until 6pm" or "Opens at 7am"
+ * @param status Result of getOpenStatus
+ * @param at Instant the status was computed for, used to name the opening day
+ * @returns Display label, or null when the cafe has no upcoming hours
+ */
+export function describeOpenStatus(status: OpenStatus, at: Date = new Date()): string | null {
+  if (status.isOpen && status.closesAt) {
+    return `Open until ${formatTimeOfDay(status.closesAt)}`;
+  }
+
+  if (!status.opensAt || status.opensInDays === undefined) {
+    return null;
+  }
+
+  if (status.opensInDays === 0) {
+    return `Opens at ${formatTimeOfDay(status.opensAt)}`;
+  }
+
+  if (status.opensInDays === 1) {
+    return `Opens tomorrow at ${formatTimeOfDay(status.opensAt)}`;
+  }
+
+  const dayOfWeek = (toZonedTime(at).dayOfWeek + status.opensInDays) % 7;
+  return `Opens ${WEEKDAY_NAMES[dayOfWeek]} at ${formatTimeOfDay(status.opensAt)}`;
+}
@@ -1,12 +1,21 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, uniqueIndex, index, doublePrecision, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
+import { parseCafeDateTime } from "./opening-hours";
 
 // Enums
 export const roastLevelEnum = pgEnum('roast_level', ['light', 'light_medium', 'medium', 'medium_dark', 'dark', 'extra_dark']);
 export const brewingMethodEnum = pgEnum('brewing_method', ['espresso_based', 'pour_over', 'siphon', 'mixed_drinks', 'nitro', 'cold_brew']);
 export const cafeStatusEnum = pgEnum('cafe_status', ['draft', 'published', 'archived']);
 export const userRoleEnum = pgEnum('user_role', ['user', 'admin', 'cafe_owner']);
+export const claimStatusEnum = pgEnum('claim_status', ['pending', 'approved', 'denied']);
+export const claimVerificationMethodEnum = pgEnum('claim_verification_method', ['business_email', 'phone_callback']);
+export const proposalStatusEnum = pgEnum('proposal_status', ['pending', 'approved', 'rejected']);
+export const reportReasonEnum = pgEnum('report_reason', ['spam', 'offensive', 'off_topic', 'conflict_of_interest']);
+export const reportStatusEnum = pgEnum('report_status', ['open', 'resolved']);
+export const importSourceEnum = pgEnum('import_source', ['google_places', 'file']);
+export const importCandidateStatusEnum = pgEnum('import_candidate_status', ['pending', 'accepted', 'rejected']);
 
 // Users table
 export const users = pgTable("users", {
@@ -28,6 +37,20 @@ export const users = pgTable("users", {
   passwordResetTokenExpiresAt: timestamp("password_reset_token_expires_at"),
 });
 
+/**
+ * Weighted full-text document for cafe search: name (A), area (B), address (C)
+ * and description (D). The search index is built on this exact expression, so
+ * queries must use it too for the index to apply.
+ */
+export function cafeSearchDocument(columns: Record<"name" | "area" | "address" | "description", AnyPgColumn>) {
+  return sql`(
+    setweight(to_tsvector('english', coalesce(${columns.name}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${columns.area}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${columns.address}, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(${columns.description}, '')), 'D')
+  )`;
+}
+
 // Cafes table
 export const cafes = pgTable("cafes", {
   id: serial("id").primaryKey(),
@@ -39,13 +62,33 @@ export const cafes = pgTable("cafes", {
   longitude: text("longitude").notNull(),
   priceLevel: integer("price_level").default(1), // 1-4 representing $ to $$$$
   sellsCoffeeBeans: boolean("sells_coffee_beans").default(false),
+  // Amenities
+  hasWifi: boolean("has_wifi").default(false),
+  hasPower: boolean("has_power").default(false),
+  hasFood: boolean("has_food").default(false),
+  hasOutdoorSeating: boolean("has_outdoor_seating").default(false),
+  hasRestroom: boolean("has_restroom").default(false),
+  isWheelchairAccessible: boolean("is_wheelchair_accessible").default(false),
+  isPetFriendly: boolean("is_pet_friendly").default(false),
   imageUrl: text("image_url"),
   website: text("website").default(''),
   phone: text("phone").default(''),
   instagramHandle: text("instagram_handle").default(''),
   googleMapsUrl: text("google_maps_url").default(''),
+  googlePlaceId: text("google_place_id"), // Set for cafes imported from Google Places
+  externalId: text("external_id"), // Curators' own key, for updating the cafe from a bulk import
   status: cafeStatusEnum("status").default('draft').notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    googlePlaceIdx: uniqueIndex("cafe_google_place_id_idx").on(table.googlePlaceId),
+    externalIdx: uniqueIndex("cafe_external_id_idx").on(table.externalId),
+    // Full-text search, plus trigram indexes (pg_trgm) for typo-tolerant matching
+    searchIdx: index("cafe_search_idx").using("gin", cafeSearchDocument(table)),
+    nameTrgmIdx: index("cafe_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+    areaTrgmIdx: index("cafe_area_trgm_idx").using("gin", table.area.op("gin_trgm_ops")),
+    addressTrgmIdx: index("cafe_address_trgm_idx").using("gin", table.address.op("gin_trgm_ops")),
+  };
 });
 
 // CafeRoastLevels table (many-to-many)
@@ -70,20 +113,128 @@ export const cafeBrewingMethods = pgTable("cafe_brewing_methods", {
   };
 });
 
+// CafeHours table - regular weekly opening intervals (a day may have several)
+export const cafeHours = pgTable("cafe_hours", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  opensAt: text("opens_at").notNull(),   // "HH:MM", Boston local time
+  closesAt: text("closes_at").notNull(), // "HH:MM"; at or before opensAt means the interval runs past midnight
+});
+
+// CafeHoursExceptions table - holiday closures or special hours for a single date
+export const cafeHoursExceptions = pgTable("cafe_hours_exceptions", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  date: text("date").notNull(), // "YYYY-MM-DD", Boston local date
+  isClosed: boolean("is_closed").default(true).notNull(),
+  opensAt: text("opens_at"),   // Only used when isClosed is false
+  closesAt: text("closes_at"),
+  note: text("note"),          // e.g. "Thanksgiving"
+}, (table) => {
+  return {
+    cafeDateIdx: uniqueIndex("cafe_hours_exception_date_idx").on(table.cafeId, table.date),
+  };
+});
+
+// CafePhotos table - the listing's own gallery, curated by admins. Files live
+// in the photo storage adapter like review photos do.
+export const cafePhotos = pgTable("cafe_photos", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  imageKey: text("image_key").notNull(),
+  imageUrl: text("image_url").notNull(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  thumbnailUrl: text("thumbnail_url").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  caption: text("caption"),
+  attribution: text("attribution"), // Photographer credit, required for Google Places photos
+  position: integer("position").notNull(), // Gallery order, ascending
+  isCover: boolean("is_cover").default(false).notNull(), // Shown on cards; at most one per cafe
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    coverIdx: uniqueIndex("cafe_photo_cover_idx").on(table.cafeId).where(sql`${table.isCover}`),
+  };
+});
+
+// Most photos in one cafe's gallery
+export const MAX_CAFE_PHOTOS = 20;
+
 // Ratings table
 export const ratings = pgTable("ratings", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   cafeId: integer("cafe_id").notNull().references(() => cafes.id),
   rating: integer("rating").notNull(), // 1-5 stars
+  // Optional 1-5 sub-scores, averaged per cafe alongside the overall rating
+  coffeeScore: integer("coffee_score"),
+  atmosphereScore: integer("atmosphere_score"),
+  workScore: integer("work_score"), // Work-friendliness: seating, wifi, power, noise
+  serviceScore: integer("service_score"),
+  valueScore: integer("value_score"),
   review: text("review"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"), // Set whenever the author changes their rating
+  isHidden: boolean("is_hidden").default(false).notNull(), // Hidden by a moderator; excluded from public listings and averages
 }, (table) => {
   return {
     userCafeIdx: uniqueIndex("user_cafe_idx").on(table.userId, table.cafeId),
   };
 });
 
+// ReviewReplies table - a cafe owner's public response, at most one per review
+export const reviewReplies = pgTable("review_replies", {
+  id: serial("id").primaryKey(),
+  ratingId: integer("rating_id").notNull().references(() => ratings.id),
+  userId: integer("user_id").notNull().references(() => users.id), // The owner who replied
+  reply: text("reply").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"),
+}, (table) => {
+  return {
+    ratingIdx: uniqueIndex("review_reply_rating_idx").on(table.ratingId),
+  };
+});
+
+// ReviewPhotos table - images attached to a review. Files live in the photo
+// storage adapter; keys locate them there and URLs are what clients load.
+export const reviewPhotos = pgTable("review_photos", {
+  id: serial("id").primaryKey(),
+  ratingId: integer("rating_id").notNull().references(() => ratings.id),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  imageKey: text("image_key").notNull(),
+  imageUrl: text("image_url").notNull(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  thumbnailUrl: text("thumbnail_url").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Most photos a reviewer can attach to one review
+export const MAX_REVIEW_PHOTOS = 5;
+
+// ReviewReports table - users flagging reviews for moderation
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  ratingId: integer("rating_id").notNull().references(() => ratings.id),
+  reporterId: integer("reporter_id").notNull().references(() => users.id),
+  reason: reportReasonEnum("reason").notNull(),
+  details: text("details"),
+  status: reportStatusEnum("status").default('open').notNull(),
+  resolution: text("resolution"), // "hidden" or "restored"
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    reporterRatingIdx: uniqueIndex("review_report_reporter_idx").on(table.ratingId, table.reporterId),
+  };
+});
+
 // Favorites table
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
@@ -96,6 +247,70 @@ export const favorites = pgTable("favorites", {
   };
 });
 
+// CafeClaims table - a user's request to be recognised as a cafe's owner
+export const cafeClaims = pgTable("cafe_claims", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  verificationMethod: claimVerificationMethodEnum("verification_method").notNull(),
+  businessEmail: text("business_email"), // Only used for business_email claims
+  verificationCode: text("verification_code").notNull(), // Emailed, or read out on the callback
+  verifiedAt: timestamp("verified_at"), // Set once the claimant enters the code
+  verificationAttempts: integer("verification_attempts").default(0).notNull(), // Wrong codes entered so far
+  message: text("message"), // Optional note from the claimant
+  status: claimStatusEnum("status").default('pending').notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// CafeOwners table - links owners to the cafes they manage
+export const cafeOwners = pgTable("cafe_owners", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  claimId: integer("claim_id").references(() => cafeClaims.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userCafeIdx: uniqueIndex("user_cafe_owner_idx").on(table.userId, table.cafeId),
+  };
+});
+
+// CafeChangeProposals table - owner edits waiting for an admin to apply them
+export const cafeChangeProposals = pgTable("cafe_change_proposals", {
+  id: serial("id").primaryKey(),
+  cafeId: integer("cafe_id").notNull().references(() => cafes.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  changes: jsonb("changes").$type<CafeChangeSet>().notNull(), // Only the fields that differ from the listing
+  status: proposalStatusEnum("status").default('pending').notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// ImportBatches table - one fetch of candidate cafes, staged for an admin to
+// review before anything is written to cafes
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  source: importSourceEnum("source").notNull(),
+  label: text("label").notNull(), // The searched location or the uploaded file name
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  committedAt: timestamp("committed_at"),
+});
+
+// ImportCandidates table - one staged cafe in a batch
+export const importCandidates = pgTable("import_candidates", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => importBatches.id),
+  data: jsonb("data").$type<StagedCafe>().notNull(),
+  status: importCandidateStatusEnum("status").default('pending').notNull(),
+  cafeId: integer("cafe_id").references(() => cafes.id), // The cafe created when the candidate was accepted
+  error: text("error"), // Why creating the cafe failed
+});
+
 // Password validation regex patterns
 const hasUppercase = /[A-Z]/;
 const hasLowercase = /[a-z]/;
@@ -157,9 +372,150 @@ export const insertCafeBrewingMethodSchema = createInsertSchema(cafeBrewingMetho
   id: true,
 });
 
-export const insertRatingSchema = createInsertSchema(ratings).omit({
+// "HH:MM" in 24-hour time; "24:00" is allowed as a closing time
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Time must be in HH:MM format");
+
+export const insertCafeHoursSchema = createInsertSchema(cafeHours, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  opensAt: timeOfDaySchema,
+  closesAt: timeOfDaySchema,
+}).omit({
+  id: true,
+});
+
+// A cafe awaiting import: the listing fields plus what is created with it
+export const stagedCafeSchema = insertCafeSchema.pick({
+  name: true,
+  description: true,
+  address: true,
+  area: true,
+  latitude: true,
+  longitude: true,
+  priceLevel: true,
+  website: true,
+  phone: true,
+  googleMapsUrl: true,
+  googlePlaceId: true,
+}).extend({
+  hours: z.array(insertCafeHoursSchema.omit({ cafeId: true })).default([]),
+  // Photos to download from Google Places on import; attributions are HTML
+  googlePhotos: z.array(z.object({
+    photoReference: z.string(),
+    attributions: z.array(z.string()),
+  })).default([]),
+});
+
+// Drop repeats such as "light; Light", which the cafe's roast level and
+// brewing method tables would refuse
+function uniqueValues<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// A row of a bulk cafe file. Roast levels and brewing methods left out of
+// a row are left unchanged when it updates an existing cafe.
+export const bulkCafeRowSchema = insertCafeSchema.omit({
+  status: true,
+  googlePlaceId: true,
+}).extend({
+  externalId: z.string().trim().min(1).max(100).optional(),
+  roastLevels: z.array(z.enum(roastLevelEnum.enumValues)).transform(uniqueValues).optional(),
+  brewingMethods: z.array(z.enum(brewingMethodEnum.enumValues)).transform(uniqueValues).optional(),
+});
+
+export const importPlacesSchema = z.object({
+  location: z.string().trim().min(1).max(200),
+});
+
+// Accepting staged candidates; the rest of the batch is rejected
+export const commitImportSchema = z.object({
+  candidateIds: z.array(z.number().int()),
+  photosPerCafe: z.number().int().min(0).max(MAX_CAFE_PHOTOS).default(3),
+});
+
+export const insertCafeHoursExceptionSchema = createInsertSchema(cafeHoursExceptions, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  opensAt: timeOfDaySchema.nullish(),
+  closesAt: timeOfDaySchema.nullish(),
+}).omit({
+  id: true,
+});
+
+// Payload for replacing a cafe's full schedule at once
+export const cafeScheduleSchema = z.object({
+  hours: z.array(insertCafeHoursSchema.omit({ cafeId: true })),
+  exceptions: z.array(
+    insertCafeHoursExceptionSchema.omit({ cafeId: true }).refine(
+      (exception) => exception.isClosed !== false || (!!exception.opensAt && !!exception.closesAt),
+      "Opening and closing times are required when the cafe is open on this date",
+    ),
+  ).default([]),
+});
+
+// Fields a cafe owner may change; anything else (status, coordinates, ...)
+// is rejected. Every field is optional so proposals only carry what changed.
+export const cafeChangeSetSchema = z.object({
+  description: z.string().min(1).optional(),
+  website: z.string().optional(),
+  phone: z.string().optional(),
+  instagramHandle: z.string().optional(),
+  imageUrl: z.string().optional(),
+  roastLevels: z.array(z.enum(roastLevelEnum.enumValues)).optional(),
+  brewingMethods: z.array(z.enum(brewingMethodEnum.enumValues)).optional(),
+  schedule: cafeScheduleSchema.optional(),
+}).strict();
+
+const subScoreSchema = z.number().int().min(1).max(5).nullish();
+
+export const insertRatingSchema = createInsertSchema(ratings, {
+  coffeeScore: subScoreSchema,
+  atmosphereScore: subScoreSchema,
+  workScore: subScoreSchema,
+  serviceScore: subScoreSchema,
+  valueScore: subScoreSchema,
+}).omit({
   id: true,
   createdAt: true,
+  editedAt: true,
+  isHidden: true,
+});
+
+// Fields a user may change on their own rating
+export const updateRatingSchema = z.object({
+  rating: z.number().int().min(1).max(5).optional(),
+  coffeeScore: subScoreSchema,
+  atmosphereScore: subScoreSchema,
+  workScore: subScoreSchema,
+  serviceScore: subScoreSchema,
+  valueScore: subScoreSchema,
+  review: z.string().nullable().optional(),
+});
+
+// Body of an owner reply; the review and author come from the route
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Reply cannot be empty").max(2000),
+});
+
+export const reviewReportSchema = z.object({
+  reason: z.enum(reportReasonEnum.enumValues),
+  details: z.string().trim().max(1000).optional(),
+});
+
+// Admin decision on a reported review
+export const moderateReviewSchema = z.object({
+  action: z.enum(["hide", "restore", "delete"]),
+  warnAuthor: z.boolean().default(false),
+  note: z.string().trim().max(1000).optional(), // Included in the warning email
+});
+
+// Admin edits to a cafe photo's text
+export const updateCafePhotoSchema = z.object({
+  caption: z.string().trim().max(200).nullish(),
+  attribution: z.string().trim().max(200).nullish(),
+});
+
+// New gallery order: every photo of the cafe, first to last
+export const cafePhotoOrderSchema = z.object({
+  photoIds: z.array(z.number().int()).min(1),
 });
 
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({
@@ -167,27 +523,153 @@ export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   createdAt: true,
 });
 
+// Payload for submitting an ownership claim; the code and review fields
+// are filled in by the server
+export const insertCafeClaimSchema = z.object({
+  verificationMethod: z.enum(claimVerificationMethodEnum.enumValues),
+  businessEmail: z.string().email().optional(),
+  message: z.string().max(1000).optional(),
+}).refine((data) => data.verificationMethod !== "business_email" || !!data.businessEmail, {
+  message: "A business email is required for email verification",
+  path: ["businessEmail"],
+});
+
+export const verifyCafeClaimSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+// Optional note recorded when an admin approves or denies a claim or proposal
+export const reviewDecisionSchema = z.object({
+  note: z.string().max(1000).optional(),
+});
+
 // Search and filter types
 // Sort options enumeration
 export const cafeSortOptionsEnum = [
-  "default",        // Default sorting (featured/relevance)
+  "default",        // Best search match first when searching, otherwise featured
   "distance",       // Distance from user's location
-  "rating_high",    // Highest rating first
+  "rating_high",    // Highest ranking score (Bayesian average) first
   "reviews_count"   // Most reviews first
 ] as const;
 
+// Amenity columns on the cafes table, in display order
+export const cafeAmenityKeys = [
+  "hasWifi",
+  "hasPower",
+  "hasFood",
+  "hasOutdoorSeating",
+  "hasRestroom",
+  "isWheelchairAccessible",
+  "isPetFriendly",
+] as const;
+
+export type CafeAmenity = typeof cafeAmenityKeys[number];
+
+// Rating sub-score columns, in display order
+export const ratingSubScoreKeys = [
+  "coffeeScore",
+  "atmosphereScore",
+  "workScore",
+  "serviceScore",
+  "valueScore",
+] as const;
+
+export type RatingSubScore = typeof ratingSubScoreKeys[number];
+
+// Per-cafe sub-score averages; null until someone has scored that dimension
+export type RatingSubScores = Record<RatingSubScore, number | null>;
+
+// Cafe filter field holding the minimum average for each sub-score
+export const subScoreFilterKeys = {
+  coffeeScore: "minCoffeeScore",
+  atmosphereScore: "minAtmosphereScore",
+  workScore: "minWorkScore",
+  serviceScore: "minServiceScore",
+  valueScore: "minValueScore",
+} as const;
+
+// Whether a cafe needs any one or all of the selected roast levels (or
+// brewing methods) to match
+export const filterMatchModes = ["any", "all"] as const;
+
+export type FilterMatchMode = typeof filterMatchModes[number];
+
 export const cafeFilterSchema = z.object({
   area: z.string().optional(),
   roastLevels: z.array(z.enum(["light", "light_medium", "medium", "medium_dark", "dark", "extra_dark"])).optional(),
+  roastLevelsMode: z.enum(filterMatchModes).optional(), // Defaults to "any"
   brewingMethods: z.array(z.enum(["espresso_based", "pour_over", "siphon", "mixed_drinks", "nitro", "cold_brew"])).optional(),
+  brewingMethodsMode: z.enum(filterMatchModes).optional(), // Defaults to "any"
   minRating: z.number().min(0).max(5).optional(),
+  // Minimum sub-score averages; cafes nobody has scored on that dimension are excluded
+  minCoffeeScore: z.number().min(0).max(5).optional(),
+  minAtmosphereScore: z.number().min(0).max(5).optional(),
+  minWorkScore: z.number().min(0).max(5).optional(),
+  minServiceScore: z.number().min(0).max(5).optional(),
+  minValueScore: z.number().min(0).max(5).optional(),
   priceLevel: z.number().min(1).max(4).optional(),
   sellsCoffeeBeans: z.boolean().optional(),
-  query: z.string().optional(),
+  // Amenity filters only narrow the results when set to true
+  hasWifi: z.boolean().optional(),
+  hasPower: z.boolean().optional(),
+  hasFood: z.boolean().optional(),
+  hasOutdoorSeating: z.boolean().optional(),
+  hasRestroom: z.boolean().optional(),
+  isWheelchairAccessible: z.boolean().optional(),
+  isPetFriendly: z.boolean().optional(),
+  query: z.string().optional(), // Free-text search over name, area, address and description
   sortBy: z.enum(cafeSortOptionsEnum).optional(),
+  // Reference point for distance and the "distance" sort option
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
   status: z.enum(["draft", "published", "archived"]).optional(),
   name: z.string().optional(),
   address: z.string().optional(),
+  openNow: z.boolean().optional(),
+  // Evaluated against Boston local time; a time without an offset is read
+  // as Boston time too, and text that isn't a date is refused
+  openAt: z.preprocess(
+    (value) => (typeof value === "string" ? parseCafeDateTime(value) ?? value : value),
+    z.date(),
+  ).optional(),
+});
+
+// Cursor pagination for cafe listings
+export const cafePaginationSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+// Highest ranked cafes for the home page
+export const featuredCafesQuerySchema = z.object({
+  limit: z.number().int().min(1).max(12).default(3),
+  area: z.string().optional(),
+});
+
+// Search-as-you-type suggestions; limit applies to each group
+export const searchSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.number().int().min(1).max(10).default(5),
+});
+
+// Public reviews feed for a cafe
+export const reviewSortOptionsEnum = ["newest", "highest", "lowest"] as const;
+
+export const reviewListQuerySchema = z.object({
+  sort: z.enum(reviewSortOptionsEnum).default("newest"),
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(50).default(10),
+});
+
+// The signed-in user's own ratings, as listed on the profile page
+export const userRatingSortOptionsEnum = ["newest", "oldest", "highest", "lowest"] as const;
+
+export const userRatingListQuerySchema = z.object({
+  sort: z.enum(userRatingSortOptionsEnum).default("newest"),
+  rating: z.number().int().min(1).max(5).optional(), // Only ratings with this star value
+  withReview: z.boolean().optional(),                // Only ratings with written text
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(50).default(10),
 });
 
 // Types
@@ -203,19 +685,295 @@ export type CafeRoastLevel = typeof cafeRoastLevels.$inferSelect;
 export type InsertCafeBrewingMethod = z.infer<typeof insertCafeBrewingMethodSchema>;
 export type CafeBrewingMethod = typeof cafeBrewingMethods.$inferSelect;
 
+export type InsertCafeHours = z.infer<typeof insertCafeHoursSchema>;
+export type CafeHours = typeof cafeHours.$inferSelect;
+
+export type InsertCafeHoursException = z.infer<typeof insertCafeHoursExceptionSchema>;
+export type CafeHoursException = typeof cafeHoursExceptions.$inferSelect;
+
+export type CafeSchedule = z.infer<typeof cafeScheduleSchema>;
+
 export type InsertRating = z.infer<typeof insertRatingSchema>;
+export type UpdateRating = z.infer<typeof updateRatingSchema>;
 export type Rating = typeof ratings.$inferSelect;
 
+export type ReviewReply = typeof reviewReplies.$inferSelect;
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type ReviewPhoto = typeof reviewPhotos.$inferSelect;
+export type CafePhoto = typeof cafePhotos.$inferSelect;
+export type UpdateCafePhoto = z.infer<typeof updateCafePhotoSchema>;
+export type ModerateReview = z.infer<typeof moderateReviewSchema>;
+
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
 
+export type InsertCafeClaim = z.infer<typeof insertCafeClaimSchema>;
+export type CafeClaim = typeof cafeClaims.$inferSelect;
+export type CafeOwner = typeof cafeOwners.$inferSelect;
+
+export type CafeChangeSet = z.infer<typeof cafeChangeSetSchema>;
+export type CafeChangeProposal = typeof cafeChangeProposals.$inferSelect;
+
+export type StagedCafe = z.infer<typeof stagedCafeSchema>;
+export type BulkCafeRow = z.infer<typeof bulkCafeRowSchema>;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type ImportCandidate = typeof importCandidates.$inferSelect;
+
 export type CafeFilter = z.infer<typeof cafeFilterSchema>;
+export type CafePagination = z.infer<typeof cafePaginationSchema>;
+export type ReviewListQuery = z.infer<typeof reviewListQuerySchema>;
+export type UserRatingListQuery = z.infer<typeof userRatingListQuerySchema>;
+export type SearchSuggestQuery = z.infer<typeof searchSuggestQuerySchema>;
 
 // Extended types with additional data for frontend
 export interface CafeWithDetails extends Cafe {
   roastLevels: string[];
   brewingMethods: string[];
+  hours: CafeHours[];
+  hoursExceptions: CafeHoursException[];
   averageRating?: number;
   totalRatings?: number;
+  subScores?: RatingSubScores;
+  score?: number; // Ranking score: the average rating weighted towards the site-wide mean
+  coverPhoto?: CafeCoverPhoto | null;
   isFavorite?: boolean;
+  distance?: number; // Kilometers from the lat/lng in the filters, when given
+  relevance?: number; // How well the cafe matches the search query, when given; higher is better
+}
+
+// What the map needs to place a cafe and fill its info window, for every
+// cafe matching a listing rather than the pages loaded so far
+export const cafeMapPinFields = [
+  "id", "name", "area", "address", "latitude", "longitude",
+  "roastLevels", "brewingMethods", "averageRating", "totalRatings", "isFavorite",
+] as const;
+export type CafeMapPin = Pick<CafeWithDetails, typeof cafeMapPinFields[number]>;
+
+// The map's fields of a listed cafe
+export function toCafeMapPin(cafe: CafeWithDetails): CafeMapPin {
+  return Object.fromEntries(cafeMapPinFields.map((field) => [field, cafe[field]])) as CafeMapPin;
+}
+
+// A filter read from the words of a search, e.g. "open now" as openNow
+export interface SearchQueryTerm {
+  field: keyof CafeFilter;
+  value: string | number | boolean;
+  label: string; // Display text, e.g. "Open Now"
+  text: string;  // The part of the search it was read from
+}
+
+// How a search was read: the filters found in it and the words left over
+// for the text search
+export interface SearchInterpretation {
+  filters: CafeFilter;
+  terms: SearchQueryTerm[];
+  query: string;
+}
+
+// Cafes each filter option would match, counted with every other current
+// filter applied but not the option's own facet. Ratings count the cafes
+// rated at least that many stars, like the minRating filter.
+export interface CafeFacets {
+  roastLevels: Record<string, number>;
+  brewingMethods: Record<string, number>;
+  areas: Record<string, number>;
+  priceLevels: Record<number, number>;
+  ratings: Record<number, number>;
+}
+
+// One page of a cafe listing
+export interface CafePage {
+  cafes: CafeWithDetails[];
+  nextCursor: string | null; // Null on the last page
+  total: number;             // Cafes matching the filters across all pages
+  interpretation?: SearchInterpretation; // Only when there was a search
+  facets?: CafeFacets;                    // Only on the first page, when requested
+}
+
+// One search suggestion. `value` is what selecting it filters or searches
+// by: a cafe name, an area, or a roast level or brewing method enum value.
+export interface SearchSuggestion {
+  label: string;
+  value: string;
+  count: number; // Published cafes it matches
+}
+
+// Suggestions for a partly typed query, grouped by what they match
+export interface SearchSuggestions {
+  cafes: SearchSuggestion[];
+  areas: SearchSuggestion[];
+  roastLevels: SearchSuggestion[];
+  brewingMethods: SearchSuggestion[];
+}
+
+// A rating with the reviewer's public profile, as shown in the reviews feed
+export interface CafeReview {
+  id: number;
+  rating: number;
+  review: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  author: {
+    id: number;
+    name: string;
+    photoUrl: string | null;
+  };
+  ownerReply: {
+    id: number;
+    reply: string;
+    createdAt: Date;
+    editedAt: Date | null;
+  } | null;
+  photos: ReviewPhotoSummary[];
+}
+
+// A review photo as shown to clients
+export type ReviewPhotoSummary = Pick<ReviewPhoto, "id" | "imageUrl" | "thumbnailUrl" | "width" | "height">;
+
+// The photo shown for a cafe on cards and at the top of its page
+export type CafeCoverPhoto = Pick<CafePhoto, "id" | "imageUrl" | "thumbnailUrl" | "caption" | "attribution">;
+
+// A review photo in a cafe's gallery, with who took it
+export interface ReviewGalleryPhoto extends ReviewPhotoSummary {
+  ratingId: number;
+  createdAt: Date;
+  author: { id: number; name: string };
+}
+
+export interface CafeReviewPage {
+  reviews: CafeReview[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+  histogram: Record<number, number>; // Star value (1-5) to number of ratings
+}
+
+// An existing cafe that a staged candidate probably duplicates
+export interface ImportDuplicate {
+  cafeId: number;
+  name: string;
+  reason: "same_place" | "same_name_nearby" | "same_location";
+  distanceMeters: number | null;
+}
+
+export interface ImportCandidateWithDuplicate extends ImportCandidate {
+  duplicate: ImportDuplicate | null;
+}
+
+export interface ImportBatchWithCandidates extends ImportBatch {
+  candidates: ImportCandidateWithDuplicate[];
+}
+
+export interface ImportBatchSummary extends ImportBatch {
+  counts: Record<ImportCandidate["status"], number>;
+}
+
+// Why a row of an uploaded import file was refused
+export interface ImportRowError {
+  row: number; // 1-based position of the cafe in the file, not counting a CSV header
+  errors: string[];
+}
+
+// Outcome of a bulk import. Valid rows are saved together; rows listed in
+// errors were skipped.
+export interface BulkImportReport {
+  total: number;
+  created: number;
+  updated: number;
+  errors: ImportRowError[];
+}
+
+// Outcome of committing one staged candidate
+export interface CafeImportResult {
+  candidateId: number;
+  name: string;
+  status: "created" | "skipped" | "failed";
+  cafeId?: number; // The new cafe, or the existing one for skipped candidates
+  photos?: number;
+  reason?: string;
+}
+
+export interface CafeImportReport {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  photos: number;
+  results: CafeImportResult[];
+}
+
+// A claim as shown to the claimant; the verification code is never sent back
+export type PublicCafeClaim = Omit<CafeClaim, "verificationCode">;
+
+// A claim with the cafe and claimant details admins need to review it
+export interface CafeClaimWithDetails extends CafeClaim {
+  cafe: {
+    id: number;
+    name: string;
+    website: string | null;
+    phone: string | null;
+  };
+  claimant: {
+    id: number;
+    name: string;
+    email: string;
+  };
+}
+
+// A change proposal with what admins need to diff it against the listing
+export interface CafeChangeProposalWithDetails extends CafeChangeProposal {
+  cafe: {
+    id: number;
+    name: string;
+  };
+  proposer: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  current: CafeChangeSet; // Live values of the proposed fields
+}
+
+// A reported review with its reports, as shown in the moderation queue
+export interface ModerationQueueItem {
+  review: {
+    id: number;
+    rating: number;
+    review: string | null;
+    createdAt: Date;
+    isHidden: boolean;
+    cafe: { id: number; name: string };
+    author: { id: number; name: string; email: string };
+  };
+  reports: {
+    id: number;
+    reason: ReviewReport["reason"];
+    details: string | null;
+    status: ReviewReport["status"];
+    resolution: string | null;
+    createdAt: Date;
+    reporter: { id: number; name: string };
+  }[];
+}
+
+// A rating by the current user with a summary of the rated cafe
+export interface UserRatingEntry {
+  id: number;
+  rating: number;
+  review: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  cafe: {
+    id: number;
+    name: string;
+    imageUrl: string | null;
+    area: string;
+  };
+}
+
+export interface UserRatingPage {
+  ratings: UserRatingEntry[];
+  page: number;
+  total: number; // Ratings matching the filters across all pages
+  hasMore: boolean;
 }